@@ -1,123 +1,166 @@
-﻿import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { QuestionData, GenerationRequest, RequestStatus, CSV_HEADERS, GeneralContextFilePreview, LogEntry, LogType, CSV_HEADER_TO_QUESTION_DATA_KEY_MAP, QuestionDisplayType, QuestionTypeVisualInfo, ThinkingIntensity } from './types';
-import { APP_TITLE, MAX_OVERALL_REQUEST_ATTEMPTS, LOG_TIMESTAMP_FORMAT, ANIMATION_DEBOUNCE_TIME, REWRITE_QUESTIONS_FILENAME } from './constants';
-import { generateQuestionsFromGemini, generateCollectionTitleFromGemini, generateMetadataFromGemini } from './services/geminiService';
-import { generateCsvString, downloadCsvFile, parseCsvLineRobust, generateJsonString, downloadJsonFile, buildExportFilename } from './utils/csvHelper';
-import EditableCell from './components/EditableCell';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { QuestionData, QuestionTextField, GenerationRequest, RequestStatus, StagedQuestion, CSV_HEADERS, GeneralContextFilePreview, LogEntry, LogType, CSV_HEADER_TO_QUESTION_DATA_KEY_MAP, QuestionDisplayType, QuestionTypeVisualInfo, QuestionTargets, QuestionVerificationStatus, RequestSourceChunk, RetrievedPassage, ThinkingIntensity, LlmProviderId, LlmProviderSettings } from './types';
+import { APP_TITLE, MAX_OVERALL_REQUEST_ATTEMPTS, MAX_RATE_LIMIT_RETRIES, MAX_TARGET_FOLLOW_UP_CALLS, ESTIMATED_OUTPUT_TOKENS_PER_REQUEST, LOG_TIMESTAMP_FORMAT, ANIMATION_DEBOUNCE_TIME, REWRITE_QUESTIONS_FILENAME, VERIFICATION_BATCH_SIZE, AUTOSAVE_DEBOUNCE_TIME, LOCAL_STORAGE_ACTIVE_PROJECT_ID, QUESTION_ROW_ESTIMATED_HEIGHT } from './constants';
+import { generateQuestionsFromGemini, generateCollectionTitleFromGemini, generateMetadataFromGemini, verifyQuestionsWithGemini } from './services/geminiService';
+import { constructFollowUpRequestPrompt } from './services/promptBuilder';
+import { createLlmProvider, listLlmModels, loadLlmProviderSettings, saveLlmProviderSettings, LLM_PROVIDER_LABELS } from './services/llmProvider';
+import { listProjects, loadProject, saveProject, deleteProject, isWorkspaceEmpty, createProjectId, getProjectDisplayName, PersistedProject, ProjectInfo, ProjectSummary, WorkspaceData } from './services/storageService';
+import { generateCsvString, downloadCsvFile, parseCsvFile, CsvRecord, generateJsonString, downloadJsonFile, generateMoodleXmlString, downloadMoodleXmlFile, generateGiftString, downloadGiftFile, parseMoodleXmlString, parseGiftString, QuestionBankImportResult, downloadAnkiPackageFile, downloadAnkiTsvFile, downloadHtmlFile, buildExportFilename } from './utils/csvHelper';
+import { buildAnkiPackage, generateAnkiTsvString, AnkiDeckInfo } from './utils/ankiHelper';
+import { ExamHeader, ExamVersion, generateExamHtml, generateAnswerKeyHtml, openPrintableDocument } from './utils/examBuilder';
+import ProjectSwitcher from './components/ProjectSwitcher';
+import HistoryPanel from './components/HistoryPanel';
+import RewriteReviewPanel from './components/RewriteReviewPanel';
+import CsvImportWizard from './components/CsvImportWizard';
+import DocumentChunkingModal from './components/DocumentChunkingModal';
+import DuplicateReviewPanel from './components/DuplicateReviewPanel';
+import LintSettingsPanel from './components/LintSettingsPanel';
+import QuizRunner from './components/QuizRunner';
+import ExamGeneratorModal from './components/ExamGeneratorModal';
+import MetadataBulkEditor from './components/MetadataBulkEditor';
+import QuestionTableToolbar from './components/QuestionTableToolbar';
+import QuestionTableRow, { QuestionTableRowHandlers, VERIFICATION_LABELS } from './components/QuestionTableRow';
+import { createStagedQuestions, resolveStagedQuestion } from './utils/questionStaging';
+import { useVirtualRows } from './utils/useVirtualRows';
+import { getQuestionDisplayType } from './utils/questionType';
+import { DocumentChunk, formatChunkContext } from './utils/documentChunker';
+import { buildCitationSourceText, verifyCitations } from './utils/citations';
+import { DuplicateGroup, findDuplicateGroups, createDuplicateIndex, mergeDuplicateQuestions } from './utils/duplicateDetection';
+import { QuestionMetadataChanges, parseQuestionMetadata, applyMetadataChanges, collectTags } from './utils/questionMetadata';
+import { QuestionTableView, DEFAULT_QUESTION_TABLE_VIEW, SORTABLE_QUESTION_TYPES, applyQuestionTableView } from './utils/questionTableView';
+import { QuestionLintSettings, QuestionLintIssue, LintRuleId, LintRuleSettings, loadLintSettings, saveLintSettings, lintQuestions } from './utils/questionLinter';
+import { RetrievalSettings, ContextIndex, loadRetrievalSettings, saveRetrievalSettings, getContextIndexKey, buildContextIndex, searchContextIndex, formatRetrievedContext } from './utils/contextRetrieval';
+import { TARGETABLE_QUESTION_TYPES, normalizeQuestionTargets, getTargetShortfall, getTargetTotal, describeQuestionTargets } from './utils/questionTargets';
+import { QueueSchedulerSettings, RequestWorkerState, loadQueueSchedulerSettings, saveQueueSchedulerSettings, normalizeQueueSchedulerSettings, createRateLimiter, estimateTokens, isRateLimitError, getBackoffDelay, waitFor, runWorkerPool, createOrderedCommitter } from './utils/requestScheduler';
+import { CsvColumnTarget, ColumnMappingSuggestion, suggestColumnMapping, loadSavedColumnMapping, saveColumnMapping, applyColumnMapping } from './utils/csvColumnMapping';
+import { QuestionCommand, QuestionHistory, EMPTY_QUESTION_HISTORY, pushCommand, moveHistoryTo, createEditFieldCommand, createInsertQuestionsCommand, createRemoveQuestionsCommand, createMergeQuestionsCommand, createMergeDuplicatesCommand } from './utils/questionHistory';
 import { 
     PlusIcon, TrashIcon, DownloadIcon, ProcessIcon, CheckCircleIcon, XCircleIcon, ClockIcon, 
     ProcessingIcon as SpinnerIcon, PaperClipIcon, FileTextIcon, ListBulletIcon, ChevronDownIcon, 
     ChevronUpIcon, DocumentPlusIcon, AcademicCapIcon, PencilIcon, CogIcon, XMarkIcon,
     TextLinesIcon, CheckListIcon, CircleDotIcon, ArrowsRightLeftIcon, QuestionMarkCircleIcon, SparklesIcon,
-    MinusCircleIcon, BrainIcon
+    MinusCircleIcon, BrainIcon, ArrowUturnLeftIcon, ArrowUturnRightIcon, PauseIcon, StopIcon, NoSymbolIcon,
+    ScissorsIcon, DocumentDuplicateIcon, ShieldCheckIcon, PlayIcon, TagIcon
 } from './components/icons';
 
 const LOCAL_STORAGE_API_KEY = 'geminiUserApiKey';
 
-// Helper function to check if a field is empty or undefined
-const isFieldEmpty = (value?: string): boolean => value === undefined || value === null || value.trim() === '';
-
-// Function to determine question type and get visual info
-const getQuestionTypeInfo = (question: QuestionData): QuestionTypeVisualInfo => {
-  const p = question.Pregunta;
-  const c1 = question['OpciÃ³n correcta 1'];
-  const c2 = question['OpciÃ³n Correcta 2'];
-  const c3 = question['OpciÃ³n Correcta 3'];
-  const i1 = question['OpciÃ³n Incorrecta 1'];
-  const i2 = question['OpciÃ³n Incorrecta 2'];
-  const i3 = question['OpciÃ³n Incorrecta 3'];
-
-  const hasC1 = !isFieldEmpty(c1);
-  const hasC2 = !isFieldEmpty(c2);
-  const hasC3 = !isFieldEmpty(c3);
-  const hasI1 = !isFieldEmpty(i1);
-  const hasI2 = !isFieldEmpty(i2);
-  const hasI3 = !isFieldEmpty(i3);
-
-  const incorrectOptionsFilled = [hasI1, hasI2, hasI3].filter(Boolean).length;
-
-  // 0. Empty Question (Highest priority)
-  if (isFieldEmpty(p)) {
-    return {
-      type: QuestionDisplayType.Empty,
-      icon: <MinusCircleIcon className="w-5 h-5 text-slate-400" />,
-      label: "VacÃ­a",
-      colorClass: "text-slate-400",
-      description: "Pregunta VacÃ­a: El campo 'Pregunta' estÃ¡ vacÃ­o. Estas preguntas serÃ¡n ignoradas al guardar el CSV."
-    };
-  }
-
-  // 1. Open Answer
-  if (hasC1 && isFieldEmpty(c2) && isFieldEmpty(c3) && isFieldEmpty(i1) && isFieldEmpty(i2) && isFieldEmpty(i3)) {
-    return {
-      type: QuestionDisplayType.OpenAnswer,
-      icon: <TextLinesIcon className="w-5 h-5 text-sky-400" />,
-      label: "Abierta",
-      colorClass: "text-sky-400",
-      description: "Respuesta Abierta: Solo 'OpciÃ³n correcta 1' tiene valor. Todas las demÃ¡s opciones deben estar vacÃ­as."
-    };
-  }
-
-  // 2. Flashcard
-  if (hasC2 && isFieldEmpty(c1) && isFieldEmpty(c3) && isFieldEmpty(i1) && isFieldEmpty(i2) && isFieldEmpty(i3)) {
-    return {
-      type: QuestionDisplayType.Flashcard,
-      icon: <AcademicCapIcon className="w-5 h-5 text-cyan-400" />,
-      label: "Flashcard",
-      colorClass: "text-cyan-400",
-      description: "Flashcard: Solo 'OpciÃ³n Correcta 2' tiene valor. Ideal para respuestas largas de desarrollo o conceptos. El resto de opciones debe estar vacÃ­o."
-    };
-  }
+interface PendingCsvImport {
+  fileName: string;
+  headers: string[];
+  records: CsvRecord[]; // Data records, without the header
+  parseErrorCount: number;
+  suggestion: ColumnMappingSuggestion;
+}
+
+const createEmptyProjectInfo = (): ProjectInfo => {
+  const now = Date.now();
+  return { id: createProjectId(), name: '', createdAt: now, lastOpenedAt: now };
+};
 
-  // 3. True/False
-  if (hasC1 && hasI1 && isFieldEmpty(c2) && isFieldEmpty(c3) && isFieldEmpty(i2) && isFieldEmpty(i3)) {
-    return {
-      type: QuestionDisplayType.TrueFalse,
-      icon: <ArrowsRightLeftIcon className="w-5 h-5 text-lime-400" />,
-      label: "V/F",
-      colorClass: "text-lime-400",
-      description: "Verdadero/Falso: 'OpciÃ³n correcta 1' y 'OpciÃ³n Incorrecta 1' tienen valor. Las demÃ¡s opciones deben estar vacÃ­as."
-    };
+// Visual info of each question type
+const getTypeVisualInfo = (type: QuestionDisplayType): QuestionTypeVisualInfo => {
+  switch (type) {
+    case QuestionDisplayType.Empty:
+      return {
+        type: QuestionDisplayType.Empty,
+        icon: <MinusCircleIcon className="w-5 h-5 text-slate-400" />,
+        label: "Vacía",
+        colorClass: "text-slate-400",
+        description: "Pregunta Vacía: El campo 'Pregunta' está vacío. Estas preguntas serán ignoradas al guardar el CSV."
+      };
+    case QuestionDisplayType.OpenAnswer:
+      return {
+        type: QuestionDisplayType.OpenAnswer,
+        icon: <TextLinesIcon className="w-5 h-5 text-sky-400" />,
+        label: "Abierta",
+        colorClass: "text-sky-400",
+        description: "Respuesta Abierta: Solo 'Opción correcta 1' tiene valor. Todas las demás opciones deben estar vacías."
+      };
+    case QuestionDisplayType.Flashcard:
+      return {
+        type: QuestionDisplayType.Flashcard,
+        icon: <AcademicCapIcon className="w-5 h-5 text-cyan-400" />,
+        label: "Flashcard",
+        colorClass: "text-cyan-400",
+        description: "Flashcard: Solo 'Opción Correcta 2' tiene valor. Ideal para respuestas largas de desarrollo o conceptos. El resto de opciones debe estar vacío."
+      };
+    case QuestionDisplayType.TrueFalse:
+      return {
+        type: QuestionDisplayType.TrueFalse,
+        icon: <ArrowsRightLeftIcon className="w-5 h-5 text-lime-400" />,
+        label: "V/F",
+        colorClass: "text-lime-400",
+        description: "Verdadero/Falso: 'Opción correcta 1' y 'Opción Incorrecta 1' tienen valor. Las demás opciones deben estar vacías."
+      };
+    case QuestionDisplayType.MultipleCorrect:
+      return {
+        type: QuestionDisplayType.MultipleCorrect,
+        icon: <CheckListIcon className="w-5 h-5 text-amber-400" />,
+        label: "Múltiple",
+        colorClass: "text-amber-400",
+        description: "Opción Múltiple (Varias Correctas): 'Opción correcta 1' y al menos una de 'Opción Correcta 2/3' tienen valor. Mínimo 1 incorrecta."
+      };
+    case QuestionDisplayType.SingleCorrect:
+      return {
+        type: QuestionDisplayType.SingleCorrect,
+        icon: <CircleDotIcon className="w-5 h-5 text-fuchsia-400" />,
+        label: "Única",
+        colorClass: "text-fuchsia-400",
+        description: "Selección Única: Solo 'Opción correcta 1' tiene valor. Mínimo 2 opciones incorrectas."
+      };
+    default:
+      return {
+        type: QuestionDisplayType.Unknown,
+        icon: <QuestionMarkCircleIcon className="w-5 h-5 text-red-500" />, // Changed color to red for more emphasis
+        label: "Desc.",
+        colorClass: "text-red-500",
+        description: "Tipo Desconocido: La estructura de la pregunta no coincide con los tipos definidos. Esta pregunta NO se guardará en el CSV hasta que se corrija."
+      };
   }
+};
 
-  // 4. Multiple Correct
-  if (hasC1 && (hasC2 || hasC3) && incorrectOptionsFilled >= 1) {
-    return {
-      type: QuestionDisplayType.MultipleCorrect,
-      icon: <CheckListIcon className="w-5 h-5 text-amber-400" />,
-      label: "MÃºltiple",
-      colorClass: "text-amber-400",
-      description: "OpciÃ³n MÃºltiple (Varias Correctas): 'OpciÃ³n correcta 1' y al menos una de 'OpciÃ³n Correcta 2/3' tienen valor. MÃ­nimo 1 incorrecta."
-    };
-  }
+// One object per type, so memoized table rows receive the same typeInfo (and icon element) every render
+const typeVisualInfoCache = new Map<QuestionDisplayType, QuestionTypeVisualInfo>();
 
-  // 5. Single Correct
-  if (hasC1 && isFieldEmpty(c2) && isFieldEmpty(c3) && incorrectOptionsFilled >= 2) {
-    return {
-      type: QuestionDisplayType.SingleCorrect,
-      icon: <CircleDotIcon className="w-5 h-5 text-fuchsia-400" />,
-      label: "Ãšnica",
-      colorClass: "text-fuchsia-400",
-      description: "SelecciÃ³n Ãšnica: Solo 'OpciÃ³n correcta 1' tiene valor. MÃ­nimo 2 opciones incorrectas."
-    };
+// Function to determine question type and get visual info
+const getQuestionTypeInfo = (question: QuestionData): QuestionTypeVisualInfo => {
+  const type = getQuestionDisplayType(question);
+  let info = typeVisualInfoCache.get(type);
+  if (!info) {
+    info = getTypeVisualInfo(type);
+    typeVisualInfoCache.set(type, info);
   }
-  
-  return {
-    type: QuestionDisplayType.Unknown,
-    icon: <QuestionMarkCircleIcon className="w-5 h-5 text-red-500" />, // Changed color to red for more emphasis
-    label: "Desc.",
-    colorClass: "text-red-500",
-    description: "Tipo Desconocido: La estructura de la pregunta no coincide con los tipos definidos. Esta pregunta NO se guardarÃ¡ en el CSV hasta que se corrija."
-  };
+  return info;
 };
 
+const NO_LINT_ISSUES: QuestionLintIssue[] = [];
+const getQuestionRowKey = (question: QuestionData) => question.id;
+
 
 // New sub-component for displaying request status details
-const RequestStatusDisplay: React.FC<{ req: GenerationRequest }> = ({ req }) => {
+const RequestStatusDisplay: React.FC<{ req: GenerationRequest; workerState?: RequestWorkerState }> = ({ req, workerState }) => {
   const elements: JSX.Element[] = [];
 
+  if (req.status === RequestStatus.Processing && workerState) {
+    let text: string;
+    if (workerState.phase === 'waiting-rate-limit') {
+      text = 'esperando cupo del límite de tasa...';
+    } else if (workerState.phase === 'backoff') {
+      const resumeAt = workerState.resumeAt ? new Date(workerState.resumeAt).toLocaleTimeString('es-ES', LOG_TIMESTAMP_FORMAT) : '';
+      text = `servicio saturado (429/503), reintento ${workerState.retryCount} a las ${resumeAt}`;
+    } else {
+      text = workerState.streamedChars > 0 ? `generando (${workerState.streamedChars.toLocaleString('es-ES')} caracteres recibidos)` : 'generando...';
+    }
+    elements.push(
+      <p key="worker" className={`text-xs mt-1 ${workerState.phase === 'generating' ? 'text-blue-400' : 'text-yellow-400'}`}>
+        Worker {workerState.worker}: {text}
+      </p>
+    );
+  }
+
   if (req.status === RequestStatus.Completed && req.questionsGeneratedCount !== undefined) {
-    let text = `${req.questionsGeneratedCount} pregunta(s) generada(s).`;
+    let text = `${req.questionsGeneratedCount} pregunta(s) generada(s)${req.targets ? ` de ${getTargetTotal(req.targets)} solicitadas` : ''}.`;
     if (req.jsonCorrectionAttempts && req.jsonCorrectionAttempts > 0) {
       text += ` (${req.jsonCorrectionAttempts} correcciones JSON)`;
     }
@@ -132,10 +175,12 @@ const RequestStatusDisplay: React.FC<{ req: GenerationRequest }> = ({ req }) =>
     if (req.jsonCorrectionAttempts && req.jsonCorrectionAttempts > 0) {
       elements.push(
         <p key="error-corrections" className="text-xs mt-1 text-yellow-400">
-          FallÃ³ tras {req.jsonCorrectionAttempts} correcciones JSON de Gemini.
+          Falló tras {req.jsonCorrectionAttempts} correcciones JSON de Gemini.
         </p>
       );
     }
+  } else if (req.status === RequestStatus.Cancelled) {
+    elements.push(<p key="cancelled" className="text-xs text-neutral-400 mt-1">Cancelada: no se procesará hasta que la devuelvas a la cola.</p>);
   } else if (req.jsonCorrectionAttempts && req.jsonCorrectionAttempts > 0 && req.status === RequestStatus.Processing) {
     // Display if processing and there were prior correction attempts (e.g. retrying after JSON parse error)
      elements.push(
@@ -161,26 +206,57 @@ const App: React.FC = () => {
   
   const [requests, setRequests] = useState<GenerationRequest[]>([]);
   const [newRequestPrompt, setNewRequestPrompt] = useState<string>('');
+  const [newRequestTargets, setNewRequestTargets] = useState<QuestionTargets>({});
+  const [showDocumentChunking, setShowDocumentChunking] = useState<boolean>(false);
+  const [retrievalSettings, setRetrievalSettings] = useState<RetrievalSettings>(loadRetrievalSettings);
+  const contextIndexCacheRef = useRef<{ key: string; index: ContextIndex } | null>(null); // Rebuilt only when the general context changes
   const [newRequestFiles, setNewRequestFiles] = useState<File[]>([]);
   const [newRequestFilePreviews, setNewRequestFilePreviews] = useState<GeneralContextFilePreview[]>([]);
   const requestFilePickerRef = useRef<HTMLInputElement>(null);
   const newRequestAreaRef = useRef<HTMLDivElement>(null); 
   
   const [generatedQuestions, setGeneratedQuestions] = useState<QuestionData[]>([]);
+  const generatedQuestionsRef = useRef<QuestionData[]>(generatedQuestions); // Latest list, for async code such as processQueue
+  generatedQuestionsRef.current = generatedQuestions;
+  const requestsRef = useRef<GenerationRequest[]>(requests); // Latest queue, to skip requests cancelled mid-run
+  requestsRef.current = requests;
+  const [questionHistory, setQuestionHistory] = useState<QuestionHistory>(EMPTY_QUESTION_HISTORY);
+  const [showHistoryPanel, setShowHistoryPanel] = useState<boolean>(false);
+  const [showDuplicatePanel, setShowDuplicatePanel] = useState<boolean>(false);
+  const [showLintPanel, setShowLintPanel] = useState<boolean>(false);
+  const [lintSettings, setLintSettings] = useState<QuestionLintSettings>(loadLintSettings);
+  const [isVerifying, setIsVerifying] = useState<boolean>(false); // "Verificar" fact-check in progress
+  const [tableView, setTableView] = useState<QuestionTableView>(DEFAULT_QUESTION_TABLE_VIEW); // Search, filters and sort of the questions table
+  const [showMetadataEditor, setShowMetadataEditor] = useState<boolean>(false); // Bulk tags/difficulty/Bloom editor for the selection
+  const [quizQuestions, setQuizQuestions] = useState<QuestionData[] | null>(null); // Questions being practised; null when the quiz is closed
+  const [examQuestions, setExamQuestions] = useState<QuestionData[] | null>(null); // Candidates for the printable exam; null when its dialog is closed
+  const [dismissedDuplicateGroups, setDismissedDuplicateGroups] = useState<Set<string>>(new Set()); // Group keys marked "not duplicates" while the panel is open
+  const [stagedQuestions, setStagedQuestions] = useState<StagedQuestion[]>([]); // AI rewrites awaiting review
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [queueStop, setQueueStop] = useState<'pause' | 'cancel' | null>(null); // Stop requested for (or that ended) the last queue run
+  const queueStopRequestedRef = useRef<'pause' | 'cancel' | null>(null); // Read by the running processQueue between requests
+  const activeAbortControllersRef = useRef<Set<AbortController>>(new Set()); // One per request being generated
+  const [queueSchedulerSettings, setQueueSchedulerSettings] = useState<QueueSchedulerSettings>(loadQueueSchedulerSettings);
+  const [queueSchedulerSettingsDraft, setQueueSchedulerSettingsDraft] = useState<QueueSchedulerSettings>(queueSchedulerSettings); // Edited in the config modal
+  const [requestWorkerStates, setRequestWorkerStates] = useState<Record<string, RequestWorkerState>>({});
+  const [queueRunSize, setQueueRunSize] = useState<number>(0); // Requests taken by the current queue run
   const [overallProgress, setOverallProgress] = useState<number>(0);
   const [globalError, setGlobalError] = useState<string | null>(null);
 
   const [logEntries, setLogEntries] = useState<LogEntry[]>([]);
   const [showLogs, setShowLogs] = useState<boolean>(false);
   const logContainerRef = useRef<HTMLDivElement>(null);
+  const questionTableScrollRef = useRef<HTMLDivElement>(null);
 
   const [geminiLiveThought, setGeminiLiveThought] = useState<string>('');
   const [showGeminiStreamOutput, setShowGeminiStreamOutput] = useState<boolean>(false); 
   
   const [currentAnimatedPreviewText, setCurrentAnimatedPreviewText] = useState<string | null>(null);
   const animatedPreviewClearTimeoutRef = useRef<number | null>(null);
-  const currentRawStreamRef = useRef<string>(''); 
+  const liveStreamsRef = useRef<Map<string, string>>(new Map()); // Raw stream per request id
+  const activeLiveStreamsRef = useRef<Map<string, number>>(new Map()); // In-flight request id -> queue index
+  const followedLiveStreamIdRef = useRef<string | null>(null);
+  const [streamedRequestId, setStreamedRequestId] = useState<string | null>(null); // Request shown in the stream panel
 
   const geminiThoughtsContainerRef = useRef<HTMLDivElement>(null);
   const [expandedQuestionId, setExpandedQuestionId] = useState<string | null>(null);
@@ -188,6 +264,11 @@ const App: React.FC = () => {
   const [showConfigModal, setShowConfigModal] = useState<boolean>(false);
   const [userApiKeyInput, setUserApiKeyInput] = useState<string>(''); 
   const [currentStoredUserApiKey, setCurrentStoredUserApiKey] = useState<string | null>(null);
+  const [llmProviderSettings, setLlmProviderSettings] = useState<LlmProviderSettings>(loadLlmProviderSettings);
+  const [llmProviderSettingsDraft, setLlmProviderSettingsDraft] = useState<LlmProviderSettings>(llmProviderSettings); // Edited in the config modal
+  const [availableModels, setAvailableModels] = useState<string[]>([]);
+  const [isListingModels, setIsListingModels] = useState<boolean>(false);
+  const [modelListError, setModelListError] = useState<string | null>(null);
 
   // State for row selection
   const [selectedQuestionIds, setSelectedQuestionIds] = useState<Set<string>>(new Set());
@@ -204,15 +285,73 @@ const App: React.FC = () => {
 
   // State for Save dropdown menu
   const [isSaveMenuOpen, setIsSaveMenuOpen] = useState(false);
+  const [pendingCsvImport, setPendingCsvImport] = useState<PendingCsvImport | null>(null); // CSV waiting for the column-mapping wizard
   const saveMenuRef = useRef<HTMLDivElement>(null);
   
   const [thinkingIntensity, setThinkingIntensity] = useState<ThinkingIntensity>(ThinkingIntensity.High);
 
+  // State for projects and their persistence (IndexedDB). Autosave stays off until the user
+  // decides what to do with a previously saved session, so it is never overwritten by an empty one.
+  const [activeProject, setActiveProject] = useState<ProjectInfo>(createEmptyProjectInfo);
+  const [projectSummaries, setProjectSummaries] = useState<ProjectSummary[]>([]);
+  const [savedWorkspaceToRestore, setSavedWorkspaceToRestore] = useState<PersistedProject | null>(null);
+  const [isAutosaveEnabled, setIsAutosaveEnabled] = useState<boolean>(false);
+  const [lastAutosaveAt, setLastAutosaveAt] = useState<Date | null>(null);
 
   const addLogEntry = useCallback((type: LogType, message: string, details?: any) => {
     setLogEntries(prev => [...prev, { id: `log-${Date.now()}-${Math.random().toString(36).substring(7)}`, timestamp: new Date(), type, message, details }]);
   }, []);
 
+  // Every undoable change to generatedQuestions goes through here.
+  const executeQuestionCommand = useCallback((command: QuestionCommand) => {
+    setGeneratedQuestions(prev => command.apply(prev));
+    setQuestionHistory(prev => pushCommand(prev, command));
+  }, []);
+
+  const handleJumpToHistoryPoint = useCallback((appliedCount: number) => {
+    if (isProcessing || appliedCount === questionHistory.undoStack.length) return;
+    const { history, transform } = moveHistoryTo(questionHistory, appliedCount);
+    setGeneratedQuestions(prev => transform(prev));
+    setQuestionHistory(history);
+    setSelectedQuestionIds(new Set());
+    setLastSelectedRowId(null);
+  }, [isProcessing, questionHistory]);
+
+  const handleUndo = useCallback(() => {
+    const command = questionHistory.undoStack[questionHistory.undoStack.length - 1];
+    if (!command) return;
+    handleJumpToHistoryPoint(questionHistory.undoStack.length - 1);
+    addLogEntry(LogType.Info, `Deshecho: ${command.label}`);
+  }, [questionHistory, handleJumpToHistoryPoint, addLogEntry]);
+
+  const handleRedo = useCallback(() => {
+    const command = questionHistory.redoStack[questionHistory.redoStack.length - 1];
+    if (!command) return;
+    handleJumpToHistoryPoint(questionHistory.undoStack.length + 1);
+    addLogEntry(LogType.Info, `Rehecho: ${command.label}`);
+  }, [questionHistory, handleJumpToHistoryPoint, addLogEntry]);
+
+  // Effect for Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y). Text fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const key = event.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      const target = event.target as HTMLElement | null;
+      if (target && target.closest('input, textarea, [contenteditable="true"]')) return;
+      event.preventDefault();
+      if (key === 'y' || event.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [handleUndo, handleRedo]);
+
   useEffect(() => {
     const storedKey = localStorage.getItem(LOCAL_STORAGE_API_KEY);
     setCurrentStoredUserApiKey(storedKey);
@@ -220,16 +359,19 @@ const App: React.FC = () => {
     if (storedKey) {
         addLogEntry(LogType.Info, "Clave API de usuario cargada desde localStorage.");
     } else {
-        addLogEntry(LogType.Info, "No se encontrÃ³ clave API de usuario en localStorage, se usarÃ¡ la del entorno si estÃ¡ disponible.");
+        addLogEntry(LogType.Info, "No se encontró clave API de usuario en localStorage, se usará la del entorno si está disponible.");
     }
 
-    addLogEntry(LogType.System, `AplicaciÃ³n iniciada.`);
-    if (!process.env.API_KEY && !storedKey) {
-      const errorMsg = "ADVERTENCIA: API_KEY no estÃ¡ configurada en el entorno y no se ha proporcionado una clave local. La aplicaciÃ³n podrÃ­a no funcionar.";
+    addLogEntry(LogType.System, `Aplicación iniciada.`);
+    const initialProviderSettings = loadLlmProviderSettings();
+    if (initialProviderSettings.providerId !== LlmProviderId.Gemini) {
+      addLogEntry(LogType.Info, `Proveedor de IA: ${LLM_PROVIDER_LABELS[initialProviderSettings.providerId]} (${initialProviderSettings.openAiBaseUrl}).`);
+    } else if (!process.env.API_KEY && !storedKey) {
+      const errorMsg = "ADVERTENCIA: API_KEY no está configurada en el entorno y no se ha proporcionado una clave local. La aplicación podría no funcionar.";
       setGlobalError(errorMsg); 
       addLogEntry(LogType.Warning, errorMsg);
     } else if (process.env.API_KEY && !storedKey) {
-      addLogEntry(LogType.Info, "API_KEY del entorno estÃ¡ disponible.");
+      addLogEntry(LogType.Info, "API_KEY del entorno está disponible.");
     }
   }, [addLogEntry]);
 
@@ -259,6 +401,70 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // Effect to load the project list and look for the last active project on startup
+  useEffect(() => {
+    const findSavedProject = async () => {
+      const summaries = await listProjects();
+      setProjectSummaries(summaries);
+      const storedActiveId = localStorage.getItem(LOCAL_STORAGE_ACTIVE_PROJECT_ID);
+      const candidate = summaries.find(p => p.id === storedActiveId) || summaries[0];
+      return candidate ? loadProject(candidate.id) : null;
+    };
+    findSavedProject()
+      .then(savedProject => {
+        if (savedProject && !isWorkspaceEmpty(savedProject)) {
+          setSavedWorkspaceToRestore(savedProject);
+          addLogEntry(LogType.System, `Se encontró una sesión guardada localmente (proyecto "${getProjectDisplayName(savedProject)}").`, { savedAt: new Date(savedProject.savedAt).toISOString(), questionCount: savedProject.generatedQuestions.length, requestCount: savedProject.requests.length });
+        } else {
+          setIsAutosaveEnabled(true);
+        }
+      })
+      .catch((error: any) => {
+        addLogEntry(LogType.Warning, "No se pudo cargar la sesión guardada localmente.", { error: error.message });
+        setIsAutosaveEnabled(true);
+      });
+  }, [addLogEntry]);
+
+  const getCurrentWorkspaceData = (): WorkspaceData => ({
+    generatedQuestions, stagedQuestions, requests, generalContextText, generalContextFiles, collectionTitle, asignatura, categoria, descripcion,
+  });
+
+  const upsertProjectSummary = useCallback((record: PersistedProject) => {
+    const summary: ProjectSummary = {
+      id: record.id,
+      name: record.name,
+      createdAt: record.createdAt,
+      lastOpenedAt: record.lastOpenedAt,
+      collectionTitle: record.collectionTitle,
+      questionCount: record.generatedQuestions.length,
+      savedAt: record.savedAt,
+    };
+    setProjectSummaries(prev => [summary, ...prev.filter(p => p.id !== record.id)].sort((a, b) => b.lastOpenedAt - a.lastOpenedAt));
+  }, []);
+
+  // Saves the given project unless it is a brand-new, unnamed and still empty one.
+  const persistProject = useCallback(async (project: ProjectInfo, workspace: WorkspaceData, isAlreadyPersisted: boolean) => {
+    if (!isAlreadyPersisted && !project.name.trim() && isWorkspaceEmpty(workspace)) return null;
+    const record = await saveProject(project, workspace);
+    localStorage.setItem(LOCAL_STORAGE_ACTIVE_PROJECT_ID, record.id);
+    upsertProjectSummary(record);
+    setLastAutosaveAt(new Date(record.savedAt));
+    return record;
+  }, [upsertProjectSummary]);
+
+  const isActiveProjectPersisted = projectSummaries.some(p => p.id === activeProject.id);
+
+  // Effect to autosave the active project to IndexedDB (debounced)
+  useEffect(() => {
+    if (!isAutosaveEnabled) return;
+    const workspace: WorkspaceData = { generatedQuestions, stagedQuestions, requests, generalContextText, generalContextFiles, collectionTitle, asignatura, categoria, descripcion };
+    const timeoutId = window.setTimeout(() => {
+      persistProject(activeProject, workspace, isActiveProjectPersisted)
+        .catch((error: any) => addLogEntry(LogType.Warning, "Error al guardar automáticamente el proyecto.", { error: error.message }));
+    }, AUTOSAVE_DEBOUNCE_TIME);
+    return () => clearTimeout(timeoutId);
+  }, [isAutosaveEnabled, activeProject, isActiveProjectPersisted, persistProject, generatedQuestions, stagedQuestions, requests, generalContextText, generalContextFiles, collectionTitle, asignatura, categoria, descripcion, addLogEntry]);
+
 
   useEffect(() => {
     const newPreviews: GeneralContextFilePreview[] = [];
@@ -359,10 +565,12 @@ const App: React.FC = () => {
     return key;
   }, [currentStoredUserApiKey]);
 
+  const getLlmProvider = useCallback(() => createLlmProvider(llmProviderSettings, getEffectiveApiKey()), [llmProviderSettings, getEffectiveApiKey]);
+
 
   const generateAiMetadata = useCallback(async () => {
-      const apiKey = getEffectiveApiKey();
-      if (!apiKey || generatedQuestions.length === 0 || isGeneratingMetadata) return;
+      const { provider } = getLlmProvider();
+      if (!provider || generatedQuestions.length === 0 || isGeneratingMetadata) return;
 
       const needsTitle = !collectionTitle.trim();
       const needsOtherMeta = !asignatura.trim() || !descripcion.trim();
@@ -370,7 +578,7 @@ const App: React.FC = () => {
       if (!needsTitle && !needsOtherMeta) return;
 
       setIsGeneratingMetadata(true);
-      addLogEntry(LogType.Info, "Iniciando generaciÃ³n de metadatos con IA...");
+      addLogEntry(LogType.Info, "Iniciando generación de metadatos con IA...");
 
       const sampleQuestionsText = generatedQuestions
           .slice(-10) // Sample of last 10 questions
@@ -387,13 +595,13 @@ const App: React.FC = () => {
       try {
           const promises = [];
           if (needsTitle) {
-              promises.push(generateCollectionTitleFromGemini(apiKey, sampleQuestionsText, addLogEntry));
+              promises.push(generateCollectionTitleFromGemini(provider, sampleQuestionsText, addLogEntry));
           } else {
               promises.push(Promise.resolve(collectionTitle));
           }
 
           if (needsOtherMeta) {
-              promises.push(generateMetadataFromGemini(apiKey, sampleQuestionsText, addLogEntry));
+              promises.push(generateMetadataFromGemini(provider, sampleQuestionsText, addLogEntry));
           } else {
               promises.push(Promise.resolve({ asignatura, descripcion }));
           }
@@ -402,20 +610,20 @@ const App: React.FC = () => {
           
           if (needsTitle && typeof titleResult === 'string') {
               setCollectionTitle(titleResult);
-              addLogEntry(LogType.Info, `TÃ­tulo de colecciÃ³n generado: "${titleResult}"`);
+              addLogEntry(LogType.Info, `Título de colección generado: "${titleResult}"`);
           }
           if (needsOtherMeta && metadataResult) {
               setAsignatura(metadataResult.asignatura);
               setDescripcion(metadataResult.descripcion);
-              addLogEntry(LogType.Info, `Metadatos generados: Asignatura="${metadataResult.asignatura}", DescripciÃ³n="${metadataResult.descripcion.substring(0, 50)}..."`);
+              addLogEntry(LogType.Info, `Metadatos generados: Asignatura="${metadataResult.asignatura}", Descripción="${metadataResult.descripcion.substring(0, 50)}..."`);
           }
       } catch (error: any) {
-          addLogEntry(LogType.Error, "Error durante la generaciÃ³n de metadatos.", { error: error.message });
+          addLogEntry(LogType.Error, "Error durante la generación de metadatos.", { error: error.message });
       } finally {
           setIsGeneratingMetadata(false);
       }
 
-  }, [getEffectiveApiKey, generatedQuestions, collectionTitle, asignatura, descripcion, addLogEntry, isGeneratingMetadata]);
+  }, [getLlmProvider, generatedQuestions, collectionTitle, asignatura, descripcion, addLogEntry, isGeneratingMetadata]);
 
   const prevQuestionCountRef = useRef(generatedQuestions.length);
   useEffect(() => {
@@ -427,17 +635,196 @@ const App: React.FC = () => {
       }
   }, [generatedQuestions, generateAiMetadata]);
 
-  const handleOpenConfigModal = () => {
+  // Replaces every piece of project state with the given project's content.
+  const applyProject = (project: ProjectInfo, workspace: WorkspaceData) => {
+    prevQuestionCountRef.current = workspace.generatedQuestions.length; // Loaded questions are not new; skip AI metadata
+    setActiveProject({ ...project, lastOpenedAt: Date.now() });
+    setGeneratedQuestions(workspace.generatedQuestions);
+    setStagedQuestions(workspace.stagedQuestions);
+    setRequests(workspace.requests);
+    setGeneralContextText(workspace.generalContextText);
+    setGeneralContextFiles(workspace.generalContextFiles);
+    setCollectionTitle(workspace.collectionTitle);
+    setAsignatura(workspace.asignatura);
+    setCategoria(workspace.categoria);
+    setDescripcion(workspace.descripcion);
+    setQuestionHistory(EMPTY_QUESTION_HISTORY);
+    setSelectedQuestionIds(new Set());
+    setLastSelectedRowId(null);
+    setExpandedQuestionId(null);
+    setGlobalError(null);
+  };
+
+  const emptyWorkspaceData = (): WorkspaceData => ({
+    generatedQuestions: [], stagedQuestions: [], requests: [], generalContextText: '', generalContextFiles: [],
+    collectionTitle: '', asignatura: '', categoria: '', descripcion: '',
+  });
+
+  const handleRestoreWorkspace = () => {
+    if (!savedWorkspaceToRestore) return;
+    const project = savedWorkspaceToRestore;
+    applyProject(project, project);
+    setSavedWorkspaceToRestore(null);
+    setIsAutosaveEnabled(true);
+    addLogEntry(LogType.Info, `Sesión restaurada (proyecto "${getProjectDisplayName(project)}"): ${project.generatedQuestions.length} pregunta(s) y ${project.requests.length} solicitud(es).`, { savedAt: new Date(project.savedAt).toISOString() });
+  };
+
+  const handleDiscardSavedWorkspace = () => {
+    // The saved project stays available in the project switcher; we just start on a fresh one.
+    setSavedWorkspaceToRestore(null);
+    setIsAutosaveEnabled(true);
+    addLogEntry(LogType.Info, "Sesión guardada no restaurada. Se inició un proyecto nuevo.");
+  };
+
+  // Saves the active project right away (instead of waiting for the autosave debounce)
+  // before another project replaces it on screen.
+  const flushActiveProject = async (): Promise<boolean> => {
+    try {
+      await persistProject(activeProject, getCurrentWorkspaceData(), isActiveProjectPersisted);
+      return true;
+    } catch (error: any) {
+      const errorMsg = `No se pudo guardar el proyecto actual: ${error.message}`;
+      addLogEntry(LogType.Error, errorMsg);
+      setGlobalError(errorMsg);
+      return false;
+    }
+  };
+
+  const handleSelectProject = async (projectId: string) => {
+    if (isProcessing || projectId === activeProject.id) return;
+    if (!(await flushActiveProject())) return;
+    try {
+      const project = await loadProject(projectId);
+      if (!project) throw new Error("El proyecto no existe.");
+      applyProject(project, project);
+      setSavedWorkspaceToRestore(null);
+      setIsAutosaveEnabled(true);
+      localStorage.setItem(LOCAL_STORAGE_ACTIVE_PROJECT_ID, project.id);
+      addLogEntry(LogType.Info, `Proyecto "${getProjectDisplayName(project)}" abierto.`, { questionCount: project.generatedQuestions.length });
+    } catch (error: any) {
+      const errorMsg = `No se pudo abrir el proyecto: ${error.message}`;
+      addLogEntry(LogType.Error, errorMsg, { projectId });
+      setGlobalError(errorMsg);
+    }
+  };
+
+  const handleCreateProject = async () => {
+    if (isProcessing) return;
+    if (!(await flushActiveProject())) return;
+    applyProject(createEmptyProjectInfo(), emptyWorkspaceData());
+    setSavedWorkspaceToRestore(null);
+    setIsAutosaveEnabled(true);
+    addLogEntry(LogType.Info, "Nuevo proyecto creado.");
+  };
+
+  const handleDuplicateProject = async () => {
+    if (isProcessing) return;
+    if (!(await flushActiveProject())) return;
+    const sourceName = getProjectDisplayName({ name: activeProject.name, collectionTitle });
+    const copy: ProjectInfo = { ...createEmptyProjectInfo(), name: `${sourceName} (copia)` };
+    try {
+      const workspace = getCurrentWorkspaceData();
+      await persistProject(copy, workspace, false);
+      applyProject(copy, workspace);
+      addLogEntry(LogType.Info, `Proyecto "${sourceName}" duplicado como "${copy.name}".`);
+    } catch (error: any) {
+      const errorMsg = `No se pudo duplicar el proyecto: ${error.message}`;
+      addLogEntry(LogType.Error, errorMsg);
+      setGlobalError(errorMsg);
+    }
+  };
+
+  const handleRenameProject = (newName: string) => {
+    setActiveProject(prev => ({ ...prev, name: newName }));
+    addLogEntry(LogType.Info, `Proyecto renombrado a "${newName}".`);
+  };
+
+  const handleDeleteProject = async (projectId: string) => {
+    if (isProcessing) return;
+    const summary = projectSummaries.find(p => p.id === projectId);
+    const displayName = projectId === activeProject.id
+        ? getProjectDisplayName({ name: activeProject.name, collectionTitle })
+        : (summary ? getProjectDisplayName(summary) : projectId);
+    if (!window.confirm(`¿Eliminar el proyecto "${displayName}"? Esta acción no se puede deshacer.`)) return;
+
+    try {
+      // Load the replacement first so every state update below happens in the same render,
+      // leaving no window for the autosave to write the deleted project back.
+      const isDeletingActiveProject = projectId === activeProject.id;
+      const nextSummary = isDeletingActiveProject ? projectSummaries.find(p => p.id !== projectId) : undefined;
+      const nextProject = nextSummary ? await loadProject(nextSummary.id) : null;
+      await deleteProject(projectId);
+      setProjectSummaries(prev => prev.filter(p => p.id !== projectId));
+      addLogEntry(LogType.Info, `Proyecto "${displayName}" eliminado.`);
+      if (isDeletingActiveProject) {
+        if (nextProject) {
+          applyProject(nextProject, nextProject);
+          localStorage.setItem(LOCAL_STORAGE_ACTIVE_PROJECT_ID, nextProject.id);
+        } else {
+          applyProject(createEmptyProjectInfo(), emptyWorkspaceData());
+          localStorage.removeItem(LOCAL_STORAGE_ACTIVE_PROJECT_ID);
+        }
+      }
+    } catch (error: any) {
+      const errorMsg = `No se pudo eliminar el proyecto: ${error.message}`;
+      addLogEntry(LogType.Error, errorMsg, { projectId });
+      setGlobalError(errorMsg);
+    }
+  };
+
+  const activeProjectDisplayName = getProjectDisplayName({ name: activeProject.name, collectionTitle });
+
+  const resetConfigModalDraft = () => {
     setUserApiKeyInput(currentStoredUserApiKey || ''); 
+    setLlmProviderSettingsDraft(llmProviderSettings);
+    setAvailableModels([]);
+    setModelListError(null);
+    setQueueSchedulerSettingsDraft(queueSchedulerSettings);
+  };
+
+  const handleOpenConfigModal = () => {
+    resetConfigModalDraft();
     setShowConfigModal(true);
   };
 
   const handleCloseConfigModal = () => {
     setShowConfigModal(false);
-    setUserApiKeyInput(currentStoredUserApiKey || ''); 
+    resetConfigModalDraft();
   };
 
-  const handleSaveApiKey = () => {
+  const handleListModels = async () => {
+    setIsListingModels(true);
+    setModelListError(null);
+    try {
+      const models = await listLlmModels(llmProviderSettingsDraft, userApiKeyInput.trim() || process.env.API_KEY);
+      setAvailableModels(models);
+      addLogEntry(LogType.Info, `${models.length} modelo(s) disponibles en ${LLM_PROVIDER_LABELS[llmProviderSettingsDraft.providerId]}.`, { models });
+      if (models.length === 0) setModelListError("El servidor no informó ningún modelo.");
+    } catch (error: any) {
+      setAvailableModels([]);
+      setModelListError(error.message);
+      addLogEntry(LogType.Error, "Error al listar los modelos del proveedor de IA.", { error: error.message });
+    } finally {
+      setIsListingModels(false);
+    }
+  };
+
+  const handleSaveAiSettings = () => {
+    const newProviderSettings: LlmProviderSettings = {
+      ...llmProviderSettingsDraft,
+      openAiBaseUrl: llmProviderSettingsDraft.openAiBaseUrl.trim(),
+      openAiApiKey: llmProviderSettingsDraft.openAiApiKey.trim(),
+      openAiModel: llmProviderSettingsDraft.openAiModel.trim(),
+    };
+    saveLlmProviderSettings(newProviderSettings);
+    setLlmProviderSettings(newProviderSettings);
+    addLogEntry(LogType.Info, `Proveedor de IA guardado: ${LLM_PROVIDER_LABELS[newProviderSettings.providerId]}.`, newProviderSettings.providerId === LlmProviderId.OpenAiCompatible ? { baseUrl: newProviderSettings.openAiBaseUrl, model: newProviderSettings.openAiModel } : undefined);
+
+    const newSchedulerSettings = normalizeQueueSchedulerSettings(queueSchedulerSettingsDraft);
+    saveQueueSchedulerSettings(newSchedulerSettings);
+    setQueueSchedulerSettings(newSchedulerSettings);
+    addLogEntry(LogType.Info, "Ajustes de procesamiento de la cola guardados.", newSchedulerSettings);
+
     const newKeyToStore = userApiKeyInput.trim();
     if (newKeyToStore) {
       localStorage.setItem(LOCAL_STORAGE_API_KEY, newKeyToStore);
@@ -446,7 +833,7 @@ const App: React.FC = () => {
     } else {
       localStorage.removeItem(LOCAL_STORAGE_API_KEY);
       setCurrentStoredUserApiKey(null);
-      addLogEntry(LogType.Info, "Clave API de usuario eliminada de localStorage. Se usarÃ¡ la del entorno.");
+      addLogEntry(LogType.Info, "Clave API de usuario eliminada de localStorage. Se usará la del entorno.");
     }
     setShowConfigModal(false);
   };
@@ -455,11 +842,11 @@ const App: React.FC = () => {
     localStorage.removeItem(LOCAL_STORAGE_API_KEY);
     setCurrentStoredUserApiKey(null);
     setUserApiKeyInput('');
-    addLogEntry(LogType.Info, "Inteligencia Artificial de API Key restablecida. Se usarÃ¡ la del entorno.");
+    addLogEntry(LogType.Info, "Inteligencia Artificial de API Key restablecida. Se usará la del entorno.");
   };
 
   const intensityMapping = [ThinkingIntensity.Fast, ThinkingIntensity.Medium, ThinkingIntensity.High, ThinkingIntensity.VeryHigh];
-  const intensityLabels = ["RÃ¡pido", "Medio", "Alto", "Muy Alto"];
+  const intensityLabels = ["Rápido", "Medio", "Alto", "Muy Alto"];
 
   const handleIntensityChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       const value = parseInt(e.target.value, 10);
@@ -478,16 +865,47 @@ const App: React.FC = () => {
       status: RequestStatus.Pending,
       requestFiles: [...newRequestFiles],
       thinkingIntensity: thinkingIntensity,
+      targets: normalizeQuestionTargets(newRequestTargets),
     };
     setRequests(prev => [...prev, newReq]);
-    addLogEntry(LogType.Info, "Nueva solicitud aÃ±adida a la cola.", { prompt: newRequestPrompt, files: newRequestFiles.map(f => f.name) });
+    addLogEntry(LogType.Info, "Nueva solicitud añadida a la cola.", { prompt: newRequestPrompt, files: newRequestFiles.map(f => f.name), targets: newReq.targets });
     setNewRequestPrompt('');
+    setNewRequestTargets({});
     setNewRequestFiles([]);
     if (requestFilePickerRef.current) {
         requestFilePickerRef.current.value = ""; 
     }
   };
 
+  const updateLintRuleSettings = (ruleId: LintRuleId, changes: Partial<LintRuleSettings>) => {
+    const updated = { ...lintSettings, [ruleId]: { ...lintSettings[ruleId], ...changes } };
+    setLintSettings(updated);
+    saveLintSettings(updated);
+  };
+
+  const updateRetrievalSettings = (changes: Partial<RetrievalSettings>) => {
+    const updated = { ...retrievalSettings, ...changes };
+    setRetrievalSettings(updated);
+    saveRetrievalSettings(updated);
+  };
+
+  // One request per chunk, sharing the form's instruction settings (intensity and targets).
+  const handleCreateChunkRequests = (sourceFile: File, chunks: DocumentChunk[], instruction: string) => {
+    const targets = normalizeQuestionTargets(newRequestTargets);
+    const chunkRequests: GenerationRequest[] = chunks.map((chunk, index) => ({
+      id: `req-${Date.now()}-${index}-${Math.random().toString(36).substring(7)}`,
+      prompt: instruction,
+      status: RequestStatus.Pending,
+      requestFiles: [],
+      thinkingIntensity,
+      targets,
+      sourceChunk: { document: sourceFile.name, section: chunk.title, chunkIndex: index + 1, chunkCount: chunks.length, text: chunk.text },
+    }));
+    setRequests(prev => [...prev, ...chunkRequests]);
+    setShowDocumentChunking(false);
+    addLogEntry(LogType.Info, `"${sourceFile.name}" dividido en ${chunks.length} fragmento(s); se añadió una solicitud por fragmento.`, { document: sourceFile.name, chunks: chunks.map(chunk => ({ title: chunk.title, estimatedTokens: chunk.estimatedTokens })) });
+  };
+
   const handleRemoveRequest = (id: string) => {
     if (isProcessing && requests.find(r => r.id === id)?.status === RequestStatus.Processing) return; 
     const requestToRemove = requests.find(req => req.id === id);
@@ -504,8 +922,9 @@ const App: React.FC = () => {
       setNewRequestPrompt(requestToEdit.prompt);
       setNewRequestFiles(requestToEdit.requestFiles || []);
       setThinkingIntensity(requestToEdit.thinkingIntensity);
+      setNewRequestTargets(requestToEdit.targets || {});
       setRequests(prevReqs => prevReqs.filter(req => req.id !== id));
-      addLogEntry(LogType.Info, `Solicitud "${requestToEdit.prompt.substring(0,30)}..." movida a ediciÃ³n.`);
+      addLogEntry(LogType.Info, `Solicitud "${requestToEdit.prompt.substring(0,30)}..." movida a edición.`);
       const promptInput = newRequestAreaRef.current?.querySelector('textarea');
       promptInput?.focus();
     }
@@ -543,15 +962,42 @@ const App: React.FC = () => {
     });
   };
 
-  const setLiveStreamContentCallback = useCallback((chunk: string, replace = false) => {
-    if (replace) {
-        currentRawStreamRef.current = chunk;
-    } else {
-        currentRawStreamRef.current += chunk;
-    }
-    setGeminiLiveThought(currentRawStreamRef.current);
-
-    const streamSoFar = currentRawStreamRef.current;
+  // With several workers streaming at once, the stream panel follows the earliest request in
+  // queue order that is still in flight; the others keep buffering in liveStreamsRef.
+  const refreshFollowedLiveStream = useCallback(() => {
+    let followedId: string | null = null;
+    let followedIndex = Infinity;
+    activeLiveStreamsRef.current.forEach((index, requestId) => {
+      if (index < followedIndex) {
+        followedId = requestId;
+        followedIndex = index;
+      }
+    });
+    if (followedId === null || followedId === followedLiveStreamIdRef.current) return; // Keep showing the last stream when none is active
+    followedLiveStreamIdRef.current = followedId;
+    setStreamedRequestId(followedId);
+    setGeminiLiveThought(liveStreamsRef.current.get(followedId) || '');
+  }, [setGeminiLiveThought]);
+
+  const followLiveStream = useCallback((requestId: string, queueIndex: number) => {
+    liveStreamsRef.current.set(requestId, '');
+    activeLiveStreamsRef.current.set(requestId, queueIndex);
+    refreshFollowedLiveStream();
+  }, [refreshFollowedLiveStream]);
+
+  const releaseLiveStream = useCallback((requestId: string) => {
+    activeLiveStreamsRef.current.delete(requestId);
+    if (followedLiveStreamIdRef.current === requestId) followedLiveStreamIdRef.current = null;
+    refreshFollowedLiveStream();
+  }, [refreshFollowedLiveStream]);
+
+  const appendToLiveStream = useCallback((requestId: string, text: string) => {
+    const stream = (liveStreamsRef.current.get(requestId) || '') + text;
+    liveStreamsRef.current.set(requestId, stream);
+    if (followedLiveStreamIdRef.current === requestId) setGeminiLiveThought(stream);
+  }, [setGeminiLiveThought]);
+
+  const updateAnimatedPreview = useCallback((streamSoFar: string) => {
     let latestPreguntaContent = '';
 
     const keyMarker = '"Pregunta"';
@@ -610,13 +1056,22 @@ const App: React.FC = () => {
 
         setCurrentAnimatedPreviewText(`Pregunta [<span class="text-blue-400 font-semibold">${escapedDisplayContent}</span>] generada!`);
     }
-  }, [setCurrentAnimatedPreviewText, setGeminiLiveThought]);
+  }, [setCurrentAnimatedPreviewText]);
+
+  // Per-request replacement for a single global stream callback, handed to generateQuestionsFromGemini.
+  const createLiveStreamHandler = useCallback((requestId: string) => (chunk: string, replace = false) => {
+    const stream = replace ? chunk : (liveStreamsRef.current.get(requestId) || '') + chunk;
+    liveStreamsRef.current.set(requestId, stream);
+    if (followedLiveStreamIdRef.current === requestId) setGeminiLiveThought(stream);
+    setRequestWorkerStates(prev => (prev[requestId] ? { ...prev, [requestId]: { ...prev[requestId], streamedChars: stream.length } } : prev));
+    updateAnimatedPreview(stream);
+  }, [setGeminiLiveThought, updateAnimatedPreview]);
 
 
   const processQueue = useCallback(async () => {
-    const apiKey = getEffectiveApiKey();
-    if (!apiKey) {
-        const errorMsg = "Error CrÃ­tico: No se pudo determinar la API_KEY de Gemini. Configure una clave en el entorno o a travÃ©s de la Inteligencia Artificial de la aplicaciÃ³n.";
+    const { provider, error: providerError } = getLlmProvider();
+    if (!provider) {
+        const errorMsg = `Error Crítico: ${providerError}`;
         setGlobalError(errorMsg);
         addLogEntry(LogType.Error, errorMsg);
         setIsProcessing(false);
@@ -625,93 +1080,272 @@ const App: React.FC = () => {
     setGlobalError(null);
     setIsProcessing(true);
     setOverallProgress(0);
-        
-    addLogEntry(LogType.System, "Procesamiento de cola iniciado.", { requestCount: requests.filter(r => r.status === RequestStatus.Pending || r.status === RequestStatus.Error).length });
-    
+    setQueueStop(null);
+    queueStopRequestedRef.current = null;
+
     const pendingOrErrorRequests = requests.filter(r => r.status === RequestStatus.Pending || r.status === RequestStatus.Error);
+    const totalRequests = pendingOrErrorRequests.length;
+    setQueueRunSize(totalRequests);
+    const rateLimiter = createRateLimiter(queueSchedulerSettings);
+        
+    addLogEntry(LogType.System, "Procesamiento de cola iniciado.", { requestCount: totalRequests, ...queueSchedulerSettings });
 
-    for (let i = 0; i < pendingOrErrorRequests.length; i++) {
-      const currentRequest = pendingOrErrorRequests[i];
-      addLogEntry(LogType.Info, `Procesando solicitud ${i+1}/${pendingOrErrorRequests.length}: "${currentRequest.prompt.substring(0,50)}..."`, { requestId: currentRequest.id });
-      
-      currentRawStreamRef.current = ''; 
-      setCurrentAnimatedPreviewText(null); 
-      if (animatedPreviewClearTimeoutRef.current) clearTimeout(animatedPreviewClearTimeoutRef.current);
+    liveStreamsRef.current.clear();
+    setGeminiLiveThought('');
+    setStreamedRequestId(null);
+    setCurrentAnimatedPreviewText(null); 
+    if (animatedPreviewClearTimeoutRef.current) clearTimeout(animatedPreviewClearTimeoutRef.current);
+
+    // Local retrieval: index the general context once per run (or reuse the cached index).
+    let contextIndex: ContextIndex | null = null;
+    if (retrievalSettings.enabled && (generalContextText.trim() !== '' || generalContextFiles.length > 0)) {
+      const key = getContextIndexKey(generalContextText, generalContextFiles);
+      if (contextIndexCacheRef.current?.key === key) {
+        contextIndex = contextIndexCacheRef.current.index;
+      } else {
+        try {
+          contextIndex = await buildContextIndex(generalContextText, generalContextFiles, (file, error) =>
+            addLogEntry(LogType.Warning, `"${file.name}" no se pudo indexar; se enviará completo.`, { error: error.message })
+          );
+          contextIndexCacheRef.current = { key, index: contextIndex };
+          addLogEntry(LogType.Info, `Contexto general indexado: ${contextIndex.passages.length} pasaje(s).`, { unindexedFiles: contextIndex.unindexedFiles.map(f => f.name) });
+        } catch (e: any) {
+          addLogEntry(LogType.Warning, "No se pudo indexar el contexto general; las solicitudes lo enviarán completo.", { error: e.message });
+        }
+      }
+    }
+
+    let finishedCount = 0;
+    let returnedToPendingCount = 0; // Cancelled while in flight
+    const jsonOutputStats = { calls: 0, structured: 0, corrected: 0 }; // How often the JSON correction fallback fires
+
+    const markFinished = (requestId: string) => {
+      finishedCount++;
+      setOverallProgress((finishedCount / totalRequests) * 100);
+      setRequestWorkerStates(prev => {
+        const { [requestId]: _, ...rest } = prev;
+        return rest;
+      });
+      releaseLiveStream(requestId);
+    };
+
+    // New questions are checked against the bank (and the ones added earlier in this run) before
+    // being appended: exact duplicates are dropped, near-duplicates are kept and flagged in the log.
+    const duplicateIndex = createDuplicateIndex(generatedQuestionsRef.current);
+
+    // Workers finish in any order; questions are merged strictly in queue order.
+    const committer = createOrderedCommitter<{ request: GenerationRequest; questions: QuestionData[] }>((_, { request: currentRequest, questions: newQsFromGemini }) => {
+      const isRewriteRequest = (currentRequest.requestFiles || []).some(f => f.name === REWRITE_QUESTIONS_FILENAME);
+      if (isRewriteRequest && newQsFromGemini.length > 0) {
+          // Rewrites (and any new questions from the same call) wait in the review panel.
+          setStagedQuestions(prev => [...prev, ...createStagedQuestions(newQsFromGemini, currentRequest.id, currentRequest.prompt)]);
+          addLogEntry(LogType.Info, `${newQsFromGemini.length} pregunta(s) de la reescritura enviadas a revisión.`, { requestId: currentRequest.id });
+      } else if (newQsFromGemini.length > 0) {
+          // Questions whose ID matches an existing one replace it; the rest are appended.
+          const existingIds = new Set(generatedQuestionsRef.current.map(q => q.id));
+          const droppedDuplicates: QuestionData[] = [];
+          const questionsToMerge = newQsFromGemini.filter(nq => {
+              if (existingIds.has(nq.id)) return true;
+              const match = duplicateIndex.findMatch(nq);
+              if (match?.similarity === 1) {
+                  droppedDuplicates.push(nq);
+                  return false;
+              }
+              if (match) {
+                  addLogEntry(LogType.Warning, `Posible duplicado (similitud ${Math.round(match.similarity * 100)} %): "${nq.Pregunta.substring(0,50)}" se parece a "${match.question.Pregunta.substring(0,50)}". Revísalo en el panel de duplicados.`, { newId: nq.id, existingId: match.question.id });
+              }
+              duplicateIndex.add(nq);
+              return true;
+          });
+          if (droppedDuplicates.length > 0) {
+              addLogEntry(LogType.Warning, `${droppedDuplicates.length} pregunta(s) de "${currentRequest.prompt.substring(0,30)}..." descartada(s) por repetir una pregunta existente.`, { requestId: currentRequest.id, preguntas: droppedDuplicates.map(q => q.Pregunta.substring(0,50)) });
+          }
+          if (questionsToMerge.length === 0) return;
+          const rewrittenCount = questionsToMerge.filter(nq => existingIds.has(nq.id)).length;
+          const addedCount = questionsToMerge.length - rewrittenCount;
+          const mergeLabel = rewrittenCount === 0
+              ? `Generación de ${addedCount} pregunta(s)`
+              : `Reescritura de ${rewrittenCount} pregunta(s)${addedCount > 0 ? ` y ${addedCount} nueva(s)` : ''}`;
+          executeQuestionCommand(createMergeQuestionsCommand(mergeLabel, questionsToMerge, {
+              onReplaced: (existingQ, rewrittenVersion) => addLogEntry(LogType.Info, `Pregunta ID ${existingQ.id} reemplazada por versión reescrita.`, {original: existingQ.Pregunta.substring(0,50), new: rewrittenVersion.Pregunta.substring(0,50)}),
+              onAdded: (nq) => addLogEntry(LogType.Info, `Nueva pregunta ID ${nq.id} añadida.`, {pregunta: nq.Pregunta.substring(0,50)}),
+              // Rare if IDs are unique 'gen-' or original from rewrite; could happen if Gemini re-uses an ID from a previous rewrite request.
+              onDuplicateId: (nq) => addLogEntry(LogType.Warning, `Pregunta ID ${nq.id} de Gemini ya existe, posible duplicado o ID no único.`, {pregunta: nq.Pregunta.substring(0,50)}),
+          }));
+      }
+    });
+
+    const processRequest = async (currentRequest: GenerationRequest, index: number, workerNumber: number) => {
+      const latestRequest = requestsRef.current.find(r => r.id === currentRequest.id);
+      if (!latestRequest || latestRequest.status === RequestStatus.Cancelled) {
+        addLogEntry(LogType.Info, `Solicitud "${currentRequest.prompt.substring(0,30)}..." omitida: se canceló o eliminó durante el procesamiento.`, { requestId: currentRequest.id });
+        committer.complete(index, null);
+        markFinished(currentRequest.id);
+        return;
+      }
+      addLogEntry(LogType.Info, `Procesando solicitud ${index+1}/${totalRequests} (worker ${workerNumber}): "${currentRequest.prompt.substring(0,50)}..."`, { requestId: currentRequest.id });
 
       setRequests(prevReqs => prevReqs.map(r => r.id === currentRequest.id ? { ...r, status: RequestStatus.Processing, errorDetails: undefined, jsonCorrectionAttempts: 0, questionsGeneratedCount: 0 } : r));
+      setRequestWorkerStates(prev => ({ ...prev, [currentRequest.id]: { worker: workerNumber, phase: 'waiting-rate-limit', streamedChars: 0, retryCount: 0 } }));
+      followLiveStream(currentRequest.id, index);
   
       let overallAttempt = 0;
+      let rateLimitRetries = 0;
       let successInRequest = false;
       let lastOverallAttemptError: string | undefined;
       let totalJsonCorrectionAttemptsForThisRequest = 0;
-
-      const existingQuestionsCsv = generatedQuestions.length > 0 ? generateCsvString(generatedQuestions.filter(q => getQuestionTypeInfo(q).type !== QuestionDisplayType.Empty)) : undefined;
+      let generatedForThisRequest: QuestionData[] | null = null;
+      const abortController = new AbortController();
+      activeAbortControllersRef.current.add(abortController);
+
+      // Snapshot when the request starts; questions from requests still in flight aren't in it yet.
+      const questionsSoFar = generatedQuestionsRef.current;
+      const existingQuestionsCsv = questionsSoFar.length > 0 ? generateCsvString(questionsSoFar.filter(q => getQuestionTypeInfo(q).type !== QuestionDisplayType.Empty)) : undefined;
+      // Chunk requests send only their slice of the document instead of the general context; with
+      // local retrieval, the others send the passages that match their prompt.
+      const sourceChunk = currentRequest.sourceChunk;
+      let requestContextText = sourceChunk ? formatChunkContext(sourceChunk) : generalContextText;
+      let requestContextFiles = sourceChunk ? [] : generalContextFiles;
+      let retrievedPassages: RetrievedPassage[] | undefined;
+      if (!sourceChunk && contextIndex && contextIndex.passages.length > 0) {
+        retrievedPassages = searchContextIndex(contextIndex, currentRequest.prompt, retrievalSettings.topK);
+        if (retrievedPassages.length > 0) {
+          requestContextText = formatRetrievedContext(retrievedPassages, contextIndex.passages.length);
+          requestContextFiles = contextIndex.unindexedFiles;
+          addLogEntry(LogType.Info, `${retrievedPassages.length} pasaje(s) del contexto recuperados para "${currentRequest.prompt.substring(0,30)}...".`, { requestId: currentRequest.id, passages: retrievedPassages.map(p => `${p.source} · ${p.section} (${p.score})`) });
+        } else {
+          retrievedPassages = undefined;
+          addLogEntry(LogType.Warning, `Ningún pasaje del contexto coincide con "${currentRequest.prompt.substring(0,30)}..."; se envía el contexto completo.`, { requestId: currentRequest.id });
+        }
+      }
+      setRequests(prevReqs => prevReqs.map(r => r.id === currentRequest.id ? { ...r, retrievedPassages } : r));
+      const { model } = provider.resolveModel(currentRequest.thinkingIntensity);
+      const isRewriteRequest = (currentRequest.requestFiles || []).some(f => f.name === REWRITE_QUESTIONS_FILENAME);
+      const estimatedTokens = estimateTokens(
+        [requestContextText, currentRequest.prompt, existingQuestionsCsv || ''],
+        [...requestContextFiles, ...(currentRequest.requestFiles || [])]
+      ) + ESTIMATED_OUTPUT_TOKENS_PER_REQUEST;
   
       while (overallAttempt < MAX_OVERALL_REQUEST_ATTEMPTS && !successInRequest) {
         try {
+          setRequestWorkerStates(prev => ({ ...prev, [currentRequest.id]: { ...prev[currentRequest.id], phase: 'waiting-rate-limit', resumeAt: undefined } }));
+          const waitedMs = await rateLimiter.acquire(model, estimatedTokens, abortController.signal);
+          if (waitedMs > 1000) {
+            addLogEntry(LogType.Info, `Solicitud "${currentRequest.prompt.substring(0,30)}..." esperó ${(waitedMs / 1000).toFixed(0)} s por el límite de tasa de ${model}.`, { requestId: currentRequest.id, estimatedTokens });
+          }
+          setRequestWorkerStates(prev => ({ ...prev, [currentRequest.id]: { ...prev[currentRequest.id], phase: 'generating', streamedChars: 0 } }));
           addLogEntry(LogType.Info, `Intento general ${overallAttempt + 1}/${MAX_OVERALL_REQUEST_ATTEMPTS} para solicitud "${currentRequest.prompt.substring(0,30)}..."`, { requestId: currentRequest.id });
           
-          const { parsedQuestions: newQsFromGemini, jsonCorrectionAttempts } = await generateQuestionsFromGemini(
-            apiKey, 
-            generalContextText,
-            generalContextFiles, 
+          const { parsedQuestions: newQsFromGemini, jsonCorrectionAttempts, structuredOutput } = await generateQuestionsFromGemini(
+            provider, 
+            requestContextText,
+            requestContextFiles, 
             currentRequest.prompt,
             currentRequest.requestFiles || [],
             currentRequest.thinkingIntensity,
             addLogEntry,
-            setLiveStreamContentCallback,
+            createLiveStreamHandler(currentRequest.id),
             existingQuestionsCsv, 
-            lastOverallAttemptError 
+            lastOverallAttemptError,
+            currentRequest.targets,
+            abortController.signal
           );
           
-          setGeneratedQuestions(prevGeneratedQuestions => {
-              const questionsFromCurrentGeminiCall = [...newQsFromGemini];
-              let updatedList: QuestionData[] = [...prevGeneratedQuestions];
-              const processedIdsFromGemini = new Set<string>();
-          
-              // Update existing questions that were rewritten
-              updatedList = updatedList.map(existingQ => {
-                  const rewrittenVersion = questionsFromCurrentGeminiCall.find(nq => nq.id === existingQ.id);
-                  if (rewrittenVersion) {
-                      processedIdsFromGemini.add(rewrittenVersion.id);
-                      addLogEntry(LogType.Info, `Pregunta ID ${existingQ.id} reemplazada por versiÃ³n reescrita.`, {original: existingQ.Pregunta.substring(0,50), new: rewrittenVersion.Pregunta.substring(0,50)});
-                      return rewrittenVersion; 
-                  }
-                  return existingQ; 
-              });
-          
-              // Add brand new questions generated by Gemini
-              questionsFromCurrentGeminiCall.forEach(nq => {
-                  if (!processedIdsFromGemini.has(nq.id)) { // If not already processed (i.e., it's a new question or wasn't in original list)
-                      // Check if it's genuinely new or if it's an ID that wasn't in the original list but Gemini provided it
-                      const alreadyExists = updatedList.some(uq => uq.id === nq.id);
-                      if (!alreadyExists) {
-                        updatedList.push(nq);
-                        addLogEntry(LogType.Info, `Nueva pregunta ID ${nq.id} aÃ±adida.`, {pregunta: nq.Pregunta.substring(0,50)});
-                      } else {
-                        // This case should be rare if IDs are unique 'gen-' or original from rewrite.
-                        // Could happen if Gemini re-uses an ID from a previous rewrite request that was deleted locally.
-                        addLogEntry(LogType.Warning, `Pregunta ID ${nq.id} de Gemini ya existe, posible duplicado o ID no Ãºnico.`, {pregunta: nq.Pregunta.substring(0,50)});
-                      }
-                  }
-              });
-              return updatedList;
-          });
-          
           totalJsonCorrectionAttemptsForThisRequest = jsonCorrectionAttempts;
-          setRequests(prevReqs => prevReqs.map(r => r.id === currentRequest.id ? { ...r, status: RequestStatus.Completed, errorDetails: undefined, jsonCorrectionAttempts: totalJsonCorrectionAttemptsForThisRequest, questionsGeneratedCount: newQsFromGemini.length } : r));
-          addLogEntry(LogType.Info, `Solicitud "${currentRequest.prompt.substring(0,30)}..." completada con Ã©xito. ${newQsFromGemini.length} objetos de pregunta recibidos de Gemini (reescritos y/o nuevos).`, { requestId: currentRequest.id, questionsReturnedByGemini: newQsFromGemini.length, jsonCorrectionAttempts });
+          jsonOutputStats.calls++;
+          if (structuredOutput) jsonOutputStats.structured++;
+          if (jsonCorrectionAttempts > 0) jsonOutputStats.corrected++;
+
+          // Count/type targets are checked here rather than trusted to the prompt; any shortfall gets
+          // follow-up calls. A failed follow-up keeps what was already generated.
+          let requestQuestions = newQsFromGemini;
+          let shortfall = currentRequest.targets && !isRewriteRequest ? getTargetShortfall(requestQuestions, currentRequest.targets) : undefined;
+          for (let followUp = 1; shortfall && followUp <= MAX_TARGET_FOLLOW_UP_CALLS; followUp++) {
+            addLogEntry(LogType.Warning, `Solicitud "${currentRequest.prompt.substring(0,30)}...": faltan ${describeQuestionTargets(shortfall)} para el objetivo. Llamada de seguimiento ${followUp}/${MAX_TARGET_FOLLOW_UP_CALLS}.`, { requestId: currentRequest.id, targets: currentRequest.targets, shortfall });
+            try {
+              await rateLimiter.acquire(model, estimatedTokens, abortController.signal);
+              const questionsForContext = [...questionsSoFar, ...requestQuestions].filter(q => getQuestionTypeInfo(q).type !== QuestionDisplayType.Empty);
+              const { parsedQuestions: followUpQuestions } = await generateQuestionsFromGemini(
+                provider,
+                requestContextText,
+                requestContextFiles,
+                constructFollowUpRequestPrompt(currentRequest.prompt, requestQuestions.length),
+                currentRequest.requestFiles || [],
+                currentRequest.thinkingIntensity,
+                addLogEntry,
+                createLiveStreamHandler(currentRequest.id),
+                generateCsvString(questionsForContext),
+                undefined,
+                shortfall,
+                abortController.signal
+              );
+              requestQuestions = [...requestQuestions, ...followUpQuestions];
+            } catch (followUpError: any) {
+              if (abortController.signal.aborted) throw followUpError;
+              addLogEntry(LogType.Error, `Falló la llamada de seguimiento ${followUp} para "${currentRequest.prompt.substring(0,30)}..."; se conservan las ${requestQuestions.length} pregunta(s) ya generadas.`, { requestId: currentRequest.id, error: followUpError.message });
+              break;
+            }
+            shortfall = getTargetShortfall(requestQuestions, currentRequest.targets!);
+          }
+          if (shortfall) {
+            addLogEntry(LogType.Warning, `Solicitud "${currentRequest.prompt.substring(0,30)}..." termina sin alcanzar el objetivo: faltan ${describeQuestionTargets(shortfall)}.`, { requestId: currentRequest.id, targets: currentRequest.targets, shortfall });
+          }
+
+          const sourceRequest = { id: currentRequest.id, prompt: currentRequest.prompt };
+          if (sourceChunk) {
+            const { text: _chunkText, ...source } = sourceChunk;
+            requestQuestions = requestQuestions.map(q => ({ ...q, sourceRequest, source }));
+          } else {
+            requestQuestions = requestQuestions.map(q => ({ ...q, sourceRequest }));
+          }
+          // Quotes are checked against what this request actually sent (chunk, passages or full context).
+          if (requestQuestions.some(q => q.citation)) {
+            const citationSource = await buildCitationSourceText(
+              requestContextText,
+              [...requestContextFiles, ...(currentRequest.requestFiles || []).filter(f => f.name !== REWRITE_QUESTIONS_FILENAME)],
+              (file, fileError) => addLogEntry(LogType.Warning, `No se pudo leer "${file.name}" para comprobar las citas.`, { error: fileError.message })
+            );
+            requestQuestions = verifyCitations(requestQuestions, citationSource);
+            const unverifiedCount = requestQuestions.filter(q => q.citation?.verified === false).length;
+            if (unverifiedCount > 0) {
+              addLogEntry(LogType.Warning, `${unverifiedCount} cita(s) de "${currentRequest.prompt.substring(0,30)}..." no aparecen en el contexto enviado. Revisa esas preguntas.`, { requestId: currentRequest.id, questionIds: requestQuestions.filter(q => q.citation?.verified === false).map(q => q.id) });
+            }
+          }
+          generatedForThisRequest = requestQuestions;
+          setRequests(prevReqs => prevReqs.map(r => r.id === currentRequest.id ? { ...r, status: RequestStatus.Completed, errorDetails: undefined, jsonCorrectionAttempts: totalJsonCorrectionAttemptsForThisRequest, questionsGeneratedCount: requestQuestions.length } : r));
+          addLogEntry(LogType.Info, `Solicitud "${currentRequest.prompt.substring(0,30)}..." completada con éxito. ${requestQuestions.length} objetos de pregunta recibidos de Gemini (reescritos y/o nuevos).`, { requestId: currentRequest.id, questionsReturnedByGemini: requestQuestions.length, jsonCorrectionAttempts });
           successInRequest = true;
 
         } catch (error: any) {
+          if (abortController.signal.aborted) {
+            // Whatever the stream produced is discarded; the request goes back to the queue untouched.
+            setRequests(prevReqs => prevReqs.map(r => r.id === currentRequest.id ? { ...r, status: RequestStatus.Pending, errorDetails: undefined, jsonCorrectionAttempts: 0, questionsGeneratedCount: 0 } : r));
+            addLogEntry(LogType.Warning, `Solicitud "${currentRequest.prompt.substring(0,30)}..." cancelada; vuelve a estar pendiente.`, { requestId: currentRequest.id });
+            appendToLiveStream(currentRequest.id, `\n\n--- SOLICITUD CANCELADA POR EL USUARIO ---\n`);
+            returnedToPendingCount++;
+            break;
+          }
+          if (isRateLimitError(error) && rateLimitRetries < MAX_RATE_LIMIT_RETRIES) {
+            // Quota or overload: wait and retry without spending one of the overall attempts.
+            const delay = getBackoffDelay(rateLimitRetries);
+            rateLimitRetries++;
+            addLogEntry(LogType.Warning, `Límite de tasa o servicio saturado para "${currentRequest.prompt.substring(0,30)}...". Reintento ${rateLimitRetries}/${MAX_RATE_LIMIT_RETRIES} en ${(delay / 1000).toFixed(1)} s.`, { requestId: currentRequest.id, error: error.message });
+            setRequestWorkerStates(prev => ({ ...prev, [currentRequest.id]: { ...prev[currentRequest.id], phase: 'backoff', retryCount: rateLimitRetries, resumeAt: Date.now() + delay } }));
+            await waitFor(delay, abortController.signal); // An abort ends the wait; the next acquire() then throws
+            continue;
+          }
           console.error(`Error procesando solicitud ${currentRequest.id}, intento general ${overallAttempt + 1}:`, error);
           lastOverallAttemptError = error.message || "Error desconocido de Gemini.";
           const errorSource = error.sourceError || error; 
           const attemptsFromError = errorSource.jsonCorrectionAttempts;
           totalJsonCorrectionAttemptsForThisRequest = typeof attemptsFromError === 'number' ? attemptsFromError : totalJsonCorrectionAttemptsForThisRequest;
+          if (typeof attemptsFromError === 'number') {
+            jsonOutputStats.calls++;
+            jsonOutputStats.corrected++;
+          }
 
           addLogEntry(LogType.Error, `Error en intento general ${overallAttempt + 1} para solicitud "${currentRequest.prompt.substring(0,30)}..."`, { requestId: currentRequest.id, error: lastOverallAttemptError, jsonCorrectionAttempts: totalJsonCorrectionAttemptsForThisRequest });
-          setGeminiLiveThought(prev => prev + `\n\n--- ERROR EN INTENTO ${overallAttempt + 1}: ${lastOverallAttemptError} ---\n`);
+          appendToLiveStream(currentRequest.id, `\n\n--- ERROR EN INTENTO ${overallAttempt + 1}: ${lastOverallAttemptError} ---\n`);
 
 
           if (overallAttempt === MAX_OVERALL_REQUEST_ATTEMPTS - 1) { 
@@ -721,40 +1355,83 @@ const App: React.FC = () => {
         }
         overallAttempt++;
       }
-      setOverallProgress(((i + 1) / pendingOrErrorRequests.length) * 100);
+      activeAbortControllersRef.current.delete(abortController);
+      committer.complete(index, generatedForThisRequest ? { request: currentRequest, questions: generatedForThisRequest } : null);
+      markFinished(currentRequest.id);
+    };
+
+    const startedCount = await runWorkerPool(pendingOrErrorRequests, queueSchedulerSettings.concurrency, processRequest, () => queueStopRequestedRef.current);
+
+    const remainingCount = totalRequests - startedCount + returnedToPendingCount;
+    const haltedEarly = remainingCount > 0 && queueStopRequestedRef.current;
+    if (jsonOutputStats.calls > 0) {
+      addLogEntry(jsonOutputStats.corrected > 0 ? LogType.Warning : LogType.Info, `Formato JSON: la corrección se necesitó en ${jsonOutputStats.corrected} de ${jsonOutputStats.calls} generación(es); ${jsonOutputStats.structured} usaron salida estructurada.`, jsonOutputStats);
     }
-    
-    addLogEntry(LogType.System, "Procesamiento de cola finalizado.", { finalQuestionCount: generatedQuestions.length });
+    if (haltedEarly) {
+      addLogEntry(LogType.System, `Cola ${queueStopRequestedRef.current === 'cancel' ? 'cancelada' : 'pausada'}: ${remainingCount} solicitud(es) quedan pendientes.`);
+    }
+    addLogEntry(LogType.System, haltedEarly ? "Procesamiento de cola detenido por el usuario." : "Procesamiento de cola finalizado.", { finalQuestionCount: generatedQuestionsRef.current.length });
+    if (!haltedEarly) setQueueStop(null);
     setIsProcessing(false);
     if (animatedPreviewClearTimeoutRef.current) clearTimeout(animatedPreviewClearTimeoutRef.current);
     animatedPreviewClearTimeoutRef.current = window.setTimeout(() => {
         setCurrentAnimatedPreviewText(null);
     }, ANIMATION_DEBOUNCE_TIME);
 
-  }, [requests, generalContextText, generalContextFiles, addLogEntry, generatedQuestions, setLiveStreamContentCallback, setCurrentAnimatedPreviewText, setGeminiLiveThought, getEffectiveApiKey]);
+  }, [requests, generalContextText, generalContextFiles, addLogEntry, executeQuestionCommand, createLiveStreamHandler, appendToLiveStream, followLiveStream, releaseLiveStream, setCurrentAnimatedPreviewText, setGeminiLiveThought, getLlmProvider, queueSchedulerSettings, retrievalSettings]);
 
 
-  const handleSave = (format: 'csv' | 'json') => {
-    setIsSaveMenuOpen(false);
+  const handlePauseQueue = () => {
+    if (!isProcessing || queueStopRequestedRef.current) return;
+    queueStopRequestedRef.current = 'pause';
+    setQueueStop('pause');
+    addLogEntry(LogType.System, "Pausa solicitada: la cola se detendrá al terminar la solicitud actual.");
+  };
+
+  const handleCancelQueue = () => {
+    if (!isProcessing) return;
+    queueStopRequestedRef.current = 'cancel';
+    setQueueStop('cancel');
+    activeAbortControllersRef.current.forEach(controller => controller.abort());
+    addLogEntry(LogType.System, "Cancelación solicitada: se abortan las solicitudes en curso y se detiene la cola.");
+  };
+
+  const handleCancelRequest = (id: string) => {
+    setRequests(prevReqs => prevReqs.map(r => r.id === id && (r.status === RequestStatus.Pending || r.status === RequestStatus.Error) ? { ...r, status: RequestStatus.Cancelled } : r));
+    addLogEntry(LogType.Info, "Solicitud cancelada: la cola la omitirá.", { requestId: id });
+  };
+
+  const handleRequeueRequest = (id: string) => {
+    setRequests(prevReqs => prevReqs.map(r => r.id === id && r.status === RequestStatus.Cancelled ? { ...r, status: RequestStatus.Pending, errorDetails: undefined } : r));
+    addLogEntry(LogType.Info, "Solicitud devuelta a la cola.", { requestId: id });
+  };
 
-    const questionsWithTypes = generatedQuestions.map(q => ({ ...q, typeInfo: getQuestionTypeInfo(q) }));
+  const handleSave = async (format: 'csv' | 'json' | 'xml' | 'gift' | 'apkg' | 'tsv') => {
+    setIsSaveMenuOpen(false);
 
-    const unknownQuestionsExist = questionsWithTypes.some(q => q.typeInfo.type === QuestionDisplayType.Unknown);
-    if (unknownQuestionsExist) {
+    const unknownQuestionCount = generatedQuestions.filter(q => getQuestionDisplayType(q) === QuestionDisplayType.Unknown).length;
+    if (unknownQuestionCount > 0) {
         const errorMsg = "No se puede guardar: existen preguntas con tipo 'Desconocido'. Por favor, edita o elimina estas preguntas.";
-        addLogEntry(LogType.Error, errorMsg, { count: questionsWithTypes.filter(q => q.typeInfo.type === QuestionDisplayType.Unknown).length });
+        addLogEntry(LogType.Error, errorMsg, { count: unknownQuestionCount });
+        setGlobalError(errorMsg);
+        return;
+    }
+    if (lintBlockedQuestionIds.length > 0) {
+        const errorMsg = `No se puede guardar: ${lintBlockedQuestionIds.length} pregunta(s) incumplen reglas de calidad marcadas como "Error". Corrígelas o cambia la gravedad de la regla.`;
+        addLogEntry(LogType.Error, errorMsg, { questionIds: lintBlockedQuestionIds });
         setGlobalError(errorMsg);
         return;
     }
     
-    const questionsToSave = questionsWithTypes
-        .filter(q => q.typeInfo.type !== QuestionDisplayType.Empty && q.typeInfo.type !== QuestionDisplayType.Unknown)
-        .map(({typeInfo, ...qData}) => qData as QuestionData); // Remove typeInfo before saving
+    const questionsToSave = generatedQuestions.filter(q => {
+        const type = getQuestionDisplayType(q);
+        return type !== QuestionDisplayType.Empty && type !== QuestionDisplayType.Unknown;
+    });
 
 
     if (questionsToSave.length === 0) {
-        const errorMsg = "No hay preguntas vÃ¡lidas para guardar. AsegÃºrate de que no todas estÃ©n vacÃ­as o marcadas como desconocidas.";
-        addLogEntry(LogType.Info, "Intento de guardar, pero no hay preguntas vÃ¡lidas para exportar.", { format });
+        const errorMsg = "No hay preguntas válidas para guardar. Asegúrate de que no todas estén vacías o marcadas como desconocidas.";
+        addLogEntry(LogType.Info, "Intento de guardar, pero no hay preguntas válidas para exportar.", { format });
         setGlobalError(errorMsg);
         return;
     }
@@ -764,14 +1441,38 @@ const App: React.FC = () => {
     try {
       if (format === 'csv') {
         const csvString = generateCsvString(questionsToSave);
-        const filename = buildExportFilename(collectionTitle, 'csv');
+        const filename = buildExportFilename(activeProjectDisplayName, 'csv');
         downloadCsvFile(csvString, filename);
         addLogEntry(LogType.Info, "Archivo CSV generado y descarga iniciada.", { filename, questionCount: questionsToSave.length });
       } else if (format === 'json') {
         const jsonString = generateJsonString(questionsToSave, collectionTitle, asignatura, categoria, descripcion);
-        const filename = buildExportFilename(collectionTitle, 'json');
+        const filename = buildExportFilename(activeProjectDisplayName, 'json');
         downloadJsonFile(jsonString, filename);
         addLogEntry(LogType.Info, "Archivo JSON generado y descarga iniciada.", { filename, questionCount: questionsToSave.length, collectionTitle });
+      } else if (format === 'xml') {
+        const xmlString = generateMoodleXmlString(questionsToSave, asignatura, categoria);
+        const filename = buildExportFilename(activeProjectDisplayName, 'xml');
+        downloadMoodleXmlFile(xmlString, filename);
+        addLogEntry(LogType.Info, "Archivo Moodle XML generado y descarga iniciada.", { filename, questionCount: questionsToSave.length, asignatura, categoria });
+      } else if (format === 'gift') {
+        const giftString = generateGiftString(questionsToSave, asignatura, categoria);
+        const filename = buildExportFilename(activeProjectDisplayName, 'txt');
+        downloadGiftFile(giftString, filename);
+        addLogEntry(LogType.Info, "Archivo GIFT generado y descarga iniciada.", { filename, questionCount: questionsToSave.length, asignatura, categoria });
+      } else if (format === 'apkg' || format === 'tsv') {
+        const deckInfo: AnkiDeckInfo = { deckName: collectionTitle || activeProjectDisplayName, description: descripcion, tags: [asignatura, categoria] };
+        if (format === 'apkg') {
+          addLogEntry(LogType.System, "Generando paquete de Anki (.apkg)...", { questionCount: questionsToSave.length });
+          const apkgBlob = await buildAnkiPackage(questionsToSave, deckInfo);
+          const filename = buildExportFilename(activeProjectDisplayName, 'apkg');
+          downloadAnkiPackageFile(apkgBlob, filename);
+          addLogEntry(LogType.Info, "Paquete de Anki generado y descarga iniciada.", { filename, questionCount: questionsToSave.length, deckName: deckInfo.deckName });
+        } else {
+          const tsvString = generateAnkiTsvString(questionsToSave, deckInfo);
+          const filename = buildExportFilename(activeProjectDisplayName, 'tsv');
+          downloadAnkiTsvFile(tsvString, filename);
+          addLogEntry(LogType.Info, "Archivo de notas para Anki (TSV) generado y descarga iniciada.", { filename, questionCount: questionsToSave.length, deckName: deckInfo.deckName });
+        }
       }
     } catch (error: any) {
         addLogEntry(LogType.Error, `Error al generar o descargar el archivo ${format.toUpperCase()}.`, { error: error.message });
@@ -841,70 +1542,140 @@ const App: React.FC = () => {
     }
   };
 
+  // Imports already-parsed CSV records with a column -> field mapping (the app's own header or one from the wizard).
+  const importCsvRecords = (fileName: string, headers: string[], dataRecords: CsvRecord[], mapping: CsvColumnTarget[], parseErrorCount: number) => {
+    const newQuestions: QuestionData[] = [];
+    let skippedRows = parseErrorCount;
+    for (const record of dataRecords) {
+        if (record.fields.length !== headers.length) {
+            addLogEntry(LogType.Warning, `Registro del CSV omitido en la línea ${record.line}: se esperaban ${headers.length} columnas y tiene ${record.fields.length}.`, { fileName });
+            skippedRows++;
+            continue;
+        }
+        newQuestions.push(applyColumnMapping(record.fields, mapping, `csv-import-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`));
+    }
+    if (newQuestions.length > 0) {
+        executeQuestionCommand(createInsertQuestionsCommand(`Importación de ${newQuestions.length} pregunta(s) desde "${fileName}"`, newQuestions, 'end'));
+    }
+    addLogEntry(LogType.Info, `${newQuestions.length} preguntas importadas desde "${fileName}". ${skippedRows > 0 ? `${skippedRows} registro(s) omitido(s); revisa las advertencias para ver las líneas.` : ''}`);
+  };
+
+  const handleConfirmCsvMapping = (mapping: CsvColumnTarget[], rememberMapping: boolean) => {
+    if (!pendingCsvImport) return;
+    const { fileName, headers, records, parseErrorCount } = pendingCsvImport;
+    if (rememberMapping) {
+        saveColumnMapping(headers, mapping);
+    }
+    addLogEntry(LogType.FileProcessing, `Asignación de columnas aplicada a "${fileName}".`, {
+        mapping: headers.map((header, index) => `${header} → ${mapping[index] ?? '(ignorada)'}`),
+        remembered: rememberMapping,
+    });
+    importCsvRecords(fileName, headers, records, mapping, parseErrorCount);
+    setPendingCsvImport(null);
+  };
+
+  const handleCancelCsvImport = () => {
+    if (pendingCsvImport) {
+        addLogEntry(LogType.Info, `Importación de "${pendingCsvImport.fileName}" cancelada.`);
+    }
+    setPendingCsvImport(null);
+  };
+
+  // Shared tail of the Moodle XML and GIFT imports.
+  const applyQuestionBankImport = (result: QuestionBankImportResult, fileName: string) => {
+    const unsupportedEntries = Object.entries(result.unsupportedTypeCounts);
+    if (unsupportedEntries.length > 0) {
+        const total = unsupportedEntries.reduce((sum, [, count]) => sum + count, 0);
+        const summary = unsupportedEntries.map(([type, count]) => `${type} (${count})`).join(', ');
+        addLogEntry(LogType.Warning, `${total} pregunta(s) de tipo no soportado omitidas en "${fileName}": ${summary}.`, { unsupportedTypeCounts: result.unsupportedTypeCounts });
+    }
+    if (result.truncatedQuestionCount > 0) {
+        addLogEntry(LogType.Warning, `${result.truncatedQuestionCount} pregunta(s) tenían más de 3 opciones correctas o incorrectas; solo se importaron las 3 primeras de cada tipo.`, { fileName });
+    }
+    if (result.categories.length > 0) {
+        setCategoria(result.categories.join(', '));
+        addLogEntry(LogType.Info, `Categoría importada desde "${fileName}": ${result.categories.join(', ')}.`);
+    }
+    if (result.questions.length > 0) {
+        executeQuestionCommand(createInsertQuestionsCommand(`Importación de ${result.questions.length} pregunta(s) desde "${fileName}"`, result.questions, 'end'));
+    }
+    addLogEntry(LogType.Info, `${result.questions.length} preguntas importadas desde "${fileName}".`);
+  };
+
+  // CSV files are parsed while they are read, so large banks never sit in memory as one string.
+  const importCsvFile = async (file: File) => {
+    try {
+        addLogEntry(LogType.FileProcessing, `Intentando cargar CSV: ${file.name}`);
+        const { records, delimiter, errors } = await parseCsvFile(file);
+        if (delimiter !== ',') {
+            addLogEntry(LogType.FileProcessing, `Delimitador detectado en "${file.name}": ${delimiter === '\t' ? 'tabulación' : `"${delimiter}"`}.`);
+        }
+        errors.forEach(error => {
+            addLogEntry(LogType.Warning, `Registro del CSV omitido en la línea ${error.line}: ${error.message}`, { fileName: file.name });
+        });
+        if (records.length < 2) throw new Error("Archivo CSV inválido: debe tener al menos una cabecera y una fila de datos.");
+
+        const headers = records[0].fields;
+        const dataRecords = records.slice(1);
+        const isValidHeader = CSV_HEADERS.length === headers.length && CSV_HEADERS.every((h, i) => headers[i].trim() === h.trim());
+        if (isValidHeader) {
+            importCsvRecords(file.name, headers, dataRecords, CSV_HEADERS.map(header => CSV_HEADER_TO_QUESTION_DATA_KEY_MAP[header]), errors.length);
+        } else {
+            const savedMapping = loadSavedColumnMapping(headers);
+            const suggestion = savedMapping
+                ? { mapping: savedMapping, sources: savedMapping.map(target => (target ? 'remembered' as const : null)) }
+                : suggestColumnMapping(headers);
+            addLogEntry(LogType.FileProcessing, `La cabecera de "${file.name}" no coincide con el formato esperado. Abriendo el asistente de asignación de columnas${savedMapping ? ' con la asignación recordada' : ''}.`, { headers });
+            setPendingCsvImport({ fileName: file.name, headers, records: dataRecords, parseErrorCount: errors.length, suggestion });
+        }
+    } catch (error: any) {
+        const errorMsg = `Error al procesar el archivo "${file.name}": ${error.message}`;
+        addLogEntry(LogType.Error, errorMsg, {fileName: file.name});
+        setGlobalError(errorMsg);
+    }
+  };
+
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files.length > 0) {
         const file = event.target.files[0];
         const fileNameLower = file.name.toLowerCase();
+        if (filePickerRef.current) {
+            filePickerRef.current.value = "";
+        }
+        if (fileNameLower.endsWith('.csv')) {
+            await importCsvFile(file);
+            return;
+        }
         
         const reader = new FileReader();
 
         reader.onload = (e) => {
             const text = e.target?.result as string;
             if (!text) {
-                const errorMsg = `Error: El archivo ${file.name} estÃ¡ vacÃ­o o no se pudo leer.`;
-                addLogEntry(LogType.Error, "Error al leer el archivo: contenido vacÃ­o.", {fileName: file.name});
+                const errorMsg = `Error: El archivo ${file.name} está vacío o no se pudo leer.`;
+                addLogEntry(LogType.Error, "Error al leer el archivo: contenido vacío.", {fileName: file.name});
                 setGlobalError(errorMsg);
                 return;
             }
 
             try {
-                if (fileNameLower.endsWith('.csv')) {
-                    addLogEntry(LogType.FileProcessing, `Intentando cargar CSV: ${file.name}`);
-                    const lines = text.split(/\r\n|\n/);
-                    if (lines.length < 2) throw new Error("Archivo CSV invÃ¡lido: debe tener al menos una cabecera y una fila de datos.");
-                    
-                    const headerLine = lines[0];
-                    const parsedHeader = parseCsvLineRobust(headerLine);
-                    const isValidHeader = CSV_HEADERS.length === parsedHeader.length && CSV_HEADERS.every((h, i) => parsedHeader[i].trim() === h.trim());
-                    if (!isValidHeader) throw new Error(`La cabecera del CSV no coincide. Esperado: ${CSV_HEADERS.join(', ')}. Encontrado: ${parsedHeader.join(', ')}`);
-
-                    const newQuestions: QuestionData[] = [];
-                    let skippedRows = 0;
-                    for (let i = 1; i < lines.length; i++) {
-                        if (lines[i].trim() === '') continue;
-                        const fields = parseCsvLineRobust(lines[i]);
-                        if (fields.length !== CSV_HEADERS.length) {
-                            addLogEntry(LogType.Warning, `Fila ${i+1} del CSV omitida: nÃºmero incorrecto de columnas.`, {fileName: file.name});
-                            skippedRows++;
-                            continue;
-                        }
-                        const question: Partial<QuestionData> = { id: `csv-import-${Date.now()}-${Math.random().toString(36).substring(2, 9)}` };
-                        CSV_HEADERS.forEach((header, index) => {
-                            const key = CSV_HEADER_TO_QUESTION_DATA_KEY_MAP[header];
-                            if (key) (question as any)[key] = fields[index] || undefined;
-                        });
-                        newQuestions.push(question as QuestionData);
-                    }
-                    setGeneratedQuestions(prev => [...prev, ...newQuestions]);
-                    addLogEntry(LogType.Info, `${newQuestions.length} preguntas importadas desde "${file.name}". ${skippedRows > 0 ? `${skippedRows} filas omitidas.` : ''}`);
-
-                } else if (fileNameLower.endsWith('.json')) {
+                if (fileNameLower.endsWith('.json')) {
                     addLogEntry(LogType.FileProcessing, `Intentando cargar JSON: ${file.name}`);
                     const data = JSON.parse(text);
 
-                    if (typeof data !== 'object' || data === null) throw new Error("El archivo JSON no contiene un objeto vÃ¡lido.");
+                    if (typeof data !== 'object' || data === null) throw new Error("El archivo JSON no contiene un objeto válido.");
                     
-                    if (typeof data["Nombre de ColecciÃ³n"] === 'string') {
-                        setCollectionTitle(data["Nombre de ColecciÃ³n"]);
+                    if (typeof data["Nombre de Colección"] === 'string') {
+                        setCollectionTitle(data["Nombre de Colección"]);
                     }
                     if (typeof data["Asignatura"] === 'string') {
                         setAsignatura(data["Asignatura"]);
                     }
-                    if (typeof data["CategorÃ­a"] === 'string') {
-                        setCategoria(data["CategorÃ­a"]);
+                    if (typeof data["Categoría"] === 'string') {
+                        setCategoria(data["Categoría"]);
                     }
-                    if (typeof data["DescripciÃ³n"] === 'string') {
-                        setDescripcion(data["DescripciÃ³n"]);
+                    if (typeof data["Descripción"] === 'string') {
+                        setDescripcion(data["Descripción"]);
                     }
                     addLogEntry(LogType.Info, `Metadatos importados desde JSON.`);
 
@@ -920,20 +1691,35 @@ const App: React.FC = () => {
                         newQuestions.push({
                             id: `json-import-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
                             Pregunta: item.Pregunta,
-                            'OpciÃ³n correcta 1': String(item['OpciÃ³n correcta 1'] ?? ''),
-                            'OpciÃ³n Correcta 2': item['OpciÃ³n Correcta 2'] || undefined,
-                            'OpciÃ³n Correcta 3': item['OpciÃ³n Correcta 3'] || undefined,
-                            'OpciÃ³n Incorrecta 1': item['OpciÃ³n Incorrecta 1'] || undefined,
-                            'OpciÃ³n Incorrecta 2': item['OpciÃ³n Incorrecta 2'] || undefined,
-                            'OpciÃ³n Incorrecta 3': item['OpciÃ³n Incorrecta 3'] || undefined,
-                            ExplicaciÃ³n: item.ExplicaciÃ³n || undefined,
+                            'Opción correcta 1': String(item['Opción correcta 1'] ?? ''),
+                            'Opción Correcta 2': item['Opción Correcta 2'] || undefined,
+                            'Opción Correcta 3': item['Opción Correcta 3'] || undefined,
+                            'Opción Incorrecta 1': item['Opción Incorrecta 1'] || undefined,
+                            'Opción Incorrecta 2': item['Opción Incorrecta 2'] || undefined,
+                            'Opción Incorrecta 3': item['Opción Incorrecta 3'] || undefined,
+                            Explicación: item.Explicación || undefined,
+                            // Exported annotations come back as they were: citations (with their check result), review flags and fact-check verdicts.
+                            ...(typeof item.citation?.quote === 'string' ? { citation: item.citation } : {}),
+                            ...(typeof item.reviewFlag?.flaggedAt === 'number' ? { reviewFlag: item.reviewFlag } : {}),
+                            ...(Object.values(QuestionVerificationStatus).includes(item.verification?.status) ? { verification: item.verification } : {}),
+                            ...parseQuestionMetadata(item.tags, item.difficulty, item.bloomLevel),
                         });
                     }
-                    setGeneratedQuestions(prev => [...prev, ...newQuestions]);
+                    if (newQuestions.length > 0) {
+                        executeQuestionCommand(createInsertQuestionsCommand(`Importación de ${newQuestions.length} pregunta(s) desde "${file.name}"`, newQuestions, 'end'));
+                    }
                     addLogEntry(LogType.Info, `${newQuestions.length} preguntas importadas desde "${file.name}".${skippedCount > 0 ? ` ${skippedCount} items omitidos.` : ''}`);
 
+                } else if (fileNameLower.endsWith('.xml')) {
+                    addLogEntry(LogType.FileProcessing, `Intentando cargar Moodle XML: ${file.name}`);
+                    applyQuestionBankImport(parseMoodleXmlString(text), file.name);
+
+                } else if (fileNameLower.endsWith('.gift') || fileNameLower.endsWith('.txt')) {
+                    addLogEntry(LogType.FileProcessing, `Intentando cargar GIFT: ${file.name}`);
+                    applyQuestionBankImport(parseGiftString(text), file.name);
+
                 } else {
-                    throw new Error("Tipo de archivo no soportado. Por favor, carga un archivo .csv o .json.");
+                    throw new Error("Tipo de archivo no soportado. Por favor, carga un archivo .csv, .json, .xml (Moodle) o .gift/.txt (GIFT).");
                 }
                 setGlobalError(null);
 
@@ -951,26 +1737,29 @@ const App: React.FC = () => {
         };
 
         reader.readAsText(file);
-        
-        if (filePickerRef.current) {
-            filePickerRef.current.value = "";
-        }
     }
   };
 
 
-  const handleQuestionEdit = (questionId: string, field: keyof QuestionData, value: string) => {
-    setGeneratedQuestions(prev => 
-      prev.map(q => 
-        q.id === questionId ? { ...q, [field]: value } : q
-      )
-    );
+  const handleQuestionEdit = (questionId: string, field: QuestionTextField, value: string) => {
+    const previousValue = generatedQuestions.find(q => q.id === questionId)?.[field];
+    executeQuestionCommand(createEditFieldCommand(`Edición de "${String(field)}"`, questionId, field, previousValue, value));
     addLogEntry(LogType.Info, `Pregunta ID ${questionId} actualizada. Campo: ${String(field)}, Nuevo valor: "${value.substring(0,30)}..."`);
   };
 
+  // Metadata edits (single row or bulk) go through the history like any other edit.
+  const handleQuestionMetadataChange = (questionIds: string[], changes: QuestionMetadataChanges) => {
+    const ids = new Set(questionIds);
+    const updatedQuestions = generatedQuestions.filter(q => ids.has(q.id)).map(q => applyMetadataChanges(q, changes));
+    if (updatedQuestions.length === 0) return;
+    const label = updatedQuestions.length === 1 ? `Metadatos de "${updatedQuestions[0].Pregunta.substring(0,30)}"` : `Metadatos de ${updatedQuestions.length} preguntas`;
+    executeQuestionCommand(createMergeQuestionsCommand(label, updatedQuestions));
+    addLogEntry(LogType.Info, `Metadatos actualizados en ${updatedQuestions.length} pregunta(s).`, changes);
+  };
+
   const handleDeleteGeneratedQuestion = (questionId: string) => {
     const questionToDelete = generatedQuestions.find(q => q.id === questionId);
-    setGeneratedQuestions(prev => prev.filter(q => q.id !== questionId));
+    executeQuestionCommand(createRemoveQuestionsCommand(`Eliminación de "${questionToDelete?.Pregunta.substring(0,30) || 'pregunta vacía'}"`, [questionId]));
     if (questionToDelete) {
         addLogEntry(LogType.Info, `Pregunta "${questionToDelete.Pregunta.substring(0,30)}..." (ID: ${questionId}) eliminada.`);
     }
@@ -988,17 +1777,90 @@ const App: React.FC = () => {
     const newQuestion: QuestionData = {
       id: `manual-${Date.now()}-${Math.random().toString(36).substring(7)}`,
       Pregunta: '', // Will be classified as 'Empty'
-      'OpciÃ³n correcta 1': '',
-      'OpciÃ³n Correcta 2': undefined,
-      'OpciÃ³n Correcta 3': undefined,
-      'OpciÃ³n Incorrecta 1': undefined,
-      'OpciÃ³n Incorrecta 2': undefined,
-      'OpciÃ³n Incorrecta 3': undefined,
-      ExplicaciÃ³n: undefined,
+      'Opción correcta 1': '',
+      'Opción Correcta 2': undefined,
+      'Opción Correcta 3': undefined,
+      'Opción Incorrecta 1': undefined,
+      'Opción Incorrecta 2': undefined,
+      'Opción Incorrecta 3': undefined,
+      Explicación: undefined,
     };
-    setGeneratedQuestions(prev => [newQuestion, ...prev]); // Add to top for visibility
-    addLogEntry(LogType.Info, "Nueva fila de pregunta manual aÃ±adida a la tabla (inicialmente vacÃ­a).");
+    executeQuestionCommand(createInsertQuestionsCommand("Pregunta manual añadida", [newQuestion], 'start')); // Add to top for visibility
+    addLogEntry(LogType.Info, "Nueva fila de pregunta manual añadida a la tabla (inicialmente vacía).");
     setExpandedQuestionId(newQuestion.id); 
+    questionTableScrollRef.current?.scrollTo({ top: 0 }); // The new row must be rendered by the virtualized table to start editing
+  };
+
+  // Only computed while the panel is open: it compares every pair of questions in the bank.
+  const duplicateGroups = useMemo(
+    () => (showDuplicatePanel ? findDuplicateGroups(generatedQuestions).filter(group => !dismissedDuplicateGroups.has(group.questionIds.join('|'))) : []),
+    [showDuplicatePanel, generatedQuestions, dismissedDuplicateGroups]
+  );
+
+  const handleToggleDuplicatePanel = () => {
+    setShowDuplicatePanel(prev => !prev);
+    setDismissedDuplicateGroups(new Set());
+  };
+
+  const handleMergeDuplicateGroup = (group: DuplicateGroup, keptId: string) => {
+    const kept = generatedQuestions.find(q => q.id === keptId);
+    if (!kept) return;
+    const others = generatedQuestions.filter(q => q.id !== keptId && group.questionIds.includes(q.id));
+    executeQuestionCommand(createMergeDuplicatesCommand(`Fusión de ${group.questionIds.length} preguntas duplicadas`, mergeDuplicateQuestions(kept, others), others.map(q => q.id)));
+    setSelectedQuestionIds(prev => new Set(Array.from(prev).filter(id => !others.some(q => q.id === id))));
+    addLogEntry(LogType.Info, `${others.length} duplicado(s) de "${kept.Pregunta.substring(0,30)}..." fusionado(s) en la pregunta ID ${kept.id}.`, { removedIds: others.map(q => q.id) });
+  };
+
+  const handleDismissDuplicateGroup = (group: DuplicateGroup) => {
+    setDismissedDuplicateGroups(prev => new Set(prev).add(group.questionIds.join('|')));
+  };
+
+  // Builds the exam from the selected questions, or from the whole bank when nothing is selected.
+  const handleOpenExamGenerator = () => {
+    setIsSaveMenuOpen(false);
+    const candidates = generatedQuestions.filter(q => {
+      const type = getQuestionTypeInfo(q).type;
+      return type !== QuestionDisplayType.Empty && type !== QuestionDisplayType.Unknown && (selectedQuestionIds.size === 0 || selectedQuestionIds.has(q.id));
+    });
+    if (candidates.length === 0) {
+      setGlobalError("No hay preguntas válidas para el examen.");
+      return;
+    }
+    setExamQuestions(candidates);
+  };
+
+  const handlePrintExam = (kind: 'exam' | 'key', versions: ExamVersion[], header: ExamHeader, instructions: string) => {
+    const html = kind === 'exam' ? generateExamHtml(versions, header, instructions) : generateAnswerKeyHtml(versions, header);
+    const documentLabel = kind === 'exam' ? 'exámenes' : 'claves';
+    if (openPrintableDocument(html)) {
+      addLogEntry(LogType.Info, `Documento de ${documentLabel} abierto para imprimir.`, { versions: versions.length, questionCount: versions[0]?.items.length });
+    } else {
+      const filename = buildExportFilename(`${header.title || activeProjectDisplayName} ${documentLabel}`, 'html');
+      downloadHtmlFile(html, filename);
+      addLogEntry(LogType.Warning, `El navegador bloqueó la pestaña de impresión; se descargó "${filename}" para abrirlo e imprimirlo.`);
+    }
+  };
+
+  // Practises the selected questions, or every visible one when nothing is selected.
+  const handleStartQuiz = () => {
+    const questionsToPlay = selectedQuestionIds.size > 0 ? visibleQuestions.filter(q => selectedQuestionIds.has(q.id)) : visibleQuestions;
+    if (questionsToPlay.length === 0) return;
+    setQuizQuestions(questionsToPlay);
+    addLogEntry(LogType.Info, `Modo práctica iniciado con ${questionsToPlay.length} pregunta(s).`);
+  };
+
+  // Review flags are metadata, like verification verdicts: stored directly, outside the undo history.
+  // Undoing or redoing a command that restores a stored copy of the question keeps them (questionHistory.ts).
+  const handleFlagQuestion = (questionId: string, note: string) => {
+    setGeneratedQuestions(prev => prev.map(q => (q.id === questionId ? { ...q, reviewFlag: { note, flaggedAt: Date.now() } } : q)));
+  };
+
+  const handleUnflagQuestion = (questionId: string) => {
+    setGeneratedQuestions(prev => prev.map(q => {
+      if (q.id !== questionId) return q;
+      const { reviewFlag, ...rest } = q;
+      return rest;
+    }));
   };
 
   const handleRowExpandToggle = (questionId: string) => {
@@ -1008,17 +1870,18 @@ const App: React.FC = () => {
   // Row selection handlers
   const handleRowSelectionToggle = (questionId: string, isShiftClick: boolean) => {
     const newSelectedIds = new Set(selectedQuestionIds);
-    const questionIndex = generatedQuestions.findIndex(q => q.id === questionId);
+    // Ranges follow the rows on screen, so hidden (filtered out) questions are never selected.
+    const questionIndex = visibleQuestions.findIndex(q => q.id === questionId);
 
     if (isShiftClick && lastSelectedRowId && lastSelectedRowId !== questionId && questionIndex !== -1) {
-        const lastSelectedIndex = generatedQuestions.findIndex(q => q.id === lastSelectedRowId);
+        const lastSelectedIndex = visibleQuestions.findIndex(q => q.id === lastSelectedRowId);
         if (lastSelectedIndex !== -1) {
             const start = Math.min(questionIndex, lastSelectedIndex);
             const end = Math.max(questionIndex, lastSelectedIndex);
             const shouldBeSelected = !newSelectedIds.has(questionId); // Determine based on the clicked item's new state
 
             for (let i = start; i <= end; i++) {
-                const idInRange = generatedQuestions[i].id;
+                const idInRange = visibleQuestions[i].id;
                 if (shouldBeSelected) {
                     newSelectedIds.add(idInRange);
                 } else {
@@ -1038,19 +1901,19 @@ const App: React.FC = () => {
   };
 
   const handleSelectAllToggle = () => {
-    if (selectedQuestionIds.size === generatedQuestions.length && generatedQuestions.length > 0) {
+    if (areAllQuestionsSelected) {
       setSelectedQuestionIds(new Set());
       addLogEntry(LogType.Info, "Todas las preguntas deseleccionadas.");
     } else {
-      setSelectedQuestionIds(new Set(generatedQuestions.map(q => q.id)));
-      addLogEntry(LogType.Info, "Todas las preguntas seleccionadas.");
+      setSelectedQuestionIds(new Set(visibleQuestions.map(q => q.id)));
+      addLogEntry(LogType.Info, visibleQuestions.length === generatedQuestions.length ? "Todas las preguntas seleccionadas." : `${visibleQuestions.length} pregunta(s) visibles seleccionadas.`);
     }
   };
 
   const handleDeleteSelectedQuestions = () => {
     if (selectedQuestionIds.size === 0) return;
     const questionsToDeleteCount = selectedQuestionIds.size;
-    setGeneratedQuestions(prev => prev.filter(q => !selectedQuestionIds.has(q.id)));
+    executeQuestionCommand(createRemoveQuestionsCommand(`Eliminación de ${questionsToDeleteCount} pregunta(s)`, selectedQuestionIds));
     setSelectedQuestionIds(new Set());
     setLastSelectedRowId(null);
     if (expandedQuestionId && selectedQuestionIds.has(expandedQuestionId)) {
@@ -1059,6 +1922,51 @@ const App: React.FC = () => {
     addLogEntry(LogType.Info, `${questionsToDeleteCount} pregunta(s) seleccionada(s) eliminada(s).`);
   };
 
+  // Sends the selected questions, in batches, to be checked against the general context (plus the
+  // document chunks that chunk-generated questions came from, while their requests are still queued).
+  const handleVerifySelectedQuestions = async () => {
+    if (selectedQuestionIds.size === 0 || isProcessing || isVerifying) return;
+    const { provider, error: providerError } = getLlmProvider();
+    if (!provider) {
+      setGlobalError(`Error Crítico: ${providerError}`);
+      addLogEntry(LogType.Error, `No se puede verificar: ${providerError}`);
+      return;
+    }
+    const questionsToVerify = generatedQuestions.filter(q => selectedQuestionIds.has(q.id) && getQuestionTypeInfo(q).type !== QuestionDisplayType.Empty);
+    if (questionsToVerify.length === 0) return;
+
+    const sourceChunks = new Map<string, RequestSourceChunk>();
+    questionsToVerify.forEach(q => {
+      const chunk = q.source && requests.find(r => r.sourceChunk?.document === q.source!.document && r.sourceChunk.chunkIndex === q.source!.chunkIndex)?.sourceChunk;
+      if (chunk) sourceChunks.set(`${chunk.document}#${chunk.chunkIndex}`, chunk);
+    });
+    const contextText = [generalContextText, ...Array.from(sourceChunks.values()).map(formatChunkContext)].filter(text => text.trim() !== '').join('\n\n');
+    if (!contextText && generalContextFiles.length === 0) {
+      addLogEntry(LogType.Warning, "No hay contexto general contra el que verificar; todas las preguntas quedarían 'sin respaldo'.");
+      setGlobalError("Añade contexto general (texto o archivos) antes de verificar preguntas.");
+      return;
+    }
+
+    setIsVerifying(true);
+    addLogEntry(LogType.Info, `Verificando ${questionsToVerify.length} pregunta(s) contra el contexto...`);
+    const counts = { [QuestionVerificationStatus.Verified]: 0, [QuestionVerificationStatus.Disputed]: 0, [QuestionVerificationStatus.Unsupported]: 0 };
+    try {
+      for (let start = 0; start < questionsToVerify.length; start += VERIFICATION_BATCH_SIZE) {
+        const batch = questionsToVerify.slice(start, start + VERIFICATION_BATCH_SIZE);
+        // Verdicts are metadata, not edits: they are stored directly instead of through the undo history.
+        const results = await verifyQuestionsWithGemini(provider, contextText, generalContextFiles, batch, addLogEntry);
+        results.forEach(result => counts[result.status]++);
+        setGeneratedQuestions(prev => prev.map(q => (results.has(q.id) ? { ...q, verification: results.get(q.id) } : q)));
+      }
+      addLogEntry(LogType.Info, `Verificación terminada: ${counts[QuestionVerificationStatus.Verified]} verificada(s), ${counts[QuestionVerificationStatus.Disputed]} discutida(s), ${counts[QuestionVerificationStatus.Unsupported]} sin respaldo.`, counts);
+    } catch (error: any) {
+      addLogEntry(LogType.Error, "La verificación se interrumpió; se conservan los resultados ya recibidos.", { error: error.message });
+      setGlobalError(error.message);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
   const handleRewriteSelectedQuestions = () => {
     if (selectedQuestionIds.size === 0 || isProcessing) return;
 
@@ -1068,13 +1976,13 @@ const App: React.FC = () => {
     const questionsJsonString = JSON.stringify(questionsToRewrite.map(q => ({
         id: q.id, 
         Pregunta: q.Pregunta,
-        'OpciÃ³n correcta 1': q['OpciÃ³n correcta 1'],
-        'OpciÃ³n Correcta 2': q['OpciÃ³n Correcta 2'],
-        'OpciÃ³n Correcta 3': q['OpciÃ³n Correcta 3'],
-        'OpciÃ³n Incorrecta 1': q['OpciÃ³n Incorrecta 1'],
-        'OpciÃ³n Incorrecta 2': q['OpciÃ³n Incorrecta 2'],
-        'OpciÃ³n Incorrecta 3': q['OpciÃ³n Incorrecta 3'],
-        ExplicaciÃ³n: q.ExplicaciÃ³n,
+        'Opción correcta 1': q['Opción correcta 1'],
+        'Opción Correcta 2': q['Opción Correcta 2'],
+        'Opción Correcta 3': q['Opción Correcta 3'],
+        'Opción Incorrecta 1': q['Opción Incorrecta 1'],
+        'Opción Incorrecta 2': q['Opción Incorrecta 2'],
+        'Opción Incorrecta 3': q['Opción Incorrecta 3'],
+        Explicación: q.Explicación,
     })), null, 2);
     const questionsFile = new File([questionsJsonString], REWRITE_QUESTIONS_FILENAME, { type: "application/json" });
     
@@ -1083,7 +1991,7 @@ const App: React.FC = () => {
         return [questionsFile, ...otherFiles];
     });
     
-    addLogEntry(LogType.Info, `${questionsToRewrite.length} pregunta(s) seleccionada(s) y adjuntada(s) como '${REWRITE_QUESTIONS_FILENAME}'. Por favor, escribe tus instrucciones de reescritura en 'Nueva Solicitud' y aÃ±Ã¡delo a la cola.`);
+    addLogEntry(LogType.Info, `${questionsToRewrite.length} pregunta(s) seleccionada(s) y adjuntada(s) como '${REWRITE_QUESTIONS_FILENAME}'. Por favor, escribe tus instrucciones de reescritura en 'Nueva Solicitud' y añádelo a la cola.`);
     
     setSelectedQuestionIds(new Set());
     setLastSelectedRowId(null);
@@ -1092,9 +2000,93 @@ const App: React.FC = () => {
     promptInput?.focus();
   };
 
+  const handleAcceptStagedQuestions = (stagedIds: string[]) => {
+    const idsToAccept = new Set(stagedIds);
+    const toAccept = stagedQuestions.filter(s => idsToAccept.has(s.id));
+    if (toAccept.length === 0) return;
+
+    const currentById = new Map<string, QuestionData>(generatedQuestions.map((q: QuestionData) => [q.id, q]));
+    const resolved = toAccept.map(staged => resolveStagedQuestion(staged, currentById.get(staged.question.id)));
+    const rewrittenCount = resolved.filter(q => currentById.has(q.id)).length;
+    const addedCount = resolved.length - rewrittenCount;
+    const label = rewrittenCount === 0
+        ? `${addedCount} pregunta(s) nueva(s) aceptada(s) de reescritura`
+        : `Reescritura de ${rewrittenCount} pregunta(s)${addedCount > 0 ? ` y ${addedCount} nueva(s)` : ''}`;
+
+    executeQuestionCommand(createMergeQuestionsCommand(label, resolved, {
+        onDuplicateId: (q) => addLogEntry(LogType.Warning, `Pregunta ID ${q.id} aceptada más de una vez; se conservó la última versión.`),
+    }));
+    setStagedQuestions(prev => prev.filter(s => !idsToAccept.has(s.id)));
+    addLogEntry(LogType.Info, `${toAccept.length} pregunta(s) aceptada(s) desde la revisión de reescrituras.`, { rewritten: rewrittenCount, added: addedCount });
+  };
+
+  const handleRejectStagedQuestions = (stagedIds: string[]) => {
+    const idsToReject = new Set(stagedIds);
+    setStagedQuestions(prev => prev.filter(s => !idsToReject.has(s.id)));
+    addLogEntry(LogType.Info, `${idsToReject.size} pregunta(s) rechazada(s) en la revisión de reescrituras.`);
+  };
+
+  const handleToggleStagedField = (stagedId: string, field: QuestionTextField) => {
+    setStagedQuestions(prev => prev.map(s => {
+      if (s.id !== stagedId) return s;
+      const isRejected = s.rejectedFields.includes(field);
+      return { ...s, rejectedFields: isRejected ? s.rejectedFields.filter(f => f !== field) : [...s.rejectedFields, field] };
+    }));
+  };
+
   const isQuestionSelected = (questionId: string) => selectedQuestionIds.has(questionId);
-  const areAllQuestionsSelected = selectedQuestionIds.size === generatedQuestions.length && generatedQuestions.length > 0;
-  const hasUnknownQuestions = generatedQuestions.some(q => getQuestionTypeInfo(q).type === QuestionDisplayType.Unknown);
+  const visibleQuestions = useMemo(() => applyQuestionTableView(generatedQuestions, tableView), [generatedQuestions, tableView]);
+  const areAllQuestionsSelected = visibleQuestions.length > 0 && visibleQuestions.every(q => selectedQuestionIds.has(q.id));
+
+  // Selection only covers rows on screen: narrowing the view drops the hidden ones, so bulk actions
+  // (delete, rewrite, verify...) never reach questions the user can't see.
+  useEffect(() => {
+    const visibleIds = new Set(visibleQuestions.map(q => q.id));
+    setSelectedQuestionIds(prev => (Array.from(prev).every(id => visibleIds.has(id)) ? prev : new Set(Array.from(prev).filter(id => visibleIds.has(id)))));
+  }, [visibleQuestions]);
+
+  // Requests named by their current prompt, or the one stored with the questions once removed from the queue.
+  const tableRequestOptions = useMemo(() => {
+    const options = new Map<string, { id: string; label: string; count: number }>();
+    generatedQuestions.forEach(q => {
+      if (!q.sourceRequest) return;
+      const option = options.get(q.sourceRequest.id);
+      if (option) {
+        option.count++;
+        return;
+      }
+      const prompt = requests.find(r => r.id === q.sourceRequest!.id)?.prompt ?? q.sourceRequest.prompt;
+      options.set(q.sourceRequest.id, { id: q.sourceRequest.id, label: prompt.length > 40 ? `${prompt.substring(0, 40)}...` : prompt || '(sin instrucción)', count: 1 });
+    });
+    return Array.from(options.values());
+  }, [generatedQuestions, requests]);
+  const knownTags = useMemo(() => collectTags(generatedQuestions), [generatedQuestions]);
+  const hasUnknownQuestions = useMemo(() => generatedQuestions.some(q => getQuestionDisplayType(q) === QuestionDisplayType.Unknown), [generatedQuestions]);
+  const lintIssuesByQuestion = useMemo(() => lintQuestions(generatedQuestions, lintSettings), [generatedQuestions, lintSettings]);
+  const lintBlockedQuestionIds = Array.from(lintIssuesByQuestion.entries()).filter(([, issues]) => issues.some(issue => issue.severity === 'error')).map(([id]) => id);
+  const lintIssueCounts = new Map<LintRuleId, number>();
+  lintIssuesByQuestion.forEach(issues => issues.forEach(issue => lintIssueCounts.set(issue.ruleId, (lintIssueCounts.get(issue.ruleId) || 0) + 1)));
+
+  // Only the rows around the viewport are rendered. The row handlers go through a ref to the latest
+  // ones so their identity never changes and the memoized rows skip re-rendering.
+  const virtualQuestionRows = useVirtualRows(visibleQuestions, getQuestionRowKey, questionTableScrollRef, QUESTION_ROW_ESTIMATED_HEIGHT);
+  const rowHandlersRef = useRef<QuestionTableRowHandlers | null>(null);
+  rowHandlersRef.current = {
+    onToggleSelect: handleRowSelectionToggle,
+    onToggleExpand: handleRowExpandToggle,
+    onEdit: handleQuestionEdit,
+    onDelete: handleDeleteGeneratedQuestion,
+    onMetadataChange: handleQuestionMetadataChange,
+    onUnflag: handleUnflagQuestion,
+  };
+  const rowHandlers = useMemo<QuestionTableRowHandlers>(() => ({
+    onToggleSelect: (questionId, isShiftClick) => rowHandlersRef.current?.onToggleSelect(questionId, isShiftClick),
+    onToggleExpand: (questionId) => rowHandlersRef.current?.onToggleExpand(questionId),
+    onEdit: (questionId, field, value) => rowHandlersRef.current?.onEdit(questionId, field, value),
+    onDelete: (questionId) => rowHandlersRef.current?.onDelete(questionId),
+    onMetadataChange: (questionIds, changes) => rowHandlersRef.current?.onMetadataChange(questionIds, changes),
+    onUnflag: (questionId) => rowHandlersRef.current?.onUnflag(questionId),
+  }), []);
 
   const getStatusIcon = (status: RequestStatus) => {
     switch (status) {
@@ -1102,6 +2094,7 @@ const App: React.FC = () => {
       case RequestStatus.Processing: return <SpinnerIcon className="w-5 h-5 text-blue-400" />;
       case RequestStatus.Completed: return <CheckCircleIcon className="w-5 h-5 text-green-400" />;
       case RequestStatus.Error: return <XCircleIcon className="w-5 h-5 text-red-400" />;
+      case RequestStatus.Cancelled: return <NoSymbolIcon className="w-5 h-5 text-neutral-500" />;
       default: return null;
     }
   };
@@ -1124,8 +2117,24 @@ const App: React.FC = () => {
     <div className="min-h-screen bg-black text-neutral-300 p-4 md:p-8 flex flex-col items-center">
       <header className="w-full mb-8 flex justify-between items-center">
         <div className="text-left">
-            <h1 className="text-4xl font-bold text-blue-400 mb-1">{APP_TITLE}</h1>
+            <div className="flex items-center gap-4 flex-wrap mb-1">
+                <h1 className="text-4xl font-bold text-blue-400">{APP_TITLE}</h1>
+                <ProjectSwitcher
+                    projects={projectSummaries}
+                    activeProjectId={activeProject.id}
+                    activeProjectName={activeProjectDisplayName}
+                    disabled={isProcessing || !!savedWorkspaceToRestore}
+                    onSelectProject={handleSelectProject}
+                    onCreateProject={handleCreateProject}
+                    onDuplicateProject={handleDuplicateProject}
+                    onRenameProject={handleRenameProject}
+                    onDeleteProject={handleDeleteProject}
+                />
+            </div>
             <p className="text-neutral-400 text-sm">Crea preguntas para tus quizzes de forma eficiente con IA.</p>
+            {lastAutosaveAt && (
+                <p className="text-neutral-500 text-xs mt-1">Sesión guardada automáticamente a las {lastAutosaveAt.toLocaleTimeString(undefined, LOG_TIMESTAMP_FORMAT)}</p>
+            )}
         </div>
         <button
             onClick={handleOpenConfigModal}
@@ -1144,9 +2153,73 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {savedWorkspaceToRestore && (
+        <div className="w-full max-w-3xl bg-blue-900 border border-blue-700 text-blue-100 px-4 py-3 rounded-md mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3" role="alert">
+          <div>
+            <p className="font-bold">Sesión anterior encontrada: "{getProjectDisplayName(savedWorkspaceToRestore)}"</p>
+            <p className="text-sm">
+              Guardada el {new Date(savedWorkspaceToRestore.savedAt).toLocaleString()}: {savedWorkspaceToRestore.generatedQuestions.length} pregunta(s), {savedWorkspaceToRestore.requests.length} solicitud(es) en cola.
+            </p>
+          </div>
+          <div className="flex gap-2 flex-shrink-0">
+            <button
+              onClick={handleDiscardSavedWorkspace}
+              className="px-4 py-2 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded-md transition-colors text-sm"
+            >
+              Empezar proyecto nuevo
+            </button>
+            <button
+              onClick={handleRestoreWorkspace}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors text-sm font-semibold"
+            >
+              Restaurar
+            </button>
+          </div>
+        </div>
+      )}
+
+      {pendingCsvImport && (
+        <CsvImportWizard
+          fileName={pendingCsvImport.fileName}
+          headers={pendingCsvImport.headers}
+          rows={pendingCsvImport.records.map(record => record.fields)}
+          suggestion={pendingCsvImport.suggestion}
+          onConfirm={handleConfirmCsvMapping}
+          onCancel={handleCancelCsvImport}
+        />
+      )}
+
+      {quizQuestions && (
+        <QuizRunner
+          questions={quizQuestions}
+          getTypeInfo={getQuestionTypeInfo}
+          onFlag={handleFlagQuestion}
+          onUnflag={handleUnflagQuestion}
+          onClose={() => setQuizQuestions(null)}
+        />
+      )}
+
+      {examQuestions && (
+        <ExamGeneratorModal
+          questions={examQuestions}
+          defaultHeader={{ title: collectionTitle || activeProjectDisplayName, subject: asignatura }}
+          getTypeInfo={getQuestionTypeInfo}
+          onPrint={handlePrintExam}
+          onClose={() => setExamQuestions(null)}
+        />
+      )}
+
+      {showDocumentChunking && (
+        <DocumentChunkingModal
+          defaultInstruction={newRequestPrompt}
+          onConfirm={handleCreateChunkRequests}
+          onCancel={() => setShowDocumentChunking(false)}
+        />
+      )}
+
       {showConfigModal && (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4"  aria-modal="true" role="dialog">
-          <div className="bg-neutral-800 p-6 rounded-xl shadow-2xl w-full max-w-md">
+          <div className="bg-neutral-800 p-6 rounded-xl shadow-2xl w-full max-w-lg">
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-2xl font-semibold text-neutral-100">Inteligencia Artificial</h2>
               <button 
@@ -1159,30 +2232,162 @@ const App: React.FC = () => {
             </div>
             
             <div className="mb-4">
-              <label htmlFor="apiKeyInput" className="block text-sm font-medium text-neutral-300 mb-1">
-                Clave API de Gemini (GEMINI_API_KEY)
+              <label htmlFor="llmProviderSelect" className="block text-sm font-medium text-neutral-300 mb-1">
+                Proveedor
               </label>
-              <input
-                type="password"
-                id="apiKeyInput"
-                value={userApiKeyInput}
-                onChange={(e) => setUserApiKeyInput(e.target.value)}
-                placeholder="Pega tu clave de Gemini aquí..."
+              <select
+                id="llmProviderSelect"
+                value={llmProviderSettingsDraft.providerId}
+                onChange={(e) => {
+                  setLlmProviderSettingsDraft(prev => ({ ...prev, providerId: e.target.value as LlmProviderId }));
+                  setAvailableModels([]);
+                  setModelListError(null);
+                }}
                 className="w-full p-3 bg-neutral-700 border border-neutral-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-neutral-500 text-neutral-100"
-              />
+              >
+                {Object.values(LlmProviderId).map(providerId => (
+                  <option key={providerId} value={providerId}>{LLM_PROVIDER_LABELS[providerId]}</option>
+                ))}
+              </select>
+            </div>
+
+            {llmProviderSettingsDraft.providerId === LlmProviderId.Gemini ? (
+              <div className="mb-4">
+                <label htmlFor="apiKeyInput" className="block text-sm font-medium text-neutral-300 mb-1">
+                  Clave API de Gemini (GEMINI_API_KEY)
+                </label>
+                <input
+                  type="password"
+                  id="apiKeyInput"
+                  value={userApiKeyInput}
+                  onChange={(e) => setUserApiKeyInput(e.target.value)}
+                  placeholder="Pega tu clave de Gemini aquí..."
+                  className="w-full p-3 bg-neutral-700 border border-neutral-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-neutral-500 text-neutral-100"
+                />
+                <p className="mt-1 text-xs text-neutral-400">
+                  Debes definir una clave de API de Gemini para usar funciones de IA. Puedes conseguir la tuya gratis en aistudio.google.com.</p>
+              </div>
+            ) : (
+              <div className="mb-4 space-y-3">
+                <div>
+                  <label htmlFor="openAiBaseUrlInput" className="block text-sm font-medium text-neutral-300 mb-1">
+                    URL base del servidor
+                  </label>
+                  <input
+                    type="url"
+                    id="openAiBaseUrlInput"
+                    value={llmProviderSettingsDraft.openAiBaseUrl}
+                    onChange={(e) => setLlmProviderSettingsDraft(prev => ({ ...prev, openAiBaseUrl: e.target.value }))}
+                    placeholder="http://localhost:11434/v1"
+                    className="w-full p-3 bg-neutral-700 border border-neutral-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-neutral-500 text-neutral-100"
+                  />
+                  <p className="mt-1 text-xs text-neutral-400">
+                    Incluye el prefijo /v1. Ollama usa http://localhost:11434/v1 y el servidor de llama.cpp http://localhost:8080/v1. El servidor debe permitir peticiones CORS desde esta página.
+                  </p>
+                </div>
+                <div>
+                  <label htmlFor="openAiApiKeyInput" className="block text-sm font-medium text-neutral-300 mb-1">
+                    Clave API (opcional)
+                  </label>
+                  <input
+                    type="password"
+                    id="openAiApiKeyInput"
+                    value={llmProviderSettingsDraft.openAiApiKey}
+                    onChange={(e) => setLlmProviderSettingsDraft(prev => ({ ...prev, openAiApiKey: e.target.value }))}
+                    placeholder="Solo si el servidor la exige"
+                    className="w-full p-3 bg-neutral-700 border border-neutral-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-neutral-500 text-neutral-100"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="openAiModelInput" className="block text-sm font-medium text-neutral-300 mb-1">
+                    Modelo
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      id="openAiModelInput"
+                      list="llmModelOptions"
+                      value={llmProviderSettingsDraft.openAiModel}
+                      onChange={(e) => setLlmProviderSettingsDraft(prev => ({ ...prev, openAiModel: e.target.value }))}
+                      placeholder="p. ej. llama3.1:8b"
+                      className="w-full p-3 bg-neutral-700 border border-neutral-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-neutral-500 text-neutral-100"
+                    />
+                    <datalist id="llmModelOptions">
+                      {availableModels.map(model => <option key={model} value={model} />)}
+                    </datalist>
+                    <button
+                      onClick={handleListModels}
+                      disabled={isListingModels}
+                      className="px-3 py-2 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded-md text-sm whitespace-nowrap flex items-center gap-2 disabled:text-neutral-500"
+                    >
+                      {isListingModels && <SpinnerIcon className="w-4 h-4" />} Listar modelos
+                    </button>
+                  </div>
+                  {modelListError ? (
+                    <p className="mt-1 text-xs text-red-400">{modelListError}</p>
+                  ) : availableModels.length > 0 && (
+                    <p className="mt-1 text-xs text-neutral-400">{availableModels.length} modelo(s) disponibles; elige uno en el campo.</p>
+                  )}
+                  <p className="mt-1 text-xs text-neutral-400">
+                    Se usa el mismo modelo para todas las intensidades de razonamiento. Los archivos PDF y otros binarios no se pueden enviar a este proveedor; los de texto se incluyen en el prompt y las imágenes solo funcionan con modelos de visión.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <div className="mb-4 pt-3 border-t border-neutral-700">
+              <h3 className="text-sm font-medium text-neutral-300 mb-2">Procesamiento de la cola</h3>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <label htmlFor="queueConcurrencyInput" className="block text-xs text-neutral-400 mb-1">Solicitudes en paralelo</label>
+                  <input
+                    type="number"
+                    id="queueConcurrencyInput"
+                    min={1}
+                    value={queueSchedulerSettingsDraft.concurrency}
+                    onChange={(e) => setQueueSchedulerSettingsDraft(prev => ({ ...prev, concurrency: parseInt(e.target.value, 10) }))}
+                    className="w-full p-2 bg-neutral-700 border border-neutral-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-neutral-100 text-sm"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="queueRpmInput" className="block text-xs text-neutral-400 mb-1">Solicitudes por minuto</label>
+                  <input
+                    type="number"
+                    id="queueRpmInput"
+                    min={1}
+                    value={queueSchedulerSettingsDraft.requestsPerMinute}
+                    onChange={(e) => setQueueSchedulerSettingsDraft(prev => ({ ...prev, requestsPerMinute: parseInt(e.target.value, 10) }))}
+                    className="w-full p-2 bg-neutral-700 border border-neutral-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-neutral-100 text-sm"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="queueTpmInput" className="block text-xs text-neutral-400 mb-1">Tokens por minuto</label>
+                  <input
+                    type="number"
+                    id="queueTpmInput"
+                    min={1}
+                    value={queueSchedulerSettingsDraft.tokensPerMinute}
+                    onChange={(e) => setQueueSchedulerSettingsDraft(prev => ({ ...prev, tokensPerMinute: parseInt(e.target.value, 10) }))}
+                    className="w-full p-2 bg-neutral-700 border border-neutral-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-neutral-100 text-sm"
+                  />
+                </div>
+              </div>
               <p className="mt-1 text-xs text-neutral-400">
-                Debes definir una clave de API de Gemini para usar funciones de IA. Puedes conseguir la tuya gratis en aistudio.google.com.</p>
+                Los límites se aplican por modelo y los tokens se estiman a partir del contexto y los archivos. Ante errores 429/503 la solicitud se reintenta con una espera creciente.
+              </p>
             </div>
 
             <div className="flex flex-col sm:flex-row justify-between gap-3">
+              {llmProviderSettingsDraft.providerId === LlmProviderId.Gemini ? (
+                <button
+                  onClick={handleResetApiKey}
+                  className="w-full sm:w-auto px-4 py-2 bg-yellow-600 hover:bg-yellow-700 text-white rounded-md transition-colors"
+                >
+                  Restablecer a Clave de Entorno
+                </button>
+              ) : <span />}
               <button
-                onClick={handleResetApiKey}
-                className="w-full sm:w-auto px-4 py-2 bg-yellow-600 hover:bg-yellow-700 text-white rounded-md transition-colors"
-              >
-                Restablecer a Clave de Entorno
-              </button>
-              <button
-                onClick={handleSaveApiKey}
+                onClick={handleSaveAiSettings}
                 className="w-full sm:w-auto px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors font-semibold"
               >
                 Guardar Cambios
@@ -1200,12 +2405,12 @@ const App: React.FC = () => {
             <textarea
               value={generalContextText}
               onChange={(e) => setGeneralContextText(e.target.value)}
-              placeholder="Pega aquÃ­ el material de estudio principal (texto, notas, etc.). Este contexto se usarÃ¡ para todas las solicitudes."
+              placeholder="Pega aquí el material de estudio principal (texto, notas, etc.). Este contexto se usará para todas las solicitudes."
               className="w-full h-32 p-3 bg-neutral-800 border border-neutral-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-neutral-500 text-neutral-100"
               disabled={isProcessing}
             />
             <div className="mt-3">
-              <label htmlFor="context-files" className="block text-sm font-medium text-neutral-400 mb-1">Cargar archivos de contexto (opcional, mÃºltiple):</label>
+              <label htmlFor="context-files" className="block text-sm font-medium text-neutral-400 mb-1">Cargar archivos de contexto (opcional, múltiple):</label>
               <input 
                 type="file" 
                 id="context-files"
@@ -1216,6 +2421,35 @@ const App: React.FC = () => {
                 disabled={isProcessing}
                 accept="image/*,text/*,application/pdf,.md,.json,.csv"
               />
+              <div className="mt-3 p-2 bg-neutral-800 rounded-md border border-neutral-700 text-xs">
+                <label className="flex items-center gap-2 text-neutral-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={retrievalSettings.enabled}
+                    onChange={(e) => updateRetrievalSettings({ enabled: e.target.checked })}
+                    className="form-checkbox h-4 w-4 text-blue-500 bg-neutral-700 border-neutral-600 rounded"
+                    disabled={isProcessing}
+                  />
+                  Enviar solo los pasajes relevantes (búsqueda local)
+                </label>
+                {retrievalSettings.enabled && (
+                  <div className="mt-2 flex items-center gap-2 text-neutral-400">
+                    <label htmlFor="retrieval-top-k">Pasajes por solicitud:</label>
+                    <input
+                      type="number"
+                      id="retrieval-top-k"
+                      min={1}
+                      value={retrievalSettings.topK}
+                      onChange={(e) => updateRetrievalSettings({ topK: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                      className="w-16 p-1 bg-neutral-700 border border-neutral-600 rounded text-neutral-100"
+                      disabled={isProcessing}
+                    />
+                  </div>
+                )}
+                <p className="mt-1 text-neutral-500">
+                  El texto y los archivos PDF/texto se indexan en el navegador; cada solicitud recibe solo los pasajes que coinciden con su instrucción. Las imágenes se siguen enviando completas.
+                </p>
+              </div>
               {generalContextFilePreviews.length > 0 && (
                 <div className="mt-2 space-y-2 text-xs">
                   <p className="text-neutral-300 font-medium">Archivos de contexto cargados:</p>
@@ -1245,7 +2479,7 @@ const App: React.FC = () => {
               <textarea
                 value={newRequestPrompt}
                 onChange={(e) => setNewRequestPrompt(e.target.value)}
-                placeholder="Tema o instrucciÃ³n especÃ­fica para un grupo de preguntas (puede ser de varias lÃ­neas)"
+                placeholder="Tema o instrucción específica para un grupo de preguntas (puede ser de varias líneas)"
                 className="w-full p-3 mb-2 bg-neutral-700 border border-neutral-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-neutral-500 text-neutral-100 h-24 resize-y"
                 disabled={isProcessing}
               />
@@ -1280,6 +2514,37 @@ const App: React.FC = () => {
                       ))}
                     </div>
                 )}
+              </div>
+              <div className="mb-2">
+                <p className="block text-xs font-medium text-neutral-400 mb-1">
+                  Objetivo de preguntas (opcional; vacío = lo decide el modelo):
+                </p>
+                <div className="grid grid-cols-3 sm:grid-cols-6 gap-1.5">
+                  <label className="text-xs text-neutral-400">
+                    Total
+                    <input
+                      type="number"
+                      min={0}
+                      value={newRequestTargets.count ?? ''}
+                      onChange={(e) => setNewRequestTargets(prev => ({ ...prev, count: e.target.value === '' ? undefined : parseInt(e.target.value, 10) }))}
+                      className="w-full mt-0.5 p-1 bg-neutral-700 border border-neutral-600 rounded text-sm text-neutral-100"
+                      disabled={isProcessing}
+                    />
+                  </label>
+                  {TARGETABLE_QUESTION_TYPES.map(({ type, label }) => (
+                    <label key={type} className="text-xs text-neutral-400">
+                      {label}
+                      <input
+                        type="number"
+                        min={0}
+                        value={newRequestTargets.typeMix?.[type] ?? ''}
+                        onChange={(e) => setNewRequestTargets(prev => ({ ...prev, typeMix: { ...prev.typeMix, [type]: e.target.value === '' ? undefined : parseInt(e.target.value, 10) } }))}
+                        className="w-full mt-0.5 p-1 bg-neutral-700 border border-neutral-600 rounded text-sm text-neutral-100"
+                        disabled={isProcessing}
+                      />
+                    </label>
+                  ))}
+                </div>
               </div>
                <div className="my-3">
                   <label htmlFor="thinking-intensity" className="flex items-center gap-2 text-sm font-medium text-neutral-300 mb-2">
@@ -1312,12 +2577,20 @@ const App: React.FC = () => {
                 disabled={isProcessing || newRequestPrompt.trim() === ''}
                 className="w-full p-3 bg-blue-600 hover:bg-blue-700 text-white rounded-md flex items-center justify-center gap-2 transition-colors disabled:bg-neutral-700 disabled:text-neutral-400 disabled:cursor-not-allowed"
               >
-                <PlusIcon className="w-5 h-5" /> AÃ±adir a Cola
+                <PlusIcon className="w-5 h-5" /> Añadir a Cola
+              </button>
+              <button
+                onClick={() => setShowDocumentChunking(true)}
+                disabled={isProcessing}
+                className="w-full mt-2 p-2 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded-md flex items-center justify-center gap-2 text-sm transition-colors disabled:text-neutral-500 disabled:cursor-not-allowed"
+                title="Divide un PDF o texto largo en fragmentos y crea una solicitud por fragmento"
+              >
+                <ScissorsIcon className="w-4 h-4" /> Generar desde documento
               </button>
             </div>
             
             <div className="mt-3 max-h-60 overflow-y-auto bg-neutral-800 p-3 rounded-md border border-neutral-700 space-y-2">
-              {requests.length === 0 && <p className="text-neutral-400 text-sm italic">La cola estÃ¡ vacÃ­a. AÃ±ade solicitudes.</p>}
+              {requests.length === 0 && <p className="text-neutral-400 text-sm italic">La cola está vacía. Añade solicitudes.</p>}
               {requests.map((req, index) => (
                 <div key={req.id} className="p-3 bg-neutral-700 rounded-md flex items-start gap-2 border border-neutral-600 shadow-sm">
                   <div className="flex flex-col gap-1 mr-2">
@@ -1340,6 +2613,14 @@ const App: React.FC = () => {
                     </div>
                   <div className="flex-grow min-w-0">
                     <p className="text-sm text-neutral-100 truncate" title={req.prompt}>{req.prompt}</p>
+                    {req.sourceChunk && (
+                      <p className="mt-1 text-xs text-sky-300 truncate" title={req.sourceChunk.text.substring(0, 300)}>
+                        Fragmento {req.sourceChunk.chunkIndex}/{req.sourceChunk.chunkCount} de "{req.sourceChunk.document}": {req.sourceChunk.section}
+                      </p>
+                    )}
+                    {req.targets && (
+                      <p className="mt-1 text-xs text-teal-300">Objetivo: {describeQuestionTargets(req.targets)}</p>
+                    )}
                     {req.requestFiles && req.requestFiles.length > 0 && (
                       <div className="mt-1 text-xs text-neutral-400 flex items-center gap-1">
                         <PaperClipIcon className="w-3 h-3"/> {req.requestFiles.length} archivo(s) adjunto(s)
@@ -1348,15 +2629,50 @@ const App: React.FC = () => {
                          }
                       </div>
                     )}
-                    <RequestStatusDisplay req={req} />
+                    {req.retrievedPassages && req.retrievedPassages.length > 0 && (
+                      <details className="mt-1 text-xs">
+                        <summary className="cursor-pointer text-indigo-300 hover:text-indigo-200">
+                          {req.retrievedPassages.length} pasaje(s) del contexto usados
+                        </summary>
+                        <ol className="mt-1 space-y-1 max-h-48 overflow-y-auto">
+                          {req.retrievedPassages.map((passage, passageIndex) => (
+                            <li key={passageIndex} className="p-1.5 bg-neutral-800 rounded border border-neutral-600">
+                              <p className="text-neutral-400">
+                                {passage.source} · {passage.section} <span className="text-neutral-500">(puntuación {passage.score})</span>
+                              </p>
+                              <p className="text-neutral-300 whitespace-pre-wrap truncate-3-lines" title={passage.text}>{passage.text}</p>
+                            </li>
+                          ))}
+                        </ol>
+                      </details>
+                    )}
+                    <RequestStatusDisplay req={req} workerState={requestWorkerStates[req.id]} />
                   </div>
                   <div className="flex items-center gap-1 flex-shrink-0">
                     {getStatusIcon(req.status)}
+                    {(req.status === RequestStatus.Pending || req.status === RequestStatus.Error) && (
+                      <button
+                        onClick={() => handleCancelRequest(req.id)}
+                        className="p-1 text-neutral-400 hover:text-neutral-200"
+                        title="Cancelar solicitud (la cola la omitirá)"
+                      >
+                        <NoSymbolIcon className="w-4 h-4" />
+                      </button>
+                    )}
+                    {req.status === RequestStatus.Cancelled && (
+                      <button
+                        onClick={() => handleRequeueRequest(req.id)}
+                        className="p-1 text-green-400 hover:text-green-300"
+                        title="Devolver a la cola"
+                      >
+                        <ArrowUturnLeftIcon className="w-4 h-4" />
+                      </button>
+                    )}
                      <button
                         onClick={() => handleEditRequest(req.id)}
-                        disabled={isProcessing || req.status === RequestStatus.Processing}
+                        disabled={isProcessing || req.status === RequestStatus.Processing || !!req.sourceChunk}
                         className="p-1 text-yellow-400 hover:text-yellow-300 disabled:text-neutral-500 disabled:cursor-not-allowed"
-                        title="Editar solicitud"
+                        title={req.sourceChunk ? "Las solicitudes de un fragmento no se editan; elimínala y vuelve a dividir el documento" : "Editar solicitud"}
                     >
                         <PencilIcon className="w-4 h-4" />
                     </button>
@@ -1379,11 +2695,52 @@ const App: React.FC = () => {
               className="w-full mt-4 p-4 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-md flex items-center justify-center gap-2 text-lg transition-colors disabled:bg-neutral-700 disabled:text-neutral-400 disabled:cursor-not-allowed"
             >
               {isProcessing ? <SpinnerIcon className="w-6 h-6" /> : <ProcessIcon className="w-6 h-6" />}
-              {isProcessing ? `Procesando... (${overallProgress.toFixed(0)}%)` : 'Generar Preguntas'}
+              {isProcessing ? `Procesando... (${overallProgress.toFixed(0)}%)` : (queueStop ? 'Reanudar Cola' : 'Generar Preguntas')}
             </button>
             {isProcessing && (
-              <div className="w-full bg-neutral-700 rounded-full h-2.5 mt-2">
-                <div className="bg-blue-500 h-2.5 rounded-full transition-all duration-300 ease-out" style={{ width: `${overallProgress}%` }}></div>
+              <div className="flex gap-2 mt-2">
+                <button
+                  onClick={handlePauseQueue}
+                  disabled={queueStop !== null}
+                  className="flex-1 px-3 py-2 bg-yellow-600 hover:bg-yellow-700 text-white text-sm rounded-md flex items-center justify-center gap-2 disabled:bg-neutral-700 disabled:text-neutral-400 disabled:cursor-not-allowed"
+                  title="Termina la solicitud actual y detiene la cola"
+                >
+                  <PauseIcon className="w-4 h-4" /> {queueStop === 'pause' ? 'Pausando tras la solicitud actual...' : 'Pausar'}
+                </button>
+                <button
+                  onClick={handleCancelQueue}
+                  disabled={queueStop === 'cancel'}
+                  className="flex-1 px-3 py-2 bg-red-700 hover:bg-red-600 text-white text-sm rounded-md flex items-center justify-center gap-2 disabled:bg-neutral-700 disabled:text-neutral-400 disabled:cursor-not-allowed"
+                  title="Aborta la solicitud en curso (vuelve a quedar pendiente) y detiene la cola"
+                >
+                  <StopIcon className="w-4 h-4" /> {queueStop === 'cancel' ? 'Cancelando...' : 'Cancelar'}
+                </button>
+              </div>
+            )}
+            {!isProcessing && queueStop && (
+              <p className="mt-2 text-xs text-neutral-400">
+                Cola {queueStop === 'pause' ? 'pausada' : 'cancelada'}. Las solicitudes pendientes se procesarán al reanudar.
+              </p>
+            )}
+            {isProcessing && (
+              <div className="mt-2">
+                {/* Finished requests fill the bar; each in-flight request adds a segment coloured by its worker's phase. */}
+                <div className="w-full bg-neutral-700 rounded-full h-2.5 flex overflow-hidden">
+                  <div className="bg-blue-500 h-2.5 transition-all duration-300 ease-out" style={{ width: `${overallProgress}%` }}></div>
+                  {(Object.values(requestWorkerStates) as RequestWorkerState[])
+                    .sort((a, b) => a.worker - b.worker)
+                    .map(workerState => (
+                      <div
+                        key={workerState.worker}
+                        className={`h-2.5 border-l border-neutral-900 animate-pulse ${workerState.phase === 'generating' ? 'bg-blue-800' : 'bg-yellow-700'}`}
+                        style={{ width: `${100 / Math.max(1, queueRunSize)}%` }}
+                        title={`Worker ${workerState.worker}`}
+                      ></div>
+                    ))}
+                </div>
+                <p className="mt-1 text-xs text-neutral-400">
+                  {Object.keys(requestWorkerStates).length} en curso · hasta {queueSchedulerSettings.concurrency} en paralelo
+                </p>
               </div>
             )}
             
@@ -1394,7 +2751,7 @@ const App: React.FC = () => {
               </h2>
               <div className="p-3 bg-neutral-800 border border-neutral-700 rounded-b-md text-xs min-h-[40px]"> {/* Added min-h for consistent height */}
                   {isProcessing && geminiLiveThought && (
-                      <p className="italic text-neutral-300">Gemini estÃ¡ procesando... El stream detallado de la respuesta se muestra en la secciÃ³n 'Streamming Retornado' mÃ¡s abajo si estÃ¡ activa.</p>
+                      <p className="italic text-neutral-300">Gemini está procesando... El stream detallado de la respuesta se muestra en la sección 'Streamming Retornado' más abajo si está activa.</p>
                   )}
                   {isProcessing && !geminiLiveThought && (
                       <p className="italic text-neutral-400">Esperando la primera respuesta de Gemini...</p>
@@ -1430,9 +2787,17 @@ const App: React.FC = () => {
                   aria-live="polite"
                   aria-atomic="true"
                 >
-                  <h3 className="text-base font-semibold text-neutral-100 mb-2 sticky top-0 bg-neutral-900 py-1 z-10 border-b border-neutral-700">Stream de Gemini</h3>
+                  <h3 className="text-base font-semibold text-neutral-100 mb-2 sticky top-0 bg-neutral-900 py-1 z-10 border-b border-neutral-700">
+                    Stream de Gemini
+                    {streamedRequestId && requests.find(r => r.id === streamedRequestId) && (
+                      <span className="ml-2 text-xs font-normal text-neutral-400">
+                        Solicitud: "{requests.find(r => r.id === streamedRequestId)!.prompt.substring(0, 40)}..."
+                        {Object.keys(requestWorkerStates).length > 1 ? ' (la primera en curso de la cola)' : ''}
+                      </span>
+                    )}
+                  </h3>
                   {isProcessing && !geminiLiveThought && <p className="italic text-neutral-400">Esperando respuesta de Gemini...</p>}
-                  {geminiLiveThought || (!isProcessing && <p className="italic text-neutral-500">El procesamiento ha finalizado o no estÃ¡ activo. Este es el Ãºltimo stream recibido.</p>)}
+                  {geminiLiveThought || (!isProcessing && <p className="italic text-neutral-500">El procesamiento ha finalizado o no está activo. Este es el último stream recibido.</p>)}
                 </div>
             )}
 
@@ -1449,7 +2814,7 @@ const App: React.FC = () => {
             {showLogs && (
                 <div className="mt-2 p-3 bg-neutral-900 border border-neutral-700 rounded-md max-h-96 overflow-y-auto text-xs shadow" ref={logContainerRef}>
                     <h3 className="text-lg font-semibold text-neutral-100 mb-2 sticky top-0 bg-neutral-900 py-1 z-10 border-b border-neutral-700">Log de Actividad</h3>
-                    {logEntries.length === 0 && <p className="text-neutral-400 italic">No hay entradas en el log todavÃ­a.</p>}
+                    {logEntries.length === 0 && <p className="text-neutral-400 italic">No hay entradas en el log todavía.</p>}
                     <ul>
                         {logEntries.map(log => (
                         <li key={log.id} className={`py-1 border-b border-neutral-800 last:border-b-0 ${getLogColor(log.type)}`}>
@@ -1476,11 +2841,63 @@ const App: React.FC = () => {
             <div className="flex justify-between items-center mb-3">
               <h2 className="text-2xl font-semibold text-neutral-100">4. Preguntas Generadas ({generatedQuestions.length})</h2>
               <div className="flex gap-2">
+                <div className="flex rounded-md overflow-hidden">
+                  <button
+                    onClick={handleUndo}
+                    disabled={isProcessing || questionHistory.undoStack.length === 0}
+                    className="p-3 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 transition-colors disabled:bg-neutral-800 disabled:text-neutral-500 disabled:cursor-not-allowed"
+                    title={questionHistory.undoStack.length > 0 ? `Deshacer: ${questionHistory.undoStack[questionHistory.undoStack.length - 1].label} (Ctrl+Z)` : "Nada que deshacer"}
+                    aria-label="Deshacer"
+                  >
+                    <ArrowUturnLeftIcon className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={handleRedo}
+                    disabled={isProcessing || questionHistory.redoStack.length === 0}
+                    className="p-3 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 transition-colors disabled:bg-neutral-800 disabled:text-neutral-500 disabled:cursor-not-allowed border-l border-neutral-600"
+                    title={questionHistory.redoStack.length > 0 ? `Rehacer: ${questionHistory.redoStack[questionHistory.redoStack.length - 1].label} (Ctrl+Shift+Z)` : "Nada que rehacer"}
+                    aria-label="Rehacer"
+                  >
+                    <ArrowUturnRightIcon className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => setShowHistoryPanel(prev => !prev)}
+                    className={`p-3 ${showHistoryPanel ? 'bg-neutral-600' : 'bg-neutral-700'} hover:bg-neutral-600 text-neutral-200 transition-colors border-l border-neutral-600`}
+                    title="Mostrar historial de cambios"
+                    aria-expanded={showHistoryPanel}
+                  >
+                    <ClockIcon className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => setShowLintPanel(prev => !prev)}
+                    className={`p-3 ${showLintPanel ? 'bg-neutral-600' : 'bg-neutral-700'} hover:bg-neutral-600 ${lintIssuesByQuestion.size > 0 ? 'text-yellow-300' : 'text-neutral-200'} transition-colors border-l border-neutral-600`}
+                    title={lintIssuesByQuestion.size > 0 ? `Reglas de calidad: ${lintIssuesByQuestion.size} pregunta(s) con avisos` : "Reglas de calidad"}
+                    aria-expanded={showLintPanel}
+                  >
+                    <ShieldCheckIcon className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={handleStartQuiz}
+                    disabled={visibleQuestions.length === 0}
+                    className="p-3 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 transition-colors border-l border-neutral-600 disabled:bg-neutral-800 disabled:text-neutral-500 disabled:cursor-not-allowed"
+                    title={selectedQuestionIds.size > 0 ? `Practicar las ${selectedQuestionIds.size} pregunta(s) seleccionadas` : "Practicar con las preguntas como lo haría un estudiante"}
+                  >
+                    <PlayIcon className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={handleToggleDuplicatePanel}
+                    className={`p-3 ${showDuplicatePanel ? 'bg-neutral-600' : 'bg-neutral-700'} hover:bg-neutral-600 text-neutral-200 transition-colors border-l border-neutral-600`}
+                    title="Buscar preguntas duplicadas o casi duplicadas"
+                    aria-expanded={showDuplicatePanel}
+                  >
+                    <DocumentDuplicateIcon className="w-5 h-5" />
+                  </button>
+                </div>
                  <input 
                     type="file" 
                     ref={filePickerRef}
                     onChange={handleFileChange}
-                    accept=".csv,.json"
+                    accept=".csv,.json,.xml,.gift,.txt"
                     className="hidden" 
                     id="file-picker"
                 />
@@ -1488,7 +2905,7 @@ const App: React.FC = () => {
                   onClick={handleLoadFileClick}
                   disabled={isProcessing}
                   className="p-3 bg-teal-600 hover:bg-teal-700 text-white rounded-md flex items-center gap-2 transition-colors disabled:bg-neutral-700 disabled:text-neutral-400 disabled:cursor-not-allowed"
-                  title="Cargar preguntas desde un archivo CSV o JSON"
+                  title="Cargar preguntas desde un archivo CSV, JSON, Moodle XML o GIFT"
                 >
                   <DocumentPlusIcon className="w-5 h-5" /> Cargar Archivo
                 </button>
@@ -1496,22 +2913,26 @@ const App: React.FC = () => {
                   onClick={handleAddManualQuestion}
                   disabled={isProcessing}
                   className="p-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md flex items-center gap-2 transition-colors disabled:bg-neutral-700 disabled:text-neutral-400 disabled:cursor-not-allowed"
-                  title="AÃ±adir una pregunta manualmente a la tabla"
+                  title="Añadir una pregunta manualmente a la tabla"
                 >
-                  <PlusIcon className="w-5 h-5" /> AÃ±adir Pregunta
+                  <PlusIcon className="w-5 h-5" /> Añadir Pregunta
                 </button>
                 <div className="relative" ref={saveMenuRef}>
                     <button
                         onClick={() => setIsSaveMenuOpen(prev => !prev)}
-                        disabled={isProcessing || generatedQuestions.length === 0 || hasUnknownQuestions}
+                        disabled={isProcessing || generatedQuestions.length === 0 || hasUnknownQuestions || lintBlockedQuestionIds.length > 0}
                         className="p-3 bg-blue-600 hover:bg-blue-700 text-white rounded-md flex items-center gap-2 transition-colors disabled:bg-neutral-700 disabled:text-neutral-400 disabled:cursor-not-allowed"
-                        title={hasUnknownQuestions ? "No se puede guardar: existen preguntas con tipo 'Desconocido'. Por favor, corrÃ­gelas." : "Guardar preguntas"}
+                        title={hasUnknownQuestions
+                            ? "No se puede guardar: existen preguntas con tipo 'Desconocido'. Por favor, corrígelas."
+                            : lintBlockedQuestionIds.length > 0
+                              ? `No se puede guardar: ${lintBlockedQuestionIds.length} pregunta(s) incumplen reglas de calidad marcadas como "Error".`
+                              : "Guardar preguntas"}
                     >
                         <DownloadIcon className="w-5 h-5" /> Guardar
                         <ChevronDownIcon className={`w-4 h-4 transition-transform ${isSaveMenuOpen ? 'rotate-180' : ''}`} />
                     </button>
                     {isSaveMenuOpen && (
-                        <div className="absolute right-0 top-full mt-2 w-48 bg-neutral-800 border border-neutral-700 rounded-md shadow-lg z-20 overflow-hidden">
+                        <div className="absolute right-0 top-full mt-2 w-72 bg-neutral-800 border border-neutral-700 rounded-md shadow-lg z-20 overflow-hidden">
                             <button
                                 onClick={() => handleSave('json')}
                                 className="w-full text-left px-4 py-2 text-sm text-neutral-200 hover:bg-blue-600 flex items-center gap-2"
@@ -1524,12 +2945,88 @@ const App: React.FC = () => {
                             >
                                 Guardar como CSV
                             </button>
+                            <button
+                                onClick={() => handleSave('xml')}
+                                className="w-full text-left px-4 py-2 text-sm text-neutral-200 hover:bg-blue-600 flex items-center gap-2"
+                                title="Formato de importación de preguntas de Moodle. La asignatura y la categoría definen la categoría de destino."
+                            >
+                                Guardar como Moodle XML
+                            </button>
+                            <button
+                                onClick={() => handleSave('gift')}
+                                className="w-full text-left px-4 py-2 text-sm text-neutral-200 hover:bg-blue-600 flex items-center gap-2"
+                                title="Formato de texto GIFT, importable en Moodle y otros LMS."
+                            >
+                                Guardar como GIFT
+                            </button>
+                            <button
+                                onClick={() => handleSave('apkg')}
+                                className="w-full text-left px-4 py-2 text-sm text-neutral-200 hover:bg-blue-600 flex items-center gap-2"
+                                title="Mazo de Anki listo para importar. El mazo toma el nombre de la colección y las etiquetas de la asignatura y la categoría."
+                            >
+                                Guardar como mazo de Anki (.apkg)
+                            </button>
+                            <button
+                                onClick={() => handleSave('tsv')}
+                                className="w-full text-left px-4 py-2 text-sm text-neutral-200 hover:bg-blue-600 flex items-center gap-2"
+                                title="Notas separadas por tabulaciones para 'Importar archivo' en Anki, si el .apkg no funciona en tu versión."
+                            >
+                                Guardar como notas de Anki (TSV)
+                            </button>
+                            <button
+                                onClick={handleOpenExamGenerator}
+                                className="w-full text-left px-4 py-2 text-sm text-neutral-200 hover:bg-blue-600 flex items-center gap-2 border-t border-neutral-700"
+                                title="Examen en papel con varias versiones barajadas, hoja de respuestas y claves. Usa las preguntas seleccionadas, o todas si no hay selección."
+                            >
+                                Examen imprimible...
+                            </button>
                         </div>
                     )}
                 </div>
               </div>
             </div>
 
+            {stagedQuestions.length > 0 && (
+                <RewriteReviewPanel
+                    stagedQuestions={stagedQuestions}
+                    questionsById={new Map<string, QuestionData>(generatedQuestions.map((q: QuestionData) => [q.id, q]))}
+                    disabled={isProcessing}
+                    onAccept={handleAcceptStagedQuestions}
+                    onReject={handleRejectStagedQuestions}
+                    onToggleField={handleToggleStagedField}
+                />
+            )}
+
+            {showHistoryPanel && (
+                <HistoryPanel
+                    history={questionHistory}
+                    disabled={isProcessing}
+                    onJumpTo={handleJumpToHistoryPoint}
+                    onClose={() => setShowHistoryPanel(false)}
+                />
+            )}
+
+            {showLintPanel && (
+                <LintSettingsPanel
+                    settings={lintSettings}
+                    issueCounts={lintIssueCounts}
+                    onChange={updateLintRuleSettings}
+                    onClose={() => setShowLintPanel(false)}
+                />
+            )}
+
+            {showDuplicatePanel && (
+                <DuplicateReviewPanel
+                    groups={duplicateGroups}
+                    questionsById={new Map<string, QuestionData>(generatedQuestions.map((q: QuestionData) => [q.id, q]))}
+                    disabled={isProcessing}
+                    onMerge={handleMergeDuplicateGroup}
+                    onDelete={handleDeleteGeneratedQuestion}
+                    onDismiss={handleDismissDuplicateGroup}
+                    onClose={handleToggleDuplicatePanel}
+                />
+            )}
+
              {selectedQuestionIds.size > 0 && (
                 <div className="mb-3 py-2 px-3 bg-neutral-800 border border-neutral-700 rounded-lg flex items-center justify-between h-[52px] transition-all duration-150">
                     <span className="text-sm text-neutral-300">
@@ -1548,13 +3045,40 @@ const App: React.FC = () => {
                         onClick={handleRewriteSelectedQuestions}
                         disabled={isProcessing}
                         className="px-3 py-1.5 bg-purple-600 hover:bg-purple-700 text-white text-xs rounded-md flex items-center gap-1.5 transition-colors disabled:bg-neutral-600 disabled:text-neutral-400"
-                        title="Adjuntar preguntas seleccionadas para reescritura. Defina la instrucciÃ³n en 'Nueva Solicitud'."
+                        title="Adjuntar preguntas seleccionadas para reescritura. Defina la instrucción en 'Nueva Solicitud'."
                         >
                         <SparklesIcon className="w-4 h-4" /> Reescribir
                         </button>
+                        <button
+                        onClick={handleVerifySelectedQuestions}
+                        disabled={isProcessing || isVerifying}
+                        className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 text-white text-xs rounded-md flex items-center gap-1.5 transition-colors disabled:bg-neutral-600 disabled:text-neutral-400"
+                        title="Comprobar con la IA si el contexto respalda la respuesta, si algún distractor también es correcto y si la explicación es coherente"
+                        >
+                        {isVerifying ? <SpinnerIcon className="w-4 h-4" /> : <CheckCircleIcon className="w-4 h-4" />} {isVerifying ? 'Verificando...' : 'Verificar'}
+                        </button>
+                        <button
+                        onClick={() => setShowMetadataEditor(prev => !prev)}
+                        disabled={isProcessing}
+                        className={`px-3 py-1.5 ${showMetadataEditor ? 'bg-neutral-500' : 'bg-neutral-600'} hover:bg-neutral-500 text-white text-xs rounded-md flex items-center gap-1.5 transition-colors disabled:bg-neutral-600 disabled:text-neutral-400`}
+                        title="Editar etiquetas, dificultad y nivel de Bloom de las preguntas seleccionadas"
+                        aria-expanded={showMetadataEditor}
+                        >
+                        <TagIcon className="w-4 h-4" /> Metadatos
+                        </button>
                     </div>
                 </div>
             )}
+
+            {selectedQuestionIds.size > 0 && showMetadataEditor && (
+                <MetadataBulkEditor
+                    selectedQuestions={generatedQuestions.filter(q => selectedQuestionIds.has(q.id))}
+                    knownTags={knownTags}
+                    disabled={isProcessing}
+                    onApply={(changes) => handleQuestionMetadataChange(Array.from(selectedQuestionIds), changes)}
+                    onClose={() => setShowMetadataEditor(false)}
+                />
+            )}
             
             <div className="mb-4 bg-neutral-800 border border-neutral-700 rounded-lg">
                 <button
@@ -1563,7 +3087,7 @@ const App: React.FC = () => {
                     aria-expanded={isMetadataExpanded}
                     aria-controls="metadata-content"
                 >
-                    <h3 className="text-xl font-semibold text-neutral-200">Metadatos de la ColecciÃ³n</h3>
+                    <h3 className="text-xl font-semibold text-neutral-200">Metadatos de la Colección</h3>
                     {isMetadataExpanded ? <ChevronUpIcon className="w-6 h-6 text-neutral-400" /> : <ChevronDownIcon className="w-6 h-6 text-neutral-400" />}
                 </button>
                 {isMetadataExpanded && (
@@ -1581,14 +3105,14 @@ const App: React.FC = () => {
                         )}
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                             <div>
-                                <label htmlFor="collection-title-input" className="block text-sm font-medium text-neutral-300 mb-1">Nombre de ColecciÃ³n</label>
+                                <label htmlFor="collection-title-input" className="block text-sm font-medium text-neutral-300 mb-1">Nombre de Colección</label>
                                 <div className="relative">
                                     <input
                                         id="collection-title-input"
                                         type="text"
                                         value={collectionTitle}
                                         onChange={(e) => setCollectionTitle(e.target.value)}
-                                        placeholder={isGeneratingMetadata ? "Generando tÃ­tulo..." : "TÃ­tulo para la colecciÃ³n"}
+                                        placeholder={isGeneratingMetadata ? "Generando título..." : "Título para la colección"}
                                         className="w-full p-2 bg-neutral-700 border border-neutral-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-neutral-500 text-neutral-100"
                                         disabled={isProcessing || isGeneratingMetadata}
                                     />
@@ -1603,7 +3127,7 @@ const App: React.FC = () => {
                                         type="text"
                                         value={asignatura}
                                         onChange={(e) => setAsignatura(e.target.value)}
-                                        placeholder={isGeneratingMetadata ? "Generando sugerencia..." : "Ej: BiologÃ­a Celular"}
+                                        placeholder={isGeneratingMetadata ? "Generando sugerencia..." : "Ej: Biología Celular"}
                                         className="w-full p-2 bg-neutral-700 border border-neutral-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-neutral-500 text-neutral-100"
                                         disabled={isProcessing || isGeneratingMetadata}
                                     />
@@ -1611,25 +3135,25 @@ const App: React.FC = () => {
                                 </div>
                             </div>
                             <div className="md:col-span-2">
-                                <label htmlFor="categoria-input" className="block text-sm font-medium text-neutral-300 mb-1">CategorÃ­a</label>
+                                <label htmlFor="categoria-input" className="block text-sm font-medium text-neutral-300 mb-1">Categoría</label>
                                 <input
                                     id="categoria-input"
                                     type="text"
                                     value={categoria}
                                     onChange={(e) => setCategoria(e.target.value)}
-                                    placeholder="PropÃ³sito (Ej: Examen Parcial, Actividad de Repaso). El usuario define esto."
+                                    placeholder="Propósito (Ej: Examen Parcial, Actividad de Repaso). El usuario define esto."
                                     className="w-full p-2 bg-neutral-700 border border-neutral-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-neutral-500 text-neutral-100"
                                     disabled={isProcessing}
                                 />
                             </div>
                             <div className="md:col-span-2">
-                                <label htmlFor="descripcion-input" className="block text-sm font-medium text-neutral-300 mb-1">DescripciÃ³n</label>
+                                <label htmlFor="descripcion-input" className="block text-sm font-medium text-neutral-300 mb-1">Descripción</label>
                                 <div className="relative">
                                     <textarea
                                         id="descripcion-input"
                                         value={descripcion}
                                         onChange={(e) => setDescripcion(e.target.value)}
-                                        placeholder={isGeneratingMetadata ? "Generando descripciÃ³n..." : "Una breve descripciÃ³n del contenido de estudio."}
+                                        placeholder={isGeneratingMetadata ? "Generando descripción..." : "Una breve descripción del contenido de estudio."}
                                         className="w-full h-24 p-2 bg-neutral-700 border border-neutral-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-neutral-500 text-neutral-100 resize-y"
                                         disabled={isProcessing || isGeneratingMetadata}
                                     />
@@ -1641,11 +3165,32 @@ const App: React.FC = () => {
                 )}
             </div>
 
-            <div className="overflow-auto flex-grow border border-neutral-700 rounded-md bg-neutral-900 min-h-[200px]">
+            {generatedQuestions.length > 0 && (
+                <QuestionTableToolbar
+                    view={tableView}
+                    onChange={setTableView}
+                    typeOptions={SORTABLE_QUESTION_TYPES.map(type => ({ type, label: getTypeVisualInfo(type).label }))}
+                    requestOptions={tableRequestOptions}
+                    statusOptions={[
+                        ...Object.values(QuestionVerificationStatus).map(status => ({ value: status, label: VERIFICATION_LABELS[status].label })),
+                        { value: 'unchecked', label: 'Sin verificar' },
+                        { value: 'flagged', label: 'Marcadas en práctica' },
+                    ]}
+                    knownTags={knownTags}
+                    visibleCount={visibleQuestions.length}
+                    totalCount={generatedQuestions.length}
+                />
+            )}
+
+            <datalist id="knownQuestionTags">
+                {knownTags.map(tag => <option key={tag} value={tag} />)}
+            </datalist>
+
+            <div ref={questionTableScrollRef} className="overflow-auto flex-grow border border-neutral-700 rounded-md bg-neutral-900 min-h-[200px] max-h-[75vh]">
               {generatedQuestions.length === 0 ? (
                  <div className="p-10 text-center text-neutral-400">
-                  <p className="italic">AÃºn no se han generado preguntas.</p>
-                  <p>Completa el contexto, aÃ±ade solicitudes y haz clic en "Procesar Cola", o aÃ±ade una pregunta manualmente.</p>
+                  <p className="italic">Aún no se han generado preguntas.</p>
+                  <p>Completa el contexto, añade solicitudes y haz clic en "Procesar Cola", o añade una pregunta manualmente.</p>
                 </div>
               ) : (
               <table className="min-w-full text-sm text-left text-neutral-100 table-fixed">
@@ -1668,16 +3213,16 @@ const App: React.FC = () => {
                             case "Pregunta":
                                 thClassName += "w-[20%] min-w-[200px]";
                                 break;
-                            case "ExplicaciÃ³n":
+                            case "Explicación":
                                 thClassName += "w-[20%] min-w-[200px]";
                                 break;
                             case "Tipo":
-                            case "OpciÃ³n correcta 1":
-                            case "OpciÃ³n Correcta 2":
-                            case "OpciÃ³n Correcta 3":
-                            case "OpciÃ³n Incorrecta 1":
-                            case "OpciÃ³n Incorrecta 2":
-                            case "OpciÃ³n Incorrecta 3":
+                            case "Opción correcta 1":
+                            case "Opción Correcta 2":
+                            case "Opción Correcta 3":
+                            case "Opción Incorrecta 1":
+                            case "Opción Incorrecta 2":
+                            case "Opción Incorrecta 3":
                                 thClassName += "w-[7%] min-w-[110px]"; 
                                 break;
                             default: 
@@ -1690,69 +3235,26 @@ const App: React.FC = () => {
                     <th scope="col" className="px-3 py-3 w-[6%] min-w-[80px]">Acciones</th>
                   </tr>
                 </thead>
-                <tbody>
-                  {generatedQuestions.map((q) => {
-                    const typeInfo = getQuestionTypeInfo(q);
-                    const isRowExpanded = expandedQuestionId === q.id;
-                    const isSelected = isQuestionSelected(q.id);
-                    return (
-                    <tr 
-                        key={q.id} 
-                        id={q.id} // Added ID for scrolling
-                        className={`${isSelected ? 'bg-neutral-700' : 'bg-neutral-900'} border-b border-neutral-800 hover:bg-neutral-800 transition-colors group ${typeInfo.type === QuestionDisplayType.Unknown ? 'outline outline-2 outline-red-500' : ''}`}
-                    >
-                      <td className="px-2 py-1 align-top text-center" onClick={(e: React.MouseEvent<HTMLTableCellElement>) => { e.stopPropagation(); handleRowSelectionToggle(q.id, e.nativeEvent.shiftKey); }}>
-                        <input
-                          type="checkbox"
-                          className="form-checkbox h-4 w-4 text-blue-500 bg-neutral-700 border-neutral-600 rounded focus:ring-blue-500 focus:ring-offset-0 focus:ring-offset-transparent cursor-pointer"
-                          checked={isSelected}
-                          readOnly // The state is controlled by the td's onClick
-                          aria-label={`Seleccionar pregunta: ${q.Pregunta.substring(0, 50)}`}
-                          disabled={isProcessing}
-                        />
-                      </td>
-                      <td className="px-2 py-1 align-top cursor-pointer" title={typeInfo.description} onClick={() => handleRowExpandToggle(q.id)}>
-                          <div className="flex items-center gap-1.5">
-                            {typeInfo.icon}
-                            <span className={`text-xs font-medium ${typeInfo.colorClass}`}>{typeInfo.label}</span>
-                          </div>
-                      </td>
-                      {CSV_HEADERS.map(header => {
-                         const fieldKey = CSV_HEADER_TO_QUESTION_DATA_KEY_MAP[header];
-                         const cellBaseClasses = "text-neutral-200 min-h-[3em]"; 
-                         const cellDynamicClasses = isRowExpanded 
-                            ? "whitespace-pre-wrap break-words" 
-                            : "truncate-3-lines"; 
-                         return (
-                            <td key={`${q.id}-${header}`} className="px-2 py-1 align-top cursor-pointer" onClick={() => handleRowExpandToggle(q.id)}>
-                                <div onClick={(e) => e.stopPropagation()}> 
-                                    <EditableCell
-                                        value={q[fieldKey]}
-                                        onSave={(newValue) => handleQuestionEdit(q.id, fieldKey, newValue)}
-                                        multiline={fieldKey === 'Pregunta' || fieldKey === 'ExplicaciÃ³n'}
-                                        className={`${cellBaseClasses} ${cellDynamicClasses}`}
-                                        placeholder={header}
-                                        isInitiallyEditing={q.Pregunta === '' && fieldKey === 'Pregunta'} // Auto-edit if new manual question
-                                    />
-                                </div>
-                            </td>
-                         );
-                      })}
-                      <td className="px-2 py-1 align-top text-center">
-                        <div onClick={(e) => e.stopPropagation()}> 
-                            <button 
-                                onClick={() => handleDeleteGeneratedQuestion(q.id)}
-                                disabled={isProcessing}
-                                className="p-1.5 text-red-400 hover:text-red-300 disabled:text-neutral-500 disabled:cursor-not-allowed"
-                                title="Eliminar esta pregunta"
-                            >
-                                <TrashIcon className="w-5 h-5"/>
-                            </button>
-                        </div>
-                      </td>
-                    </tr>
-                  )})}
-                </tbody>
+                {virtualQuestionRows.paddingTop > 0 && (
+                  <tbody aria-hidden="true"><tr style={{ height: virtualQuestionRows.paddingTop }}><td colSpan={CSV_HEADERS.length + 3} className="p-0" /></tr></tbody>
+                )}
+                {virtualQuestionRows.items.map((q) => (
+                  <QuestionTableRow
+                    key={q.id}
+                    question={q}
+                    typeInfo={getQuestionTypeInfo(q)}
+                    isSelected={isQuestionSelected(q.id)}
+                    isExpanded={expandedQuestionId === q.id}
+                    lintIssues={lintIssuesByQuestion.get(q.id) || NO_LINT_ISSUES}
+                    disabled={isProcessing}
+                    knownTagsListId="knownQuestionTags"
+                    handlers={rowHandlers}
+                    observeRow={virtualQuestionRows.observeRow}
+                  />
+                ))}
+                {virtualQuestionRows.paddingBottom > 0 && (
+                  <tbody aria-hidden="true"><tr style={{ height: virtualQuestionRows.paddingBottom }}><td colSpan={CSV_HEADERS.length + 3} className="p-0" /></tr></tbody>
+                )}
               </table>
               )}
             </div>
@@ -1762,9 +3264,11 @@ const App: React.FC = () => {
       <footer className="w-full mt-12 text-center text-sm text-neutral-400">
         <p>Desarrollado con React, TypeScript, Tailwind CSS y Gemini API.</p>
         <p>
-          {currentStoredUserApiKey 
-            ? "Usando clave API proporcionada por el usuario." 
-            : (process.env.API_KEY ? "Usando clave API del entorno." : "Advertencia: Clave API no configurada.")
+          {llmProviderSettings.providerId === LlmProviderId.OpenAiCompatible
+            ? `Usando servidor compatible con OpenAI${llmProviderSettings.openAiModel ? ` (${llmProviderSettings.openAiModel})` : ''} en ${llmProviderSettings.openAiBaseUrl || 'URL no configurada'}.`
+            : currentStoredUserApiKey 
+              ? "Usando clave API de Gemini proporcionada por el usuario." 
+              : (process.env.API_KEY ? "Usando clave API de Gemini del entorno." : "Advertencia: Clave API no configurada.")
           }
            Puedes cambiar esto en <button onClick={handleOpenConfigModal} className="underline hover:text-blue-300">Inteligencia Artificial</button>.
         </p>
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { QuestionTextField } from '../types';
+import { CsvColumnTarget, ColumnMappingSuggestion, ColumnSuggestionSource, MAPPABLE_FIELDS } from '../utils/csvColumnMapping';
+import { XMarkIcon, DocumentPlusIcon } from './icons';
+
+interface CsvImportWizardProps {
+  fileName: string;
+  headers: string[];
+  rows: string[][]; // Data rows (without the header)
+  suggestion: ColumnMappingSuggestion;
+  onConfirm: (mapping: CsvColumnTarget[], rememberMapping: boolean) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROW_COUNT = 5;
+
+const SOURCE_LABELS: Record<ColumnSuggestionSource, { label: string; className: string }> = {
+  exact: { label: 'Exacta', className: 'bg-green-900 text-green-200' },
+  synonym: { label: 'Sinónimo', className: 'bg-blue-900 text-blue-200' },
+  fuzzy: { label: 'Aproximada', className: 'bg-amber-900 text-amber-200' },
+  remembered: { label: 'Recordada', className: 'bg-purple-900 text-purple-200' },
+};
+
+const CsvImportWizard: React.FC<CsvImportWizardProps> = ({ fileName, headers, rows, suggestion, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<CsvColumnTarget[]>(suggestion.mapping);
+  const [sources, setSources] = useState<(ColumnSuggestionSource | null)[]>(suggestion.sources);
+  const [rememberMapping, setRememberMapping] = useState(true);
+
+  // A field can only come from one column: choosing it for a column clears it from any other.
+  const handleTargetChange = (column: number, value: string) => {
+    const target = value === '' ? null : (value as QuestionTextField);
+    setMapping(prev => prev.map((current, index) => {
+      if (index === column) return target;
+      return target !== null && current === target ? null : current;
+    }));
+    setSources(prev => prev.map((source, index) => (index === column || (target !== null && mapping[index] === target) ? null : source)));
+  };
+
+  const isQuestionMapped = mapping.includes('Pregunta');
+  const ignoredCount = mapping.filter(target => target === null).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-neutral-800 p-6 rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-2xl font-semibold text-neutral-100">Importar CSV: asignar columnas</h2>
+          <button onClick={onCancel} className="p-1 text-neutral-400 hover:text-neutral-100" aria-label="Cancelar importación">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <p className="text-sm text-neutral-400 mb-4">
+          La cabecera de "{fileName}" no coincide con el formato de la aplicación. Elige a qué campo corresponde cada columna
+          o déjala en "Ignorar". Se muestran las primeras {Math.min(PREVIEW_ROW_COUNT, rows.length)} de {rows.length} fila(s).
+        </p>
+
+        <div className="overflow-auto border border-neutral-700 rounded-md">
+          <table className="min-w-full text-left text-xs">
+            <thead className="bg-neutral-900 sticky top-0">
+              <tr>
+                {headers.map((header, column) => {
+                  const source = sources[column];
+                  return (
+                    <th key={column} className="p-2 align-top min-w-[10rem] border-r border-neutral-700">
+                      <div className="font-semibold text-neutral-200 truncate mb-1" title={header}>{header || <span className="italic text-neutral-500">(sin nombre)</span>}</div>
+                      <select
+                        value={mapping[column] ?? ''}
+                        onChange={(e) => handleTargetChange(column, e.target.value)}
+                        className={`w-full p-1 bg-neutral-700 border rounded text-xs ${mapping[column] ? 'border-blue-500 text-neutral-100' : 'border-neutral-600 text-neutral-400'}`}
+                        aria-label={`Campo para la columna ${header}`}
+                      >
+                        <option value="">Ignorar</option>
+                        {MAPPABLE_FIELDS.map(field => (
+                          <option key={field} value={field}>{String(field)}</option>
+                        ))}
+                      </select>
+                      {source && (
+                        <span className={`inline-block mt-1 px-1.5 py-0.5 rounded font-normal ${SOURCE_LABELS[source].className}`}>
+                          {SOURCE_LABELS[source].label}
+                        </span>
+                      )}
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.slice(0, PREVIEW_ROW_COUNT).map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-t border-neutral-700">
+                  {headers.map((_, column) => (
+                    <td key={column} className={`p-2 align-top border-r border-neutral-700 ${mapping[column] ? 'text-neutral-200' : 'text-neutral-500'}`}>
+                      <div className="truncate-3-lines whitespace-pre-wrap break-words max-w-xs">{row[column] ?? ''}</div>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-4 flex flex-wrap justify-between items-center gap-3">
+          <div className="text-xs">
+            {!isQuestionMapped ? (
+              <p className="text-red-400">Asigna al menos una columna al campo "Pregunta".</p>
+            ) : (
+              <p className="text-neutral-400">{ignoredCount > 0 ? `${ignoredCount} columna(s) se ignorarán.` : 'Se importarán todas las columnas.'}</p>
+            )}
+            <label className="mt-1 flex items-center gap-2 text-neutral-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={rememberMapping}
+                onChange={(e) => setRememberMapping(e.target.checked)}
+                className="form-checkbox h-4 w-4 text-blue-500 bg-neutral-700 border-neutral-600 rounded"
+              />
+              Recordar esta asignación para archivos con las mismas columnas
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onCancel} className="px-4 py-2 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded-md text-sm">
+              Cancelar
+            </button>
+            <button
+              onClick={() => onConfirm(mapping, rememberMapping)}
+              disabled={!isQuestionMapped}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-semibold flex items-center gap-2 disabled:bg-neutral-700 disabled:text-neutral-400 disabled:cursor-not-allowed"
+            >
+              <DocumentPlusIcon className="w-5 h-5" /> Importar {rows.length} fila(s)
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportWizard;
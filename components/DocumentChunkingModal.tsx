@@ -0,0 +1,137 @@
+import React, { useState, useMemo } from 'react';
+import { DEFAULT_DOCUMENT_CHUNK_TOKENS } from '../constants';
+import { DocumentSection, DocumentChunk, extractDocumentSections, chunkDocumentSections } from '../utils/documentChunker';
+import { XMarkIcon, ScissorsIcon, ProcessingIcon } from './icons';
+
+interface DocumentChunkingModalProps {
+  defaultInstruction: string; // Pre-filled from the request form
+  onConfirm: (sourceFile: File, chunks: DocumentChunk[], instruction: string) => void;
+  onCancel: () => void;
+}
+
+const DEFAULT_INSTRUCTION = 'Genera preguntas que cubran los conceptos principales de este fragmento.';
+const MIN_CHUNK_TOKENS = 500;
+
+const DocumentChunkingModal: React.FC<DocumentChunkingModalProps> = ({ defaultInstruction, onConfirm, onCancel }) => {
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [sections, setSections] = useState<DocumentSection[] | null>(null);
+  const [maxTokens, setMaxTokens] = useState<number>(DEFAULT_DOCUMENT_CHUNK_TOKENS);
+  const [instruction, setInstruction] = useState<string>(defaultInstruction.trim() || DEFAULT_INSTRUCTION);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Extraction (slow for big PDFs) runs once per file; changing the budget only re-packs the sections.
+  const chunks = useMemo(
+    () => (sections ? chunkDocumentSections(sections, Math.max(MIN_CHUNK_TOKENS, maxTokens || DEFAULT_DOCUMENT_CHUNK_TOKENS)) : []),
+    [sections, maxTokens]
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setSourceFile(file);
+    setSections(null);
+    setError(null);
+    setIsExtracting(true);
+    try {
+      setSections(await extractDocumentSections(file));
+    } catch (err: any) {
+      setError(err.message || 'No se pudo leer el documento.');
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const totalTokens = chunks.reduce((sum, chunk) => sum + chunk.estimatedTokens, 0);
+  const canConfirm = !!sourceFile && chunks.length > 0 && instruction.trim() !== '';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-neutral-800 p-6 rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-2xl font-semibold text-neutral-100">Generar desde documento</h2>
+          <button onClick={onCancel} className="p-1 text-neutral-400 hover:text-neutral-100" aria-label="Cerrar">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <p className="text-sm text-neutral-400 mb-4">
+          El documento se divide en fragmentos (por páginas en PDF, por encabezados en texto/Markdown) y se crea una solicitud por
+          fragmento. Cada solicitud envía solo su fragmento, sin el contexto general, y las preguntas quedan etiquetadas con su origen.
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-3">
+          <div className="sm:col-span-2">
+            <label htmlFor="chunkDocumentInput" className="block text-xs font-medium text-neutral-400 mb-1">Documento (.pdf, .txt, .md)</label>
+            <input
+              type="file"
+              id="chunkDocumentInput"
+              accept="application/pdf,.pdf,text/*,.txt,.md"
+              onChange={handleFileChange}
+              className="w-full text-sm text-neutral-400 file:mr-2 file:py-1 file:px-2 file:rounded file:border-0 file:text-xs file:font-semibold file:bg-blue-600 file:text-white hover:file:bg-blue-700"
+            />
+          </div>
+          <div>
+            <label htmlFor="chunkTokensInput" className="block text-xs font-medium text-neutral-400 mb-1">Tokens por fragmento (aprox.)</label>
+            <input
+              type="number"
+              id="chunkTokensInput"
+              min={MIN_CHUNK_TOKENS}
+              step={500}
+              value={maxTokens}
+              onChange={(e) => setMaxTokens(parseInt(e.target.value, 10))}
+              className="w-full p-1.5 bg-neutral-700 border border-neutral-600 rounded-md text-sm text-neutral-100"
+            />
+          </div>
+        </div>
+
+        <label htmlFor="chunkInstructionInput" className="block text-xs font-medium text-neutral-400 mb-1">Instrucción para cada fragmento</label>
+        <textarea
+          id="chunkInstructionInput"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          className="w-full p-2 mb-3 bg-neutral-700 border border-neutral-600 rounded-md text-sm text-neutral-100 h-16 resize-y"
+        />
+
+        <div className="flex-grow overflow-y-auto border border-neutral-700 rounded-md bg-neutral-900 min-h-[6rem]">
+          {isExtracting && (
+            <p className="p-3 text-sm text-neutral-400 flex items-center gap-2"><ProcessingIcon className="w-4 h-4" /> Leyendo "{sourceFile?.name}"...</p>
+          )}
+          {error && <p className="p-3 text-sm text-red-400">{error}</p>}
+          {!isExtracting && !error && !sourceFile && <p className="p-3 text-sm text-neutral-500 italic">Elige un documento para ver sus fragmentos.</p>}
+          {chunks.length > 0 && (
+            <ol className="divide-y divide-neutral-800 text-xs">
+              {chunks.map((chunk, index) => (
+                <li key={index} className="p-2 flex justify-between gap-3">
+                  <span className="text-neutral-200 truncate" title={chunk.text.substring(0, 300)}>
+                    <span className="text-neutral-500 mr-1">{index + 1}.</span>{chunk.title}
+                  </span>
+                  <span className="text-neutral-400 flex-shrink-0">~{chunk.estimatedTokens.toLocaleString('es-ES')} tokens</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <div className="mt-4 flex flex-wrap justify-between items-center gap-3">
+          <p className="text-xs text-neutral-400">
+            {chunks.length > 0 ? `${chunks.length} fragmento(s), ~${totalTokens.toLocaleString('es-ES')} tokens en total. Se usan la intensidad y el objetivo de preguntas del formulario.` : ''}
+          </p>
+          <div className="flex gap-2">
+            <button onClick={onCancel} className="px-4 py-2 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded-md text-sm">
+              Cancelar
+            </button>
+            <button
+              onClick={() => sourceFile && onConfirm(sourceFile, chunks, instruction.trim())}
+              disabled={!canConfirm}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-semibold flex items-center gap-2 disabled:bg-neutral-700 disabled:text-neutral-400 disabled:cursor-not-allowed"
+            >
+              <ScissorsIcon className="w-5 h-5" /> Crear {chunks.length} solicitud(es)
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentChunkingModal;
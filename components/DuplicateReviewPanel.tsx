@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { QuestionData } from '../types';
+import { DuplicateGroup } from '../utils/duplicateDetection';
+import { XMarkIcon, TrashIcon, DocumentDuplicateIcon } from './icons';
+
+interface DuplicateReviewPanelProps {
+  groups: DuplicateGroup[];
+  questionsById: Map<string, QuestionData>;
+  disabled?: boolean;
+  onMerge: (group: DuplicateGroup, keptId: string) => void;
+  onDelete: (questionId: string) => void;
+  onDismiss: (group: DuplicateGroup) => void; // Hides the group until the panel is reopened
+  onClose: () => void;
+}
+
+const getGroupKey = (group: DuplicateGroup) => group.questionIds.join('|');
+
+const DuplicateReviewPanel: React.FC<DuplicateReviewPanelProps> = ({ groups, questionsById, disabled = false, onMerge, onDelete, onDismiss, onClose }) => {
+  const [keptIds, setKeptIds] = useState<Record<string, string>>({}); // Group key -> question to keep
+
+  const renderGroup = (group: DuplicateGroup) => {
+    const groupKey = getGroupKey(group);
+    const keptId = keptIds[groupKey] && group.questionIds.includes(keptIds[groupKey]) ? keptIds[groupKey] : group.questionIds[0];
+    return (
+      <li key={groupKey} className="p-3 bg-neutral-900 border border-neutral-700 rounded-md">
+        <div className="flex justify-between items-center gap-2 mb-2">
+          <span className={`inline-block px-2 py-0.5 rounded text-xs font-semibold ${group.exact ? 'bg-red-900 text-red-200' : 'bg-yellow-900 text-yellow-200'}`}>
+            {group.exact ? 'Duplicado exacto' : `Casi duplicado (similitud ≥ ${Math.round(group.similarity * 100)} %)`}
+          </span>
+          <div className="flex gap-1 flex-shrink-0">
+            <button
+              onClick={() => onDismiss(group)}
+              disabled={disabled}
+              className="px-2 py-1 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 text-xs rounded disabled:text-neutral-500"
+              title="No son duplicados: ocultar este grupo"
+            >
+              Ignorar
+            </button>
+            <button
+              onClick={() => onMerge(group, keptId)}
+              disabled={disabled}
+              className="px-2 py-1 bg-blue-600 hover:bg-blue-700 text-white text-xs rounded disabled:bg-neutral-700 disabled:text-neutral-400"
+              title="Conserva la pregunta marcada (completando su explicación si está vacía) y elimina las demás"
+            >
+              Fusionar en la marcada
+            </button>
+          </div>
+        </div>
+        <ul className="space-y-1">
+          {group.questionIds.map(id => {
+            const question = questionsById.get(id);
+            if (!question) return null;
+            return (
+              <li key={id} className="flex items-start gap-2 text-xs">
+                <input
+                  type="radio"
+                  name={`keep-${groupKey}`}
+                  checked={keptId === id}
+                  onChange={() => setKeptIds(prev => ({ ...prev, [groupKey]: id }))}
+                  disabled={disabled}
+                  className="mt-0.5 form-radio h-3.5 w-3.5 text-blue-500 bg-neutral-700 border-neutral-600 cursor-pointer"
+                  aria-label="Conservar esta pregunta al fusionar"
+                />
+                <div className="flex-grow min-w-0">
+                  <p className="text-neutral-200 whitespace-pre-wrap break-words">{question.Pregunta}</p>
+                  <p className="text-neutral-500 truncate">
+                    Respuesta: {question['Opción correcta 1'] || question['Opción Correcta 2'] || '(vacía)'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onDelete(id)}
+                  disabled={disabled}
+                  className="p-1 text-red-400 hover:text-red-300 disabled:text-neutral-500 flex-shrink-0"
+                  title="Eliminar esta pregunta"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </li>
+    );
+  };
+
+  return (
+    <div className="mb-3 bg-neutral-800 border border-yellow-700 rounded-lg">
+      <div className="flex justify-between items-center px-3 py-2 border-b border-neutral-700">
+        <h3 className="text-sm font-semibold text-neutral-200 flex items-center gap-2">
+          <DocumentDuplicateIcon className="w-4 h-4 text-yellow-400" />
+          Preguntas duplicadas ({groups.length} grupo(s))
+        </h3>
+        <button onClick={onClose} className="p-1 text-neutral-400 hover:text-neutral-100" aria-label="Cerrar duplicados">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+      {groups.length === 0 ? (
+        <p className="p-3 text-xs italic text-neutral-400">No hay preguntas duplicadas ni casi duplicadas en el banco.</p>
+      ) : (
+        <ul className="p-3 space-y-3 max-h-[32rem] overflow-y-auto">
+          {groups.map(renderGroup)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateReviewPanel;
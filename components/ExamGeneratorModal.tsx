@@ -0,0 +1,207 @@
+import React, { useState, useMemo } from 'react';
+import { QuestionData, QuestionDisplayType, QuestionTypeVisualInfo } from '../types';
+import { ExamSettings, ExamHeader, ExamVersion, EXAM_QUESTION_TYPES, MAX_EXAM_VERSIONS, loadExamSettings, saveExamSettings, buildExamVersions } from '../utils/examBuilder';
+import { getQuestionDisplayType } from '../utils/questionType';
+import { collectTags, hasTag } from '../utils/questionMetadata';
+import { XMarkIcon, ArrowsRightLeftIcon, DownloadIcon } from './icons';
+
+interface ExamGeneratorModalProps {
+  questions: QuestionData[]; // Candidate questions; the tag filter and type checkboxes narrow them down
+  defaultHeader: ExamHeader;
+  getTypeInfo: (question: QuestionData) => QuestionTypeVisualInfo;
+  onPrint: (kind: 'exam' | 'key', versions: ExamVersion[], header: ExamHeader, instructions: string) => void;
+  onClose: () => void;
+}
+
+const ExamGeneratorModal: React.FC<ExamGeneratorModalProps> = ({ questions, defaultHeader, getTypeInfo, onPrint, onClose }) => {
+  const [settings, setSettings] = useState<ExamSettings>(loadExamSettings);
+  const [header, setHeader] = useState<ExamHeader>(defaultHeader);
+  const [shuffleCount, setShuffleCount] = useState(0); // Bumped by "Barajar de nuevo"
+  const [tag, setTag] = useState(''); // '' takes every candidate; not remembered, tags belong to a bank
+
+  const updateSettings = (changes: Partial<ExamSettings>) => {
+    setSettings(prev => {
+      const updated = { ...prev, ...changes };
+      saveExamSettings(updated);
+      return updated;
+    });
+  };
+
+  const availableTags = useMemo(() => collectTags(questions), [questions]);
+  const examQuestions = useMemo(() => (tag ? questions.filter(q => hasTag(q, tag)) : questions), [questions, tag]);
+
+  const questionsByType = useMemo(() => {
+    const grouped = new Map<QuestionDisplayType, QuestionData[]>();
+    examQuestions.forEach(question => {
+      const type = getQuestionDisplayType(question);
+      grouped.set(type, [...(grouped.get(type) || []), question]);
+    });
+    return grouped;
+  }, [examQuestions]);
+
+  // Instructions are left out on purpose: editing them must not reshuffle the versions.
+  const versions = useMemo(
+    () => buildExamVersions(examQuestions, settings),
+    [examQuestions, settings.versionCount, settings.includedTypes, settings.pointsByType, shuffleCount]
+  );
+  const questionCount = versions[0]?.items.length || 0;
+  const totalPoints = versions[0]?.items.reduce((total, item) => total + item.points, 0) || 0;
+
+  const toggleType = (type: QuestionDisplayType) => {
+    const includedTypes = settings.includedTypes.includes(type)
+      ? settings.includedTypes.filter(t => t !== type)
+      : EXAM_QUESTION_TYPES.filter(t => t === type || settings.includedTypes.includes(t));
+    updateSettings({ includedTypes });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-neutral-800 p-6 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-2xl font-semibold text-neutral-100">Examen imprimible</h2>
+          <button onClick={onClose} className="p-1 text-neutral-400 hover:text-neutral-100" aria-label="Cerrar examen imprimible">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <p className="text-sm text-neutral-400 mb-4">
+          Cada versión lleva las mismas preguntas en distinto orden y con las opciones barajadas, una hoja de respuestas
+          y su propia clave con las explicaciones. Se abre en una pestaña nueva para imprimir o guardar como PDF.
+        </p>
+
+        <div className="overflow-y-auto space-y-4 pr-1">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="examTitle" className="block text-xs font-medium text-neutral-300 mb-1">Título</label>
+              <input
+                id="examTitle"
+                type="text"
+                value={header.title}
+                onChange={(e) => setHeader(prev => ({ ...prev, title: e.target.value }))}
+                className="w-full p-2 bg-neutral-700 border border-neutral-600 rounded-md text-sm text-neutral-100"
+              />
+            </div>
+            <div>
+              <label htmlFor="examSubject" className="block text-xs font-medium text-neutral-300 mb-1">Asignatura</label>
+              <input
+                id="examSubject"
+                type="text"
+                value={header.subject}
+                onChange={(e) => setHeader(prev => ({ ...prev, subject: e.target.value }))}
+                className="w-full p-2 bg-neutral-700 border border-neutral-600 rounded-md text-sm text-neutral-100"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="examInstructions" className="block text-xs font-medium text-neutral-300 mb-1">Instrucciones</label>
+            <textarea
+              id="examInstructions"
+              rows={2}
+              value={settings.instructions}
+              onChange={(e) => updateSettings({ instructions: e.target.value })}
+              className="w-full p-2 bg-neutral-700 border border-neutral-600 rounded-md text-sm text-neutral-100"
+            />
+          </div>
+
+          {availableTags.length > 0 && (
+            <div>
+              <label htmlFor="examTag" className="block text-xs font-medium text-neutral-300 mb-1">Etiqueta</label>
+              <select
+                id="examTag"
+                value={tag}
+                onChange={(e) => setTag(e.target.value)}
+                className="w-full p-2 bg-neutral-700 border border-neutral-600 rounded-md text-sm text-neutral-100"
+              >
+                <option value="">Todas las preguntas ({questions.length})</option>
+                {availableTags.map(t => <option key={t} value={t}>{t} ({questions.filter(q => hasTag(q, t)).length})</option>)}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-xs font-medium text-neutral-300 mb-1">Tipos de pregunta y puntos por pregunta</h3>
+            <ul className="space-y-1">
+              {EXAM_QUESTION_TYPES.filter(type => questionsByType.has(type)).map(type => {
+                const available = questionsByType.get(type)!;
+                const isIncluded = settings.includedTypes.includes(type);
+                const typeInfo = getTypeInfo(available[0]);
+                return (
+                  <li key={type} className="flex items-center gap-2 px-2 py-1 bg-neutral-900 rounded-md text-sm">
+                    <input
+                      type="checkbox"
+                      id={`exam-type-${type}`}
+                      checked={isIncluded}
+                      onChange={() => toggleType(type)}
+                      className="form-checkbox h-4 w-4 text-blue-500 bg-neutral-700 border-neutral-600 rounded cursor-pointer"
+                    />
+                    <label htmlFor={`exam-type-${type}`} className="flex-grow flex items-center gap-1.5 text-neutral-200 cursor-pointer">
+                      {typeInfo.icon}
+                      <span className={typeInfo.colorClass}>{typeInfo.label}</span>
+                      <span className="text-neutral-500 text-xs">({available.length})</span>
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.25}
+                      value={settings.pointsByType[type]}
+                      onChange={(e) => updateSettings({ pointsByType: { ...settings.pointsByType, [type]: Math.max(0, Number(e.target.value) || 0) } })}
+                      disabled={!isIncluded}
+                      className="w-20 p-1 bg-neutral-700 border border-neutral-600 rounded text-xs text-neutral-100 text-right"
+                      aria-label={`Puntos por pregunta de tipo ${typeInfo.label}`}
+                    />
+                    <span className="text-xs text-neutral-400">pt</span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <label htmlFor="examVersions" className="text-xs font-medium text-neutral-300">Versiones</label>
+            <input
+              id="examVersions"
+              type="number"
+              min={1}
+              max={MAX_EXAM_VERSIONS}
+              value={settings.versionCount}
+              onChange={(e) => updateSettings({ versionCount: Math.min(MAX_EXAM_VERSIONS, Math.max(1, Math.floor(Number(e.target.value) || 1))) })}
+              className="w-16 p-1 bg-neutral-700 border border-neutral-600 rounded text-sm text-neutral-100"
+            />
+            <button
+              onClick={() => setShuffleCount(prev => prev + 1)}
+              className="px-3 py-1.5 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 text-xs rounded-md flex items-center gap-1.5"
+              title="Vuelve a barajar el orden de las preguntas y de las opciones de todas las versiones"
+            >
+              <ArrowsRightLeftIcon className="w-4 h-4" /> Barajar de nuevo
+            </button>
+            <span className="text-xs text-neutral-400 ml-auto">
+              {questionCount} pregunta(s) · {totalPoints.toLocaleString('es-ES')} punto(s) por versión
+            </span>
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded-md text-sm">
+            Cancelar
+          </button>
+          <button
+            onClick={() => onPrint('key', versions, header, settings.instructions)}
+            disabled={questionCount === 0}
+            className="px-4 py-2 bg-neutral-600 hover:bg-neutral-500 text-white rounded-md text-sm flex items-center gap-2 disabled:bg-neutral-700 disabled:text-neutral-400 disabled:cursor-not-allowed"
+          >
+            <DownloadIcon className="w-4 h-4" /> Imprimir claves
+          </button>
+          <button
+            onClick={() => onPrint('exam', versions, header, settings.instructions)}
+            disabled={questionCount === 0}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-semibold flex items-center gap-2 disabled:bg-neutral-700 disabled:text-neutral-400 disabled:cursor-not-allowed"
+          >
+            <DownloadIcon className="w-4 h-4" /> Imprimir exámenes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExamGeneratorModal;
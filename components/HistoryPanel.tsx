@@ -0,0 +1,60 @@
+import React from 'react';
+import { QuestionHistory, getHistoryTimeline } from '../utils/questionHistory';
+import { LOG_TIMESTAMP_FORMAT } from '../constants';
+import { XMarkIcon } from './icons';
+
+interface HistoryPanelProps {
+  history: QuestionHistory;
+  disabled?: boolean;
+  onJumpTo: (appliedCount: number) => void; // Number of timeline entries that should end up applied
+  onClose: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, disabled = false, onJumpTo, onClose }) => {
+  const timeline = getHistoryTimeline(history);
+  const appliedCount = history.undoStack.length;
+
+  const itemClassName = (isCurrent: boolean, isUndone: boolean) =>
+    `w-full text-left px-3 py-1.5 text-xs rounded flex justify-between gap-2 transition-colors disabled:cursor-not-allowed ${
+      isCurrent ? 'bg-blue-900 text-blue-200 font-semibold' : isUndone ? 'text-neutral-500 hover:bg-neutral-700' : 'text-neutral-200 hover:bg-neutral-700'
+    }`;
+
+  return (
+    <div className="mb-3 bg-neutral-800 border border-neutral-700 rounded-lg">
+      <div className="flex justify-between items-center px-3 py-2 border-b border-neutral-700">
+        <h3 className="text-sm font-semibold text-neutral-200">Historial de cambios ({timeline.length})</h3>
+        <button onClick={onClose} className="p-1 text-neutral-400 hover:text-neutral-100" aria-label="Cerrar historial">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <ol className="max-h-56 overflow-y-auto p-1 space-y-0.5">
+        <li>
+          <button onClick={() => onJumpTo(0)} disabled={disabled || appliedCount === 0} className={itemClassName(appliedCount === 0, false)}>
+            <span className="italic">Estado inicial</span>
+          </button>
+        </li>
+        {timeline.map((command, index) => {
+          const position = index + 1;
+          return (
+            <li key={command.id}>
+              <button
+                onClick={() => onJumpTo(position)}
+                disabled={disabled || position === appliedCount}
+                className={itemClassName(position === appliedCount, position > appliedCount)}
+                title={position > appliedCount ? "Deshecho. Haz clic para rehacer hasta este punto." : "Haz clic para volver a este punto."}
+              >
+                <span className="truncate">{command.label}</span>
+                <span className="flex-shrink-0 text-neutral-500">{new Date(command.timestamp).toLocaleTimeString(undefined, LOG_TIMESTAMP_FORMAT)}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+      {timeline.length === 0 && (
+        <p className="px-3 pb-2 text-xs italic text-neutral-400">Aún no hay cambios. Las ediciones, eliminaciones, importaciones y reescrituras aparecerán aquí.</p>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { QUESTION_LINT_RULES, QuestionLintSettings, LintRuleId, LintRuleSettings, LintSeverity } from '../utils/questionLinter';
+import { XMarkIcon } from './icons';
+
+interface LintSettingsPanelProps {
+  settings: QuestionLintSettings;
+  issueCounts: Map<LintRuleId, number>; // Questions currently flagged by each rule
+  onChange: (ruleId: LintRuleId, changes: Partial<LintRuleSettings>) => void;
+  onClose: () => void;
+}
+
+const LintSettingsPanel: React.FC<LintSettingsPanelProps> = ({ settings, issueCounts, onChange, onClose }) => (
+  <div className="mb-3 bg-neutral-800 border border-neutral-700 rounded-lg">
+    <div className="flex justify-between items-center px-3 py-2 border-b border-neutral-700">
+      <h3 className="text-sm font-semibold text-neutral-200">Reglas de calidad</h3>
+      <button onClick={onClose} className="p-1 text-neutral-400 hover:text-neutral-100" aria-label="Cerrar reglas de calidad">
+        <XMarkIcon className="w-4 h-4" />
+      </button>
+    </div>
+    <p className="px-3 pt-2 text-xs text-neutral-400">
+      Los avisos se muestran junto al tipo de cada pregunta. Las reglas marcadas como "Error" impiden guardar hasta que se corrijan las preguntas afectadas.
+    </p>
+    <ul className="p-2 space-y-1">
+      {QUESTION_LINT_RULES.map(rule => {
+        const ruleSettings = settings[rule.id];
+        const count = issueCounts.get(rule.id) || 0;
+        return (
+          <li key={rule.id} className={`flex items-center gap-2 px-1 py-1 text-xs ${ruleSettings.enabled ? '' : 'opacity-50'}`}>
+            <input
+              type="checkbox"
+              id={`lint-rule-${rule.id}`}
+              checked={ruleSettings.enabled}
+              onChange={(e) => onChange(rule.id, { enabled: e.target.checked })}
+              className="form-checkbox h-4 w-4 text-blue-500 bg-neutral-700 border-neutral-600 rounded cursor-pointer"
+            />
+            <label htmlFor={`lint-rule-${rule.id}`} className="flex-grow text-neutral-200 cursor-pointer" title={rule.description}>
+              {rule.label}
+              {ruleSettings.enabled && count > 0 && <span className="ml-1 text-neutral-400">({count})</span>}
+            </label>
+            <select
+              value={ruleSettings.severity}
+              onChange={(e) => onChange(rule.id, { severity: e.target.value as LintSeverity })}
+              disabled={!ruleSettings.enabled}
+              className="p-1 bg-neutral-700 border border-neutral-600 rounded text-xs text-neutral-100"
+              aria-label={`Gravedad de "${rule.label}"`}
+            >
+              <option value="warning">Advertencia</option>
+              <option value="error">Error (bloquea guardar)</option>
+            </select>
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
+
+export default LintSettingsPanel;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { QuestionData, QuestionDifficulty, BloomLevel } from '../types';
+import { DIFFICULTY_LABELS, BLOOM_LEVEL_LABELS, QuestionMetadataChanges, collectTags, normalizeTags } from '../utils/questionMetadata';
+import { XMarkIcon } from './icons';
+
+interface MetadataBulkEditorProps {
+  selectedQuestions: QuestionData[];
+  knownTags: string[]; // Every tag in the bank, offered as suggestions
+  disabled?: boolean;
+  onApply: (changes: QuestionMetadataChanges) => void;
+  onClose: () => void;
+}
+
+// '' keeps each question's current value, 'none' clears it.
+type BulkSelectValue<T> = T | 'none' | '';
+
+const toChange = <T,>(value: BulkSelectValue<T>): T | null | undefined => (value === '' ? undefined : value === 'none' ? null : value);
+
+const MetadataBulkEditor: React.FC<MetadataBulkEditorProps> = ({ selectedQuestions, knownTags, disabled = false, onApply, onClose }) => {
+  const [tagsToAdd, setTagsToAdd] = useState('');
+  const [tagsToRemove, setTagsToRemove] = useState<string[]>([]);
+  const [difficulty, setDifficulty] = useState<BulkSelectValue<QuestionDifficulty>>('');
+  const [bloomLevel, setBloomLevel] = useState<BulkSelectValue<BloomLevel>>('');
+
+  const selectionTags = collectTags(selectedQuestions);
+  const addTags = normalizeTags(tagsToAdd);
+  const hasChanges = addTags.length > 0 || tagsToRemove.length > 0 || difficulty !== '' || bloomLevel !== '';
+
+  const handleApply = () => {
+    onApply({ addTags, removeTags: tagsToRemove, difficulty: toChange(difficulty), bloomLevel: toChange(bloomLevel) });
+    setTagsToAdd('');
+    setTagsToRemove([]);
+    setDifficulty('');
+    setBloomLevel('');
+  };
+
+  return (
+    <div className="mb-3 bg-neutral-800 border border-neutral-700 rounded-lg">
+      <div className="flex justify-between items-center px-3 py-2 border-b border-neutral-700">
+        <h3 className="text-sm font-semibold text-neutral-200">Metadatos de {selectedQuestions.length} pregunta(s) seleccionada(s)</h3>
+        <button onClick={onClose} className="p-1 text-neutral-400 hover:text-neutral-100" aria-label="Cerrar edición de metadatos">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="p-3 grid grid-cols-1 md:grid-cols-2 gap-3 text-xs">
+        <div>
+          <label htmlFor="bulkAddTags" className="block font-medium text-neutral-300 mb-1">Añadir etiquetas (separadas por comas)</label>
+          <input
+            id="bulkAddTags"
+            type="text"
+            list="bulkKnownTags"
+            value={tagsToAdd}
+            onChange={(e) => setTagsToAdd(e.target.value)}
+            disabled={disabled}
+            className="w-full p-1.5 bg-neutral-700 border border-neutral-600 rounded text-neutral-100"
+          />
+          <datalist id="bulkKnownTags">
+            {knownTags.map(tag => <option key={tag} value={tag} />)}
+          </datalist>
+        </div>
+        <div>
+          <span className="block font-medium text-neutral-300 mb-1">Quitar etiquetas</span>
+          {selectionTags.length === 0 ? (
+            <p className="text-neutral-500 italic py-1.5">Las preguntas seleccionadas no tienen etiquetas.</p>
+          ) : (
+            <div className="flex flex-wrap gap-1">
+              {selectionTags.map(tag => {
+                const isRemoved = tagsToRemove.includes(tag);
+                return (
+                  <button
+                    key={tag}
+                    onClick={() => setTagsToRemove(prev => (isRemoved ? prev.filter(t => t !== tag) : [...prev, tag]))}
+                    disabled={disabled}
+                    className={`px-2 py-0.5 rounded-full ${isRemoved ? 'bg-red-900 text-red-200 line-through' : 'bg-neutral-700 text-neutral-200 hover:bg-neutral-600'}`}
+                    title={isRemoved ? 'Se quitará de las preguntas seleccionadas' : 'Haz clic para quitarla'}
+                  >
+                    {tag}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+        <div>
+          <label htmlFor="bulkDifficulty" className="block font-medium text-neutral-300 mb-1">Dificultad</label>
+          <select
+            id="bulkDifficulty"
+            value={difficulty}
+            onChange={(e) => setDifficulty(e.target.value as BulkSelectValue<QuestionDifficulty>)}
+            disabled={disabled}
+            className="w-full p-1.5 bg-neutral-700 border border-neutral-600 rounded text-neutral-100"
+          >
+            <option value="">(sin cambios)</option>
+            {Object.values(QuestionDifficulty).map(value => <option key={value} value={value}>{DIFFICULTY_LABELS[value]}</option>)}
+            <option value="none">Quitar dificultad</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="bulkBloomLevel" className="block font-medium text-neutral-300 mb-1">Nivel de Bloom</label>
+          <select
+            id="bulkBloomLevel"
+            value={bloomLevel}
+            onChange={(e) => setBloomLevel(e.target.value as BulkSelectValue<BloomLevel>)}
+            disabled={disabled}
+            className="w-full p-1.5 bg-neutral-700 border border-neutral-600 rounded text-neutral-100"
+          >
+            <option value="">(sin cambios)</option>
+            {Object.values(BloomLevel).map(value => <option key={value} value={value}>{BLOOM_LEVEL_LABELS[value]}</option>)}
+            <option value="none">Quitar nivel</option>
+          </select>
+        </div>
+      </div>
+      <div className="px-3 pb-3 flex justify-end">
+        <button
+          onClick={handleApply}
+          disabled={disabled || !hasChanges}
+          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs rounded-md disabled:bg-neutral-700 disabled:text-neutral-400 disabled:cursor-not-allowed"
+        >
+          Aplicar a la selección
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MetadataBulkEditor;
@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ProjectSummary, getProjectDisplayName } from '../services/storageService';
+import { RECENT_PROJECTS_LIMIT } from '../constants';
+import { FolderIcon, ChevronDownIcon, PlusIcon, DocumentDuplicateIcon, PencilIcon, TrashIcon } from './icons';
+
+interface ProjectSwitcherProps {
+  projects: ProjectSummary[]; // Sorted by most recently opened first
+  activeProjectId: string;
+  activeProjectName: string; // Display name of the active project (may not be persisted yet)
+  disabled?: boolean;
+  onSelectProject: (projectId: string) => void;
+  onCreateProject: () => void;
+  onDuplicateProject: () => void;
+  onRenameProject: (newName: string) => void;
+  onDeleteProject: (projectId: string) => void;
+}
+
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  projects,
+  activeProjectId,
+  activeProjectName,
+  disabled = false,
+  onSelectProject,
+  onCreateProject,
+  onDuplicateProject,
+  onRenameProject,
+  onDeleteProject,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [renameValue, setRenameValue] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close the dropdown on outside click
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setIsRenaming(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, []);
+
+  const recentProjects = projects.slice(0, RECENT_PROJECTS_LIMIT);
+  const otherProjects = projects
+    .slice(RECENT_PROJECTS_LIMIT)
+    .sort((a, b) => getProjectDisplayName(a).localeCompare(getProjectDisplayName(b)));
+
+  const startRenaming = () => {
+    setRenameValue(activeProjectName);
+    setIsRenaming(true);
+  };
+
+  const submitRename = () => {
+    const trimmed = renameValue.trim();
+    if (trimmed && trimmed !== activeProjectName) {
+      onRenameProject(trimmed);
+    }
+    setIsRenaming(false);
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      submitRename();
+    } else if (e.key === 'Escape') {
+      setIsRenaming(false);
+    }
+  };
+
+  const runAndClose = (action: () => void) => {
+    action();
+    setIsOpen(false);
+    setIsRenaming(false);
+  };
+
+  const renderProjectItem = (project: ProjectSummary) => {
+    const isActive = project.id === activeProjectId;
+    const displayName = isActive ? activeProjectName : getProjectDisplayName(project);
+    return (
+      <li key={project.id} className={`flex items-center justify-between gap-2 px-3 py-2 ${isActive ? 'bg-neutral-700' : 'hover:bg-neutral-700'}`}>
+        <button
+          onClick={() => runAndClose(() => onSelectProject(project.id))}
+          disabled={isActive}
+          className="flex-grow min-w-0 text-left disabled:cursor-default"
+          title={displayName}
+        >
+          <span className={`block truncate text-sm ${isActive ? 'text-blue-300 font-semibold' : 'text-neutral-200'}`}>{displayName}</span>
+          <span className="block text-xs text-neutral-400">
+            {project.questionCount} pregunta(s) · {new Date(project.savedAt).toLocaleDateString()}
+          </span>
+        </button>
+        <button
+          onClick={() => onDeleteProject(project.id)}
+          className="p-1 text-red-400 hover:text-red-300 flex-shrink-0"
+          title="Eliminar proyecto"
+          aria-label={`Eliminar proyecto ${displayName}`}
+        >
+          <TrashIcon className="w-4 h-4" />
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled}
+        className="px-3 py-2 bg-neutral-800 hover:bg-neutral-700 text-neutral-200 rounded-lg flex items-center gap-2 transition-colors max-w-xs disabled:opacity-50 disabled:cursor-not-allowed"
+        title={disabled ? "No se puede cambiar de proyecto mientras se procesa la cola." : "Cambiar de proyecto"}
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+      >
+        <FolderIcon className="w-5 h-5 text-blue-400 flex-shrink-0" />
+        <span className="truncate text-sm font-medium">{activeProjectName}</span>
+        <ChevronDownIcon className={`w-4 h-4 flex-shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-80 bg-neutral-800 border border-neutral-700 rounded-md shadow-lg z-30 overflow-hidden">
+          <div className="p-2 border-b border-neutral-700 flex gap-1">
+            <button
+              onClick={() => runAndClose(onCreateProject)}
+              className="flex-1 px-2 py-1.5 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded flex items-center justify-center gap-1"
+            >
+              <PlusIcon className="w-4 h-4" /> Nuevo
+            </button>
+            <button
+              onClick={() => runAndClose(onDuplicateProject)}
+              className="flex-1 px-2 py-1.5 text-xs bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded flex items-center justify-center gap-1"
+            >
+              <DocumentDuplicateIcon className="w-4 h-4" /> Duplicar
+            </button>
+            <button
+              onClick={startRenaming}
+              className="flex-1 px-2 py-1.5 text-xs bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded flex items-center justify-center gap-1"
+            >
+              <PencilIcon className="w-4 h-4" /> Renombrar
+            </button>
+          </div>
+          {isRenaming && (
+            <div className="p-2 border-b border-neutral-700">
+              <input
+                type="text"
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                onKeyDown={handleRenameKeyDown}
+                onBlur={submitRename}
+                autoFocus
+                placeholder="Nombre del proyecto"
+                className="w-full p-2 bg-neutral-700 border border-neutral-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm text-neutral-100 placeholder-neutral-500"
+              />
+            </div>
+          )}
+          <div className="max-h-80 overflow-y-auto">
+            {projects.length === 0 && (
+              <p className="px-3 py-3 text-xs italic text-neutral-400">Este proyecto aún no se ha guardado. Se guardará automáticamente al añadir contenido.</p>
+            )}
+            {recentProjects.length > 0 && (
+              <>
+                <p className="px-3 pt-2 pb-1 text-xs uppercase text-neutral-500 font-semibold">Recientes</p>
+                <ul>{recentProjects.map(renderProjectItem)}</ul>
+              </>
+            )}
+            {otherProjects.length > 0 && (
+              <>
+                <p className="px-3 pt-2 pb-1 text-xs uppercase text-neutral-500 font-semibold border-t border-neutral-700">Todos los proyectos</p>
+                <ul>{otherProjects.map(renderProjectItem)}</ul>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
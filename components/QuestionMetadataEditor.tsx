@@ -0,0 +1,71 @@
+import React, { useState, useEffect } from 'react';
+import { QuestionData, QuestionDifficulty, BloomLevel } from '../types';
+import { DIFFICULTY_LABELS, BLOOM_LEVEL_LABELS, QuestionMetadataChanges, normalizeTags } from '../utils/questionMetadata';
+
+interface QuestionMetadataEditorProps {
+  question: QuestionData;
+  knownTagsListId: string; // <datalist> with the bank's tags, rendered once by the table
+  disabled?: boolean;
+  onChange: (changes: QuestionMetadataChanges) => void;
+}
+
+// Inline editor in the expanded row. Tags are committed on blur or Enter, like EditableCell.
+const QuestionMetadataEditor: React.FC<QuestionMetadataEditorProps> = ({ question, knownTagsListId, disabled = false, onChange }) => {
+  const currentTags = (question.tags || []).join(', ');
+  const [tagsText, setTagsText] = useState(currentTags);
+
+  useEffect(() => {
+    setTagsText(currentTags);
+  }, [currentTags]);
+
+  const commitTags = () => {
+    const tags = normalizeTags(tagsText);
+    if (tags.join(', ') !== currentTags) onChange({ tags });
+    else setTagsText(currentTags);
+  };
+
+  return (
+    <div className="mb-1 flex flex-wrap items-center gap-2 text-neutral-400">
+      <label className="flex items-center gap-1 flex-grow min-w-[14rem]">
+        <span className="font-semibold text-neutral-300">Etiquetas:</span>
+        <input
+          type="text"
+          list={knownTagsListId}
+          value={tagsText}
+          onChange={(e) => setTagsText(e.target.value)}
+          onBlur={commitTags}
+          onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+          disabled={disabled}
+          placeholder="separadas por comas"
+          className="flex-grow p-1 bg-neutral-800 border border-neutral-600 rounded text-neutral-100"
+        />
+      </label>
+      <label className="flex items-center gap-1">
+        <span className="font-semibold text-neutral-300">Dificultad:</span>
+        <select
+          value={question.difficulty || ''}
+          onChange={(e) => onChange({ difficulty: (e.target.value as QuestionDifficulty) || null })}
+          disabled={disabled}
+          className="p-1 bg-neutral-800 border border-neutral-600 rounded text-neutral-100"
+        >
+          <option value="">Sin indicar</option>
+          {Object.values(QuestionDifficulty).map(value => <option key={value} value={value}>{DIFFICULTY_LABELS[value]}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        <span className="font-semibold text-neutral-300">Bloom:</span>
+        <select
+          value={question.bloomLevel || ''}
+          onChange={(e) => onChange({ bloomLevel: (e.target.value as BloomLevel) || null })}
+          disabled={disabled}
+          className="p-1 bg-neutral-800 border border-neutral-600 rounded text-neutral-100"
+        >
+          <option value="">Sin indicar</option>
+          {Object.values(BloomLevel).map(value => <option key={value} value={value}>{BLOOM_LEVEL_LABELS[value]}</option>)}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default QuestionMetadataEditor;
@@ -0,0 +1,187 @@
+import React, { useCallback } from 'react';
+import { QuestionData, QuestionTextField, QuestionDisplayType, QuestionTypeVisualInfo, QuestionVerificationStatus, CSV_HEADERS, CSV_HEADER_TO_QUESTION_DATA_KEY_MAP } from '../types';
+import { QuestionMetadataChanges, DIFFICULTY_LABELS, BLOOM_LEVEL_LABELS } from '../utils/questionMetadata';
+import { QuestionLintIssue } from '../utils/questionLinter';
+import EditableCell from './EditableCell';
+import QuestionMetadataEditor from './QuestionMetadataEditor';
+import { TrashIcon, CheckCircleIcon, XCircleIcon, ExclamationTriangleIcon, FlagIcon } from './icons';
+
+export const VERIFICATION_LABELS: Record<QuestionVerificationStatus, { label: string; colorClass: string }> = {
+  [QuestionVerificationStatus.Verified]: { label: 'Verificada', colorClass: 'text-green-400' },
+  [QuestionVerificationStatus.Disputed]: { label: 'Discutida', colorClass: 'text-red-400' },
+  [QuestionVerificationStatus.Unsupported]: { label: 'Sin respaldo', colorClass: 'text-yellow-400' },
+};
+
+// Must keep the same identity between renders, or every row re-renders on each change.
+export interface QuestionTableRowHandlers {
+  onToggleSelect: (questionId: string, isShiftClick: boolean) => void;
+  onToggleExpand: (questionId: string) => void;
+  onEdit: (questionId: string, field: QuestionTextField, value: string) => void;
+  onDelete: (questionId: string) => void;
+  onMetadataChange: (questionIds: string[], changes: QuestionMetadataChanges) => void;
+  onUnflag: (questionId: string) => void;
+}
+
+interface QuestionTableRowProps {
+  question: QuestionData;
+  typeInfo: QuestionTypeVisualInfo;
+  isSelected: boolean;
+  isExpanded: boolean;
+  lintIssues: QuestionLintIssue[];
+  disabled: boolean;
+  knownTagsListId: string;
+  handlers: QuestionTableRowHandlers;
+  observeRow: (questionId: string, element: HTMLElement | null) => void; // Height measurement for the virtualized table
+}
+
+// One question of the table: the main row plus, when expanded, the details row. Both live in their
+// own <tbody> so the pair is measured as a unit. Memoized: editing a question only re-renders its row.
+const QuestionTableRow: React.FC<QuestionTableRowProps> = ({ question: q, typeInfo, isSelected, isExpanded, lintIssues, disabled, knownTagsListId, handlers, observeRow }) => {
+  const measureRef = useCallback((element: HTMLTableSectionElement | null) => observeRow(q.id, element), [observeRow, q.id]);
+  const hasLintError = lintIssues.some(issue => issue.severity === 'error');
+
+  return (
+    <tbody ref={measureRef}>
+      <tr
+          id={q.id}
+          className={`${isSelected ? 'bg-neutral-700' : 'bg-neutral-900'} border-b border-neutral-800 hover:bg-neutral-800 transition-colors group ${typeInfo.type === QuestionDisplayType.Unknown ? 'outline outline-2 outline-red-500' : ''}`}
+      >
+        <td className="px-2 py-1 align-top text-center" onClick={(e: React.MouseEvent<HTMLTableCellElement>) => { e.stopPropagation(); handlers.onToggleSelect(q.id, e.nativeEvent.shiftKey); }}>
+          <input
+            type="checkbox"
+            className="form-checkbox h-4 w-4 text-blue-500 bg-neutral-700 border-neutral-600 rounded focus:ring-blue-500 focus:ring-offset-0 focus:ring-offset-transparent cursor-pointer"
+            checked={isSelected}
+            readOnly // The state is controlled by the td's onClick
+            aria-label={`Seleccionar pregunta: ${q.Pregunta.substring(0, 50)}`}
+            disabled={disabled}
+          />
+        </td>
+        <td className="px-2 py-1 align-top cursor-pointer" title={typeInfo.description} onClick={() => handlers.onToggleExpand(q.id)}>
+            <div className="flex items-center gap-1.5">
+              {typeInfo.icon}
+              <span className={`text-xs font-medium ${typeInfo.colorClass}`}>{typeInfo.label}</span>
+            </div>
+            {q.source && (
+              <div className="mt-1 text-[10px] leading-tight text-sky-300 max-w-[7rem] truncate" title={`${q.source.document} · fragmento ${q.source.chunkIndex}/${q.source.chunkCount}: ${q.source.section}`}>
+                {q.source.section}
+              </div>
+            )}
+            {q.verification && (
+              <div className={`mt-1 text-[10px] leading-tight ${VERIFICATION_LABELS[q.verification.status].colorClass}`} title={q.verification.reasoning}>
+                {VERIFICATION_LABELS[q.verification.status].label}
+              </div>
+            )}
+            {lintIssues.length > 0 && (
+              <div className={`mt-1 flex items-center gap-1 text-[10px] leading-tight ${hasLintError ? 'text-red-400' : 'text-yellow-400'}`} title={lintIssues.map(issue => issue.message).join('\n')}>
+                <ExclamationTriangleIcon className="w-3.5 h-3.5" /> {lintIssues.length} aviso(s)
+              </div>
+            )}
+            {(q.difficulty || q.bloomLevel || !!q.tags?.length) && (
+              <div className="mt-1 text-[10px] leading-tight text-neutral-400 max-w-[7rem] truncate" title={q.tags?.length ? `Etiquetas: ${q.tags.join(', ')}` : undefined}>
+                {[q.difficulty && DIFFICULTY_LABELS[q.difficulty], q.bloomLevel && BLOOM_LEVEL_LABELS[q.bloomLevel]].filter(Boolean).join(' · ')}
+                {q.tags?.length ? <span className="block truncate text-neutral-500">#{q.tags.join(' #')}</span> : null}
+              </div>
+            )}
+            {q.reviewFlag && (
+              <div className="mt-1 flex items-center gap-1 text-[10px] leading-tight text-orange-400" title={q.reviewFlag.note || 'Marcada en el modo práctica'}>
+                <FlagIcon className="w-3.5 h-3.5" /> Revisar
+              </div>
+            )}
+        </td>
+        {CSV_HEADERS.map(header => {
+           const fieldKey = CSV_HEADER_TO_QUESTION_DATA_KEY_MAP[header];
+           const cellBaseClasses = "text-neutral-200 min-h-[3em]";
+           const cellDynamicClasses = isExpanded
+              ? "whitespace-pre-wrap break-words"
+              : "truncate-3-lines";
+           return (
+              <td key={`${q.id}-${header}`} className="px-2 py-1 align-top cursor-pointer" onClick={() => handlers.onToggleExpand(q.id)}>
+                  <div onClick={(e) => e.stopPropagation()}>
+                      <EditableCell
+                          value={q[fieldKey]}
+                          onSave={(newValue) => handlers.onEdit(q.id, fieldKey, newValue)}
+                          multiline={fieldKey === 'Pregunta' || fieldKey === 'Explicación'}
+                          className={`${cellBaseClasses} ${cellDynamicClasses}`}
+                          placeholder={header}
+                          isInitiallyEditing={q.Pregunta === '' && fieldKey === 'Pregunta'} // Auto-edit if new manual question
+                      />
+                  </div>
+              </td>
+           );
+        })}
+        <td className="px-2 py-1 align-top text-center">
+          <div onClick={(e) => e.stopPropagation()}>
+              <button
+                  onClick={() => handlers.onDelete(q.id)}
+                  disabled={disabled}
+                  className="p-1.5 text-red-400 hover:text-red-300 disabled:text-neutral-500 disabled:cursor-not-allowed"
+                  title="Eliminar esta pregunta"
+              >
+                  <TrashIcon className="w-5 h-5"/>
+              </button>
+          </div>
+        </td>
+      </tr>
+      {isExpanded && (
+        <tr className={`${isSelected ? 'bg-neutral-700' : 'bg-neutral-900'} border-b border-neutral-800`}>
+          <td />
+          <td colSpan={CSV_HEADERS.length + 2} className="px-2 pb-2 text-xs">
+            <QuestionMetadataEditor
+              question={q}
+              knownTagsListId={knownTagsListId}
+              disabled={disabled}
+              onChange={(changes) => handlers.onMetadataChange([q.id], changes)}
+            />
+            {q.reviewFlag && (
+              <div className="mb-1 flex items-center gap-2 text-orange-300">
+                <FlagIcon className="w-4 h-4 flex-shrink-0" />
+                <span>Marcada para revisar en el modo práctica{q.reviewFlag.note ? `: ${q.reviewFlag.note}` : '.'}</span>
+                <button onClick={() => handlers.onUnflag(q.id)} className="px-2 py-0.5 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded">
+                  Quitar marca
+                </button>
+              </div>
+            )}
+            {lintIssues.length > 0 && (
+              <ul className="mb-1 space-y-0.5">
+                {lintIssues.map(issue => (
+                  <li key={issue.ruleId} className={`flex items-center gap-1 ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}>
+                    <ExclamationTriangleIcon className="w-4 h-4 flex-shrink-0" /> {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {q.verification && (
+              <div className="mb-1">
+                <span className={`font-semibold ${VERIFICATION_LABELS[q.verification.status].colorClass}`}>{VERIFICATION_LABELS[q.verification.status].label}:</span>{' '}
+                <span className="text-neutral-300">{q.verification.reasoning || 'Sin razonamiento.'}</span>
+                {q.verification.correctDistractors.length > 0 && (
+                  <span className="text-red-300"> También correcta(s): {q.verification.correctDistractors.map(d => `"${d}"`).join(', ')}.</span>
+                )}
+                {!q.verification.explanationConsistent && <span className="text-red-300"> La explicación no es coherente con el material.</span>}
+                <span className="text-neutral-500"> ({new Date(q.verification.checkedAt).toLocaleString('es-ES')})</span>
+              </div>
+            )}
+            {q.citation && (
+              <>
+                <div className="flex flex-wrap items-center gap-2 text-neutral-400">
+                  <span className="font-semibold text-neutral-300">Fuente:</span>
+                  <span>{q.citation.file || 'Archivo no indicado'}{q.citation.location ? ` · ${q.citation.location}` : ''}</span>
+                  {q.citation.verified === true && (
+                    <span className="flex items-center gap-1 text-green-400"><CheckCircleIcon className="w-4 h-4" /> Cita encontrada en el contexto</span>
+                  )}
+                  {q.citation.verified === false && (
+                    <span className="flex items-center gap-1 text-yellow-400"><XCircleIcon className="w-4 h-4" /> La cita no aparece en el contexto enviado</span>
+                  )}
+                  {q.citation.verified === undefined && <span className="text-neutral-500">(cita sin comprobar)</span>}
+                </div>
+                <blockquote className="mt-1 pl-2 border-l-2 border-neutral-600 italic text-neutral-300 whitespace-pre-wrap break-words">"{q.citation.quote}"</blockquote>
+              </>
+            )}
+          </td>
+        </tr>
+      )}
+    </tbody>
+  );
+};
+
+export default React.memo(QuestionTableRow);
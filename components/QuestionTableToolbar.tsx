@@ -0,0 +1,100 @@
+import React from 'react';
+import { QuestionDisplayType, QuestionDifficulty, BloomLevel } from '../types';
+import { QuestionTableView, QuestionStatusFilter, QuestionSortOrder, DEFAULT_QUESTION_TABLE_VIEW, MANUAL_REQUEST_FILTER, isQuestionTableViewFiltered } from '../utils/questionTableView';
+import { QuestionMetadataFilter, DIFFICULTY_LABELS, BLOOM_LEVEL_LABELS } from '../utils/questionMetadata';
+import { XMarkIcon } from './icons';
+
+interface QuestionTableToolbarProps {
+  view: QuestionTableView;
+  onChange: (view: QuestionTableView) => void;
+  typeOptions: { type: QuestionDisplayType; label: string }[];
+  requestOptions: { id: string; label: string; count: number }[]; // Requests that produced questions in the bank
+  statusOptions: { value: QuestionStatusFilter; label: string }[];
+  knownTags: string[];
+  visibleCount: number;
+  totalCount: number;
+}
+
+const SORT_LABELS: Record<QuestionSortOrder, string> = {
+  created: 'Orden de creación',
+  type: 'Tipo',
+  'length-asc': 'Texto más corto primero',
+  'length-desc': 'Texto más largo primero',
+};
+
+const SELECT_CLASS = "p-1 bg-neutral-700 border border-neutral-600 rounded text-xs text-neutral-100";
+
+const QuestionTableToolbar: React.FC<QuestionTableToolbarProps> = ({ view, onChange, typeOptions, requestOptions, statusOptions, knownTags, visibleCount, totalCount }) => {
+  const update = (changes: Partial<QuestionTableView>) => onChange({ ...view, ...changes });
+  const updateMetadata = (changes: Partial<QuestionMetadataFilter>) => update({ metadata: { ...view.metadata, ...changes } });
+  const isFiltered = isQuestionTableViewFiltered(view);
+
+  return (
+    <div className="mb-2 space-y-2 text-xs text-neutral-400">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={view.search}
+          onChange={(e) => update({ search: e.target.value })}
+          placeholder="Buscar en todas las columnas (sin distinguir tildes)"
+          className="flex-grow min-w-[14rem] p-1.5 bg-neutral-700 border border-neutral-600 rounded text-sm text-neutral-100"
+          aria-label="Buscar preguntas"
+        />
+        <label htmlFor="questionSort">Ordenar:</label>
+        <select id="questionSort" value={view.sort} onChange={(e) => update({ sort: e.target.value as QuestionSortOrder })} className={SELECT_CLASS}>
+          {(Object.keys(SORT_LABELS) as QuestionSortOrder[]).map(sort => <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>)}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span>Filtrar:</span>
+        <select value={view.type} onChange={(e) => update({ type: e.target.value as QuestionDisplayType | '' })} className={SELECT_CLASS} aria-label="Filtrar por tipo">
+          <option value="">Cualquier tipo</option>
+          {typeOptions.map(({ type, label }) => <option key={type} value={type}>{label}</option>)}
+        </select>
+        <select value={view.requestId} onChange={(e) => update({ requestId: e.target.value })} className={`${SELECT_CLASS} max-w-[14rem]`} aria-label="Filtrar por solicitud">
+          <option value="">Cualquier solicitud</option>
+          {requestOptions.map(({ id, label, count }) => <option key={id} value={id}>{label} ({count})</option>)}
+          <option value={MANUAL_REQUEST_FILTER}>Manuales o importadas</option>
+        </select>
+        <select value={view.explanation} onChange={(e) => update({ explanation: e.target.value as QuestionTableView['explanation'] })} className={SELECT_CLASS} aria-label="Filtrar por explicación">
+          <option value="">Con o sin explicación</option>
+          <option value="with">Con explicación</option>
+          <option value="without">Sin explicación</option>
+        </select>
+        <select value={view.status} onChange={(e) => update({ status: e.target.value as QuestionStatusFilter })} className={SELECT_CLASS} aria-label="Filtrar por verificación o marca">
+          <option value="">Cualquier estado</option>
+          {statusOptions.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        {knownTags.length > 0 && (
+          <select value={view.metadata.tag} onChange={(e) => updateMetadata({ tag: e.target.value })} className={`${SELECT_CLASS} max-w-[12rem]`} aria-label="Filtrar por etiqueta">
+            <option value="">Cualquier etiqueta</option>
+            {knownTags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+          </select>
+        )}
+        <select value={view.metadata.difficulty} onChange={(e) => updateMetadata({ difficulty: e.target.value as QuestionMetadataFilter['difficulty'] })} className={SELECT_CLASS} aria-label="Filtrar por dificultad">
+          <option value="">Cualquier dificultad</option>
+          {Object.values(QuestionDifficulty).map(value => <option key={value} value={value}>{DIFFICULTY_LABELS[value]}</option>)}
+          <option value="none">Sin dificultad</option>
+        </select>
+        <select value={view.metadata.bloomLevel} onChange={(e) => updateMetadata({ bloomLevel: e.target.value as QuestionMetadataFilter['bloomLevel'] })} className={SELECT_CLASS} aria-label="Filtrar por nivel de Bloom">
+          <option value="">Cualquier nivel de Bloom</option>
+          {Object.values(BloomLevel).map(value => <option key={value} value={value}>{BLOOM_LEVEL_LABELS[value]}</option>)}
+          <option value="none">Sin nivel de Bloom</option>
+        </select>
+        {isFiltered && (
+          <>
+            <span>{visibleCount} de {totalCount} pregunta(s)</span>
+            <button
+              onClick={() => onChange({ ...DEFAULT_QUESTION_TABLE_VIEW, sort: view.sort })}
+              className="px-2 py-1 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded flex items-center gap-1"
+            >
+              <XMarkIcon className="w-3.5 h-3.5" /> Quitar filtros
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionTableToolbar;
@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import { QuestionData, QuestionDisplayType, QuestionTypeVisualInfo } from '../types';
+import { QuizItem, QuizAnswer, buildQuizItems, isQuizAnswerCorrect } from '../utils/quiz';
+import { XMarkIcon, CheckCircleIcon, XCircleIcon, FlagIcon } from './icons';
+
+interface QuizRunnerProps {
+  questions: QuestionData[]; // In bank order; unplayable (empty/unknown) ones are skipped
+  getTypeInfo: (question: QuestionData) => QuestionTypeVisualInfo;
+  onFlag: (questionId: string, note: string) => void;
+  onUnflag: (questionId: string) => void;
+  onClose: () => void;
+}
+
+interface QuizResult {
+  item: QuizItem;
+  correct: boolean;
+}
+
+const QuizRunner: React.FC<QuizRunnerProps> = ({ questions, getTypeInfo, onFlag, onUnflag, onClose }) => {
+  const [shuffleOrder, setShuffleOrder] = useState(true);
+  const [items, setItems] = useState<QuizItem[]>(() => buildQuizItems(questions, true));
+  const [position, setPosition] = useState(0);
+  const [results, setResults] = useState<QuizResult[]>([]);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [textAnswer, setTextAnswer] = useState('');
+  const [isCardFlipped, setIsCardFlipped] = useState(false);
+  const [answered, setAnswered] = useState<boolean | null>(null); // Whether the current item was answered correctly
+  const [flagNote, setFlagNote] = useState('');
+  const [flaggedIds, setFlaggedIds] = useState<Set<string>>(() => new Set(questions.filter(q => q.reviewFlag).map(q => q.id)));
+
+  const item = items[position];
+  const isFinished = items.length > 0 && position >= items.length;
+
+  const resetAnswerState = () => {
+    setSelected([]);
+    setTextAnswer('');
+    setIsCardFlipped(false);
+    setAnswered(null);
+    setFlagNote('');
+  };
+
+  const restart = (questionsToPlay: QuestionData[], shuffled: boolean) => {
+    setItems(buildQuizItems(questionsToPlay, shuffled));
+    setPosition(0);
+    setResults([]);
+    resetAnswerState();
+  };
+
+  const submit = (answer: QuizAnswer) => {
+    const correct = isQuizAnswerCorrect(item, answer);
+    setAnswered(correct);
+    setResults(prev => [...prev, { item, correct }]);
+  };
+
+  const next = () => {
+    setPosition(prev => prev + 1);
+    resetAnswerState();
+  };
+
+  const toggleFlag = (questionId: string, note: string) => {
+    if (flaggedIds.has(questionId)) {
+      onUnflag(questionId);
+      setFlaggedIds(prev => {
+        const updated = new Set(prev);
+        updated.delete(questionId);
+        return updated;
+      });
+    } else {
+      onFlag(questionId, note.trim());
+      setFlaggedIds(prev => new Set(prev).add(questionId));
+    }
+  };
+
+  const toggleSelected = (index: number, multiple: boolean) => {
+    if (answered !== null) return;
+    setSelected(prev => (multiple ? (prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]) : [index]));
+  };
+
+  const renderOptions = (quizItem: QuizItem) => {
+    const multiple = quizItem.type === QuestionDisplayType.MultipleCorrect;
+    return (
+      <ul className="space-y-2">
+        {quizItem.options.map((option, index) => {
+          const isSelected = selected.includes(index);
+          let stateClass = isSelected ? 'border-blue-500 bg-neutral-700' : 'border-neutral-600 hover:bg-neutral-700';
+          if (answered !== null) {
+            if (option.isCorrect) stateClass = 'border-green-500 bg-green-900/40';
+            else if (isSelected) stateClass = 'border-red-500 bg-red-900/40';
+            else stateClass = 'border-neutral-700 opacity-60';
+          }
+          return (
+            <li key={index}>
+              <label className={`flex items-center gap-3 p-3 border rounded-md cursor-pointer text-neutral-100 ${stateClass}`}>
+                <input
+                  type={multiple ? 'checkbox' : 'radio'}
+                  name={`quiz-option-${position}`}
+                  checked={isSelected}
+                  onChange={() => toggleSelected(index, multiple)}
+                  disabled={answered !== null}
+                  className={multiple ? 'form-checkbox h-4 w-4 text-blue-500 rounded' : 'form-radio h-4 w-4 text-blue-500'}
+                />
+                <span className="whitespace-pre-wrap break-words">{option.text}</span>
+              </label>
+            </li>
+          );
+        })}
+        {multiple && answered === null && <p className="text-xs text-neutral-400">Puede haber varias respuestas correctas.</p>}
+      </ul>
+    );
+  };
+
+  const renderAnswerArea = (quizItem: QuizItem) => {
+    if (quizItem.type === QuestionDisplayType.Flashcard) {
+      return isCardFlipped ? (
+        <div className="p-4 border border-cyan-700 rounded-md bg-neutral-900 text-neutral-100 whitespace-pre-wrap break-words">
+          {quizItem.question['Opción Correcta 2']}
+        </div>
+      ) : (
+        <button onClick={() => setIsCardFlipped(true)} className="w-full p-8 border border-dashed border-cyan-700 rounded-md text-cyan-300 hover:bg-neutral-700">
+          Piensa la respuesta y haz clic para girar la tarjeta
+        </button>
+      );
+    }
+    if (quizItem.type === QuestionDisplayType.OpenAnswer) {
+      return (
+        <div>
+          <input
+            type="text"
+            value={textAnswer}
+            onChange={(e) => setTextAnswer(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && answered === null && textAnswer.trim()) submit({ kind: 'text', text: textAnswer }); }}
+            disabled={answered !== null}
+            placeholder="Escribe tu respuesta"
+            className="w-full p-2 bg-neutral-700 border border-neutral-600 rounded-md text-neutral-100"
+            autoFocus
+          />
+          {answered !== null && (
+            <p className="mt-2 text-sm text-neutral-300">Respuesta esperada: <span className="font-semibold text-green-300">{quizItem.question['Opción correcta 1']}</span></p>
+          )}
+        </div>
+      );
+    }
+    return renderOptions(quizItem);
+  };
+
+  const renderSubmitButtons = (quizItem: QuizItem) => {
+    if (quizItem.type === QuestionDisplayType.Flashcard) {
+      return isCardFlipped ? (
+        <>
+          <button onClick={() => submit({ kind: 'self', knewIt: false })} className="px-4 py-2 bg-red-700 hover:bg-red-600 text-white rounded-md text-sm">No la sabía</button>
+          <button onClick={() => submit({ kind: 'self', knewIt: true })} className="px-4 py-2 bg-green-700 hover:bg-green-600 text-white rounded-md text-sm font-semibold">La sabía</button>
+        </>
+      ) : null;
+    }
+    const canSubmit = quizItem.type === QuestionDisplayType.OpenAnswer ? textAnswer.trim() !== '' : selected.length > 0;
+    return (
+      <button
+        onClick={() => submit(quizItem.type === QuestionDisplayType.OpenAnswer ? { kind: 'text', text: textAnswer } : { kind: 'choice', selected })}
+        disabled={!canSubmit}
+        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-semibold disabled:bg-neutral-700 disabled:text-neutral-400 disabled:cursor-not-allowed"
+      >
+        Responder
+      </button>
+    );
+  };
+
+  const renderQuestion = (quizItem: QuizItem) => {
+    const typeInfo = getTypeInfo(quizItem.question);
+    const isFlagged = flaggedIds.has(quizItem.question.id);
+    return (
+      <>
+        <div className="flex justify-between items-center text-xs text-neutral-400 mb-2">
+          <span className="flex items-center gap-1.5">{typeInfo.icon}<span className={typeInfo.colorClass}>{typeInfo.label}</span></span>
+          <span>Pregunta {position + 1} de {items.length} · {results.filter(r => r.correct).length} acierto(s)</span>
+        </div>
+        <div className="h-1 bg-neutral-700 rounded-full mb-4 overflow-hidden">
+          <div className="h-full bg-blue-500" style={{ width: `${(position / items.length) * 100}%` }} />
+        </div>
+        <p className="text-lg text-neutral-100 mb-4 whitespace-pre-wrap break-words">{quizItem.question.Pregunta}</p>
+        <div className="flex-grow overflow-y-auto">
+          {renderAnswerArea(quizItem)}
+          {answered !== null && (
+            <div className={`mt-4 p-3 rounded-md border ${answered ? 'border-green-700 bg-green-900/30' : 'border-red-700 bg-red-900/30'}`}>
+              <p className={`flex items-center gap-2 font-semibold ${answered ? 'text-green-300' : 'text-red-300'}`}>
+                {answered ? <CheckCircleIcon className="w-5 h-5" /> : <XCircleIcon className="w-5 h-5" />}
+                {answered ? 'Correcto' : 'Incorrecto'}
+              </p>
+              {quizItem.question.Explicación && (
+                <p className="mt-2 text-sm text-neutral-200 whitespace-pre-wrap break-words">{quizItem.question.Explicación}</p>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="mt-4 flex flex-wrap justify-between items-center gap-2">
+          {answered !== null ? (
+            <div className="flex items-center gap-2 flex-grow">
+              {!isFlagged && (
+                <input
+                  type="text"
+                  value={flagNote}
+                  onChange={(e) => setFlagNote(e.target.value)}
+                  placeholder="Motivo (opcional): p. ej. la opción B también es correcta"
+                  className="flex-grow min-w-[12rem] p-1.5 bg-neutral-700 border border-neutral-600 rounded-md text-xs text-neutral-100"
+                />
+              )}
+              <button
+                onClick={() => toggleFlag(quizItem.question.id, flagNote)}
+                className={`px-3 py-1.5 text-xs rounded-md flex items-center gap-1.5 ${isFlagged ? 'bg-orange-700 hover:bg-orange-600 text-white' : 'bg-neutral-700 hover:bg-neutral-600 text-neutral-200'}`}
+                title="Marca la pregunta para corregirla después en la tabla"
+              >
+                <FlagIcon className="w-4 h-4" /> {isFlagged ? 'Marcada para revisar (quitar)' : 'Marcar para revisar'}
+              </button>
+            </div>
+          ) : <span />}
+          <div className="flex gap-2">
+            {answered === null ? renderSubmitButtons(quizItem) : (
+              <button onClick={next} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-semibold" autoFocus>
+                {position + 1 < items.length ? 'Siguiente' : 'Ver resultado'}
+              </button>
+            )}
+          </div>
+        </div>
+      </>
+    );
+  };
+
+  const renderSummary = () => {
+    const correctCount = results.filter(r => r.correct).length;
+    const failed = results.filter(r => !r.correct);
+    const percentage = Math.round((correctCount / results.length) * 100);
+    return (
+      <>
+        <div className="text-center mb-4">
+          <p className="text-5xl font-bold text-neutral-100">{percentage} %</p>
+          <p className="text-neutral-400 mt-1">{correctCount} de {results.length} pregunta(s) correctas</p>
+        </div>
+        <div className="flex-grow overflow-y-auto">
+          {failed.length === 0 ? (
+            <p className="text-center text-green-300">¡Sin fallos!</p>
+          ) : (
+            <>
+              <h3 className="text-sm font-semibold text-neutral-300 mb-2">Falladas ({failed.length})</h3>
+              <ul className="space-y-1">
+                {failed.map(({ item: failedItem }) => {
+                  const isFlagged = flaggedIds.has(failedItem.question.id);
+                  return (
+                    <li key={failedItem.question.id} className="flex justify-between items-center gap-2 p-2 bg-neutral-900 rounded-md text-sm">
+                      <span className="text-neutral-200 truncate" title={failedItem.question.Pregunta}>{failedItem.question.Pregunta}</span>
+                      <button
+                        onClick={() => toggleFlag(failedItem.question.id, '')}
+                        className={`px-2 py-1 text-xs rounded flex-shrink-0 ${isFlagged ? 'bg-orange-700 hover:bg-orange-600 text-white' : 'bg-neutral-700 hover:bg-neutral-600 text-neutral-200'}`}
+                      >
+                        {isFlagged ? 'Marcada' : 'Marcar para revisar'}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+        </div>
+        <div className="mt-4 flex justify-end gap-2">
+          {failed.length > 0 && (
+            <button onClick={() => restart(failed.map(r => r.item.question), shuffleOrder)} className="px-4 py-2 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded-md text-sm">
+              Repetir las falladas
+            </button>
+          )}
+          <button onClick={() => restart(questions, shuffleOrder)} className="px-4 py-2 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded-md text-sm">
+            Empezar de nuevo
+          </button>
+          <button onClick={onClose} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-semibold">
+            Cerrar
+          </button>
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-neutral-800 p-6 rounded-xl shadow-2xl w-full max-w-3xl h-[85vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-semibold text-neutral-100">Modo práctica</h2>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-1.5 text-xs text-neutral-400 cursor-pointer" title="Se aplica al empezar de nuevo">
+              <input
+                type="checkbox"
+                checked={shuffleOrder}
+                onChange={(e) => setShuffleOrder(e.target.checked)}
+                className="form-checkbox h-4 w-4 text-blue-500 bg-neutral-700 border-neutral-600 rounded"
+              />
+              Orden aleatorio
+            </label>
+            <button onClick={onClose} className="p-1 text-neutral-400 hover:text-neutral-100" aria-label="Cerrar modo práctica">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+        {items.length === 0 ? (
+          <p className="text-neutral-400 italic">No hay preguntas que se puedan practicar (las vacías o de tipo desconocido se omiten).</p>
+        ) : isFinished ? renderSummary() : renderQuestion(item)}
+      </div>
+    </div>
+  );
+};
+
+export default QuizRunner;
@@ -0,0 +1,148 @@
+import React from 'react';
+import { QuestionData, QuestionTextField, StagedQuestion } from '../types';
+import { REVIEWABLE_FIELDS, getChangedFields } from '../utils/questionStaging';
+import { diffWords } from '../utils/textDiff';
+import { CheckCircleIcon, XCircleIcon, SparklesIcon } from './icons';
+
+interface RewriteReviewPanelProps {
+  stagedQuestions: StagedQuestion[];
+  questionsById: Map<string, QuestionData>; // Current bank, to diff rewrites against
+  disabled?: boolean;
+  onAccept: (stagedIds: string[]) => void;
+  onReject: (stagedIds: string[]) => void;
+  onToggleField: (stagedId: string, field: QuestionTextField) => void;
+}
+
+const FieldDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+  <p className="whitespace-pre-wrap break-words text-xs">
+    {diffWords(before, after).map((segment, index) => {
+      if (segment.type === 'added') return <ins key={index} className="bg-green-900 text-green-200 no-underline rounded-sm">{segment.text}</ins>;
+      if (segment.type === 'removed') return <del key={index} className="bg-red-900 text-red-200 rounded-sm">{segment.text}</del>;
+      return <span key={index} className="text-neutral-300">{segment.text}</span>;
+    })}
+  </p>
+);
+
+const RewriteReviewPanel: React.FC<RewriteReviewPanelProps> = ({
+  stagedQuestions,
+  questionsById,
+  disabled = false,
+  onAccept,
+  onReject,
+  onToggleField,
+}) => {
+  const allIds = stagedQuestions.map(s => s.id);
+
+  const renderStagedQuestion = (staged: StagedQuestion) => {
+    const original = questionsById.get(staged.question.id);
+    const changedFields = original ? getChangedFields(original, staged.question) : [];
+
+    return (
+      <li key={staged.id} className="p-3 bg-neutral-900 border border-neutral-700 rounded-md">
+        <div className="flex justify-between items-start gap-2 mb-2">
+          <div className="min-w-0">
+            <span className={`inline-block px-2 py-0.5 rounded text-xs font-semibold ${original ? 'bg-purple-900 text-purple-200' : 'bg-teal-900 text-teal-200'}`}>
+              {original ? 'Reescrita' : 'Nueva'}
+            </span>
+            <span className="ml-2 text-xs text-neutral-400 truncate" title={staged.requestPrompt}>
+              Solicitud: "{staged.requestPrompt.substring(0, 60)}{staged.requestPrompt.length > 60 ? '...' : ''}"
+            </span>
+          </div>
+          <div className="flex gap-1 flex-shrink-0">
+            <button
+              onClick={() => onAccept([staged.id])}
+              disabled={disabled}
+              className="px-2 py-1 bg-green-700 hover:bg-green-600 text-white text-xs rounded flex items-center gap-1 disabled:bg-neutral-700 disabled:text-neutral-400"
+            >
+              <CheckCircleIcon className="w-4 h-4" /> Aceptar
+            </button>
+            <button
+              onClick={() => onReject([staged.id])}
+              disabled={disabled}
+              className="px-2 py-1 bg-red-700 hover:bg-red-600 text-white text-xs rounded flex items-center gap-1 disabled:bg-neutral-700 disabled:text-neutral-400"
+            >
+              <XCircleIcon className="w-4 h-4" /> Rechazar
+            </button>
+          </div>
+        </div>
+
+        {original ? (
+          changedFields.length === 0 ? (
+            <p className="text-xs italic text-neutral-400">La reescritura no cambia ningún campo.</p>
+          ) : (
+            <table className="w-full text-left">
+              <tbody>
+                {changedFields.map(field => {
+                  const isAccepted = !staged.rejectedFields.includes(field);
+                  return (
+                    <tr key={field} className={`border-t border-neutral-800 align-top ${isAccepted ? '' : 'opacity-50'}`}>
+                      <td className="py-1 pr-2 w-8">
+                        <input
+                          type="checkbox"
+                          checked={isAccepted}
+                          onChange={() => onToggleField(staged.id, field)}
+                          disabled={disabled}
+                          className="form-checkbox h-4 w-4 text-blue-500 bg-neutral-700 border-neutral-600 rounded cursor-pointer"
+                          aria-label={`Aplicar cambio en ${String(field)}`}
+                          title={isAccepted ? "Cambio aceptado (desmarca para conservar el valor original)" : "Cambio rechazado (se conservará el valor original)"}
+                        />
+                      </td>
+                      <td className="py-1 pr-2 w-40 text-xs font-medium text-blue-300">{String(field)}</td>
+                      <td className="py-1">
+                        <FieldDiff before={original[field] || ''} after={staged.question[field] || ''} />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )
+        ) : (
+          <dl className="grid grid-cols-[10rem_1fr] gap-x-2 gap-y-1 text-xs">
+            {REVIEWABLE_FIELDS.filter(field => (staged.question[field] || '').trim() !== '').map(field => (
+              <React.Fragment key={field}>
+                <dt className="font-medium text-blue-300">{String(field)}</dt>
+                <dd className="text-neutral-200 whitespace-pre-wrap break-words">{staged.question[field]}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="mb-4 bg-neutral-800 border border-purple-700 rounded-lg">
+      <div className="flex justify-between items-center gap-2 p-3 border-b border-neutral-700">
+        <h3 className="text-lg font-semibold text-neutral-100 flex items-center gap-2">
+          <SparklesIcon className="w-5 h-5 text-purple-400" />
+          Revisión de Reescrituras ({stagedQuestions.length})
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onReject(allIds)}
+            disabled={disabled}
+            className="px-3 py-1.5 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 text-xs rounded-md disabled:text-neutral-500"
+          >
+            Rechazar todo
+          </button>
+          <button
+            onClick={() => onAccept(allIds)}
+            disabled={disabled}
+            className="px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white text-xs rounded-md font-semibold disabled:bg-neutral-700 disabled:text-neutral-400"
+          >
+            Aceptar todo
+          </button>
+        </div>
+      </div>
+      <p className="px-3 pt-2 text-xs text-neutral-400">
+        Las preguntas propuestas por la IA no entran al banco hasta que las aceptes. En las reescrituras puedes desmarcar campos concretos para conservar su valor original.
+      </p>
+      <ul className="p-3 space-y-3 max-h-[32rem] overflow-y-auto">
+        {stagedQuestions.map(renderStagedQuestion)}
+      </ul>
+    </div>
+  );
+};
+
+export default RewriteReviewPanel;
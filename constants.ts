@@ -24,4 +24,45 @@ export const ANIMATION_DEBOUNCE_TIME = 2500; // ms for "Pregunta generada" anima
 export const LOCAL_STORAGE_API_KEY = 'geminiUserApiKey';
 export const LOCAL_STORAGE_CLOUDINARY_CLOUD_NAME = 'cloudinaryCloudName';
 export const LOCAL_STORAGE_CLOUDINARY_UPLOAD_PRESET = 'cloudinaryUploadPreset';
-export const LOCAL_STORAGE_CLOUDINARY_AUTO_UPLOAD = 'cloudinaryAutoUpload';
\ No newline at end of file
+export const LOCAL_STORAGE_CLOUDINARY_AUTO_UPLOAD = 'cloudinaryAutoUpload';
+
+export const INDEXED_DB_NAME = 'questionerMakerDb';
+export const INDEXED_DB_VERSION = 2;
+export const AUTOSAVE_DEBOUNCE_TIME = 1000; // ms to wait after the last change before autosaving the workspace
+
+export const LOCAL_STORAGE_ACTIVE_PROJECT_ID = 'activeProjectId';
+export const RECENT_PROJECTS_LIMIT = 5;
+
+export const MAX_HISTORY_ENTRIES = 100; // Undo/redo entries kept for the question table
+
+// Fixed Anki note type ids so re-importing a deck updates the same note types instead of duplicating them
+export const ANKI_BASIC_MODEL_ID = 1716300000001;
+export const ANKI_CHOICE_MODEL_ID = 1716300000002;
+
+export const LOCAL_STORAGE_CSV_COLUMN_MAPPINGS = 'csvColumnMappings'; // Remembered import mappings, keyed by header signature
+
+export const LOCAL_STORAGE_LLM_PROVIDER_SETTINGS = 'llmProviderSettings';
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1'; // Ollama's default; llama.cpp's server uses http://localhost:8080/v1
+
+export const LOCAL_STORAGE_QUEUE_SCHEDULER_SETTINGS = 'queueSchedulerSettings';
+export const MAX_RATE_LIMIT_RETRIES = 5; // Retries after 429/503 per request; they don't count as overall attempts
+export const RATE_LIMIT_BACKOFF_BASE_MS = 2000;
+export const RATE_LIMIT_BACKOFF_MAX_MS = 60000;
+export const ESTIMATED_OUTPUT_TOKENS_PER_REQUEST = 8000; // Added to each request's input estimate for the tokens-per-minute budget
+
+export const MAX_TARGET_FOLLOW_UP_CALLS = 2; // Extra generation calls per request to fill a shortfall against its count/type targets
+
+export const DEFAULT_DOCUMENT_CHUNK_TOKENS = 8000; // Budget per chunk in "Generar desde documento" (estimated, ~4 characters per token)
+
+export const LOCAL_STORAGE_RETRIEVAL_SETTINGS = 'contextRetrievalSettings';
+export const RETRIEVAL_PASSAGE_TOKENS = 400; // Size of the passages the local retrieval index is built from
+
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.8; // Jaccard similarity of the question texts above which two questions count as near-duplicates
+
+export const LOCAL_STORAGE_LINT_SETTINGS = 'questionLintSettings'; // Enabled rules and their severity
+
+export const VERIFICATION_BATCH_SIZE = 10; // Questions sent per fact-check call
+
+export const LOCAL_STORAGE_EXAM_SETTINGS = 'printableExamSettings'; // Versions, included types and points per type of the printable exam
+
+export const QUESTION_ROW_ESTIMATED_HEIGHT = 80; // px of a collapsed table row, used for rows of the virtualized table not measured yet
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { GoogleGenAI, Part, Schema, Type } from "@google/genai";
+import { GEMINI_MODEL_FLASH, GEMINI_MODEL_PRO, GEMINI_MODEL_FLASH_LITE } from '../constants';
+import { LlmProviderId, ThinkingIntensity } from '../types';
+import { LlmProvider, LlmPart, LlmJsonSchema, LlmModelSelection } from './llmProvider';
+
+const SCHEMA_TYPES: Record<LlmJsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: LlmJsonSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  description: schema.description,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+  // Gemini emits properties alphabetically unless told otherwise; keep the declared order.
+  propertyOrdering: schema.properties ? Object.keys(schema.properties) : undefined,
+  required: schema.required,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  enum: schema.enum,
+  nullable: schema.nullable,
+});
+
+// Gemini accepts inline files directly; only the file name (used by other adapters) is dropped.
+const toGeminiParts = (parts: LlmPart[]): Part[] =>
+  parts.map(part => ('inlineData' in part ? { inlineData: part.inlineData } : { text: part.text }));
+
+const resolveGeminiModel = (intensity: ThinkingIntensity): LlmModelSelection => {
+  switch (intensity) {
+    case ThinkingIntensity.Fast:
+      return { model: GEMINI_MODEL_FLASH, thinkingBudget: 0, description: 'Rápido, razonamiento deshabilitado' };
+    case ThinkingIntensity.Medium:
+      return { model: GEMINI_MODEL_FLASH_LITE, description: 'Medio, razonamiento por defecto' };
+    case ThinkingIntensity.VeryHigh:
+      return { model: GEMINI_MODEL_PRO, description: 'Muy Alto, razonamiento por defecto' };
+    case ThinkingIntensity.High:
+    default:
+      return { model: GEMINI_MODEL_FLASH, description: 'Alto, razonamiento por defecto' };
+  }
+};
+
+export const createGeminiProvider = (apiKey: string): LlmProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: LlmProviderId.Gemini,
+    displayName: 'Gemini',
+    defaultModel: GEMINI_MODEL_FLASH,
+    supportsStreamingSchema: true,
+    resolveModel: resolveGeminiModel,
+
+    async *generateStream(parts, { model, thinkingBudget, json, schema, signal }) {
+      const responseStream = await ai.models.generateContentStream({
+        model,
+        contents: [{ parts: toGeminiParts(parts) }],
+        config: {
+          abortSignal: signal,
+          ...(json || schema ? { responseMimeType: "application/json" } : {}),
+          ...(schema ? { responseSchema: toGeminiSchema(schema) } : {}),
+          ...(thinkingBudget !== undefined ? { thinkingConfig: { thinkingBudget } } : {}),
+        },
+      });
+      for await (const chunk of responseStream) {
+        signal?.throwIfAborted();
+        if (chunk.text) yield chunk.text;
+      }
+    },
+
+    async generateJson(parts, { model, schema, signal }) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: [{ parts: toGeminiParts(parts) }],
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          ...(schema ? { responseSchema: toGeminiSchema(schema) } : {}),
+        },
+      });
+      return response.text ?? '';
+    },
+
+    async listModels() {
+      const models: string[] = [];
+      const pager = await ai.models.list();
+      for await (const model of pager) {
+        if (model.name && (!model.supportedActions || model.supportedActions.includes('generateContent'))) {
+          models.push(model.name.replace(/^models\//, ''));
+        }
+      }
+      return models;
+    },
+  };
+};
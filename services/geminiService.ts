@@ -1,6 +1,11 @@
-import { GoogleGenAI, GenerateContentResponse, Part, Type } from "@google/genai";
-import { GEMINI_MODEL_FLASH, GEMINI_MODEL_PRO, GEMINI_MODEL_FLASH_LITE, MAX_JSON_CORRECTION_ATTEMPTS, REWRITE_QUESTIONS_FILENAME } from '../constants';
-import { QuestionData, LogType, ThinkingIntensity } from "../types"; 
+import { MAX_JSON_CORRECTION_ATTEMPTS, REWRITE_QUESTIONS_FILENAME } from '../constants';
+import { QuestionData, QuestionCitation, QuestionTargets, QuestionVerification, QuestionVerificationStatus, LogType, ThinkingIntensity } from "../types"; 
+import { LlmProvider, LlmPart, LlmJsonSchema, collectStreamText } from './llmProvider';
+import { constructInitialPrompt, constructJsonCorrectionPrompt, constructVerificationPrompt } from './promptBuilder';
+import { parseQuestionMetadata } from '../utils/questionMetadata';
+
+// Generation flows (questions, title, metadata). The backend is whichever LlmProvider the caller
+// passes in; the "FromGemini" names and Gemini* log types predate the provider layer.
 
 type AddLogEntryFn = (type: LogType, message: string, details?: any) => void;
 type SetLiveStreamContentFn = (chunk: string, replace?: boolean) => void;
@@ -10,7 +15,61 @@ export interface CollectionMetadata {
     descripcion: string;
 }
 
-const fileToGenerativePart = async (file: File, addLogEntry: AddLogEntryFn): Promise<Part | { error: string, fileName: string }> => {
+const optionalTextField = (description: string): LlmJsonSchema => ({ type: 'string', description: `${description} Cadena vacía si no se usa.` });
+
+// Structured output for question generation. Every field but "id" is required, so unused options
+// come back as "" (what the prompt asks for) instead of being omitted.
+const QUESTIONS_RESPONSE_SCHEMA: LlmJsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            id: { type: 'string', nullable: true, description: "ID original de la pregunta reescrita. Omitido o null en preguntas nuevas." },
+            Pregunta: { type: 'string', description: "Texto de la pregunta." },
+            'Opción correcta 1': optionalTextField("Primera opción correcta."),
+            'Opción Correcta 2': optionalTextField("Segunda opción correcta (o respuesta de una flashcard)."),
+            'Opción Correcta 3': optionalTextField("Tercera opción correcta."),
+            'Opción Incorrecta 1': optionalTextField("Primera opción incorrecta."),
+            'Opción Incorrecta 2': optionalTextField("Segunda opción incorrecta."),
+            'Opción Incorrecta 3': optionalTextField("Tercera opción incorrecta."),
+            Explicación: optionalTextField("Explicación detallada de la respuesta."),
+            Fuente: {
+                type: 'object',
+                nullable: true,
+                description: "Origen de la pregunta en el material de contexto. Null si no hay material de contexto.",
+                properties: {
+                    archivo: { type: 'string', description: "Nombre del archivo, o \"Contexto general\" para el texto pegado." },
+                    ubicacion: { type: 'string', description: "Página o sección." },
+                    cita: { type: 'string', description: "Fragmento literal y breve del material que respalda la respuesta." },
+                },
+                required: ['archivo', 'ubicacion', 'cita'],
+            },
+            Etiquetas: { type: 'array', items: { type: 'string' }, description: "De 1 a 3 temas breves de la pregunta." },
+            Dificultad: { type: 'string', enum: ['facil', 'media', 'dificil'], description: "Dificultad estimada para un estudiante del nivel del material." },
+            NivelBloom: { type: 'string', enum: ['recordar', 'comprender', 'aplicar', 'analizar', 'evaluar', 'crear'], description: "Nivel de la taxonomía de Bloom que exige la pregunta." },
+        },
+        required: ['Pregunta', 'Opción correcta 1', 'Opción Correcta 2', 'Opción Correcta 3', 'Opción Incorrecta 1', 'Opción Incorrecta 2', 'Opción Incorrecta 3', 'Explicación', 'Fuente', 'Etiquetas', 'Dificultad', 'NivelBloom'],
+    },
+};
+
+// Models without structured output support (e.g. Gemma served through the Gemini API) reject the
+// request up front instead of ignoring the schema.
+const isSchemaUnsupportedError = (error: any): boolean =>
+    /response_?schema|response_?mime_?type|json mode|structured output/i.test(String(error?.message || ''));
+
+// "Fuente" is optional metadata: a missing or malformed one drops the citation, never the question.
+const parseCitation = (value: any): QuestionCitation | undefined => {
+    if (typeof value !== 'object' || value === null) return undefined;
+    const quote = typeof value.cita === 'string' ? value.cita.trim() : '';
+    if (!quote) return undefined;
+    return {
+        file: typeof value.archivo === 'string' ? value.archivo.trim() : '',
+        location: typeof value.ubicacion === 'string' ? value.ubicacion.trim() : '',
+        quote,
+    };
+};
+
+const fileToGenerativePart = async (file: File, addLogEntry: AddLogEntryFn): Promise<LlmPart | { error: string, fileName: string }> => {
   try {
     const base64EncodedDataPromise = new Promise<string>((resolve, reject) => {
       const reader = new FileReader();
@@ -58,6 +117,7 @@ const fileToGenerativePart = async (file: File, addLogEntry: AddLogEntryFn): Pro
         mimeType: effectiveMimeType,
         data: base64EncodedData,
       },
+      fileName: file.name,
     };
   } catch (e: any) {
     addLogEntry(LogType.Error, `Error procesando archivo "${file.name}" a base64.`, {fileName: file.name, error: e.message});
@@ -85,163 +145,8 @@ const readFileContentAsString = (file: File, addLogEntry: AddLogEntryFn): Promis
     });
 };
 
-const constructInitialPrompt = (
-    generalContextText: string,
-    generalContextFilesForNotice: File[], // Only for generating file notice string
-    requestPrompt: string,
-    requestSpecificFilesForNotice: File[], // Only for generating file notice string (excluding rewrite file)
-    processedFileErrorMessages: string[],
-    rewriteJsonContent?: string, // Content of questions_to_rewrite.json, if present
-    existingQuestionsCsv?: string, 
-    overallRetryError?: string
-): string => {
-    let generalFilesNotice = "";
-    if (generalContextFilesForNotice.length > 0) {
-        const fileNames = generalContextFilesForNotice.map(f => `"${f.name}"`).join(', ');
-        generalFilesNotice = `The following general context files have been provided. Their content is crucial for your response: [${fileNames}]. You must base your answers on this information.\n`;
-    }
-
-    let requestFilesNotice = "";
-    if (requestSpecificFilesForNotice.length > 0) {
-        const fileNames = requestSpecificFilesForNotice.map(f => `"${f.name}"`).join(', ');
-        requestFilesNotice = `Additionally, for this specific request, the user has attached: [${fileNames}]. Consider these files with high priority for this request.\n`;
-    }
-    
-    let fileProcessingErrorsNotice = "";
-    if (processedFileErrorMessages.length > 0) {
-        fileProcessingErrorsNotice = "NOTICE: Some files could not be processed and their content is unavailable:\n" + processedFileErrorMessages.map(msg => `- ${msg}`).join('\n') + "\n";
-    }
-
-    let existingQuestionsContext = "";
-    if (existingQuestionsCsv && existingQuestionsCsv.trim() !== '' && existingQuestionsCsv.split('\n').length > 1) { 
-        existingQuestionsContext = `Contexto Adicional: Banco de Preguntas Existente (formato CSV interno para tu referencia. NO intentes replicar este formato CSV en tu salida JSON, sigue usando la estructura JSON con "" para campos vacíos):\n---\n${existingQuestionsCsv}\n---\nConsidera estas preguntas para evitar duplicados y generar contenido complementario o diferente.\n`;
-    }
-
-    let rewriteInstructions = "";
-    if (rewriteJsonContent) {
-        rewriteInstructions = `
-ADEMÁS, esta es una SOLICITUD DE REESCRITURA.
-Se te proporcionan las siguientes preguntas en formato JSON array. Debes procesar cada pregunta de este array.
---- INICIO DE JSON DE PREGUNTAS A REESCRIBIR ---
-${rewriteJsonContent}
---- FIN DE JSON DE PREGUNTAS A REESCRIBIR ---
-
-Para cada pregunta en el JSON anterior:
-1.  Reescríbela basándote en la "Instrucción específica para esta tanda de preguntas" (que es: "${requestPrompt}").
-2.  En tu respuesta JSON, DEBES incluir el campo "id" ORIGINAL de la pregunta que estás reescribiendo.
-    Ejemplo de objeto reescrito: { "id": "id-original-de-la-pregunta", "Pregunta": "...", ... }
-Si, además de reescribir, decides generar preguntas COMPLETAMENTE NUEVAS (no basadas en las del JSON anterior), para estas preguntas NUEVAS, NO incluyas un campo "id" en el objeto JSON, o establécelo a null. El sistema les asignará un ID nuevo.
-`;
-    }
-
-
-    const questionObjectStructure = `{
-  "id": "string_or_null (SOLO para preguntas REESCRITAS, usa el ID original. Para preguntas NUEVAS, omite este campo o usa null)",
-  "Pregunta": "string (texto de la pregunta)",
-  "Opción correcta 1": "string (texto de la opción)",
-  "Opción Correcta 2": "string_or_empty_string", 
-  "Opción Correcta 3": "string_or_empty_string", 
-  "Opción Incorrecta 1": "string_or_empty_string", 
-  "Opción Incorrecta 2": "string_or_empty_string", 
-  "Opción Incorrecta 3": "string_or_empty_string", 
-  "Explicación": "string_or_empty_string" 
-}`;
-
-    return `Eres un asistente experto en crear material de estudio para la plataforma "Haikú".
-Tu tarea es generar preguntas basadas en el contexto y las instrucciones proporcionadas.
-DEBES responder ÚNICAMENTE con un array JSON. Cada objeto en el array representa una pregunta.
-NO incluyas NADA de texto fuera del array JSON (ni introducciones, ni despedidas, ni explicaciones adicionales fuera del JSON).
-
-La estructura de cada objeto JSON de pregunta DEBE ser la siguiente:
-${questionObjectStructure}
-
-${rewriteJsonContent ? rewriteInstructions : ''}
-
-Campos Opcionales: Si un campo opcional (como 'Opción Correcta 2', 'Opción Incorrecta 1', etc.) no se utiliza para una pregunta específica, establece su valor a una cadena vacía \`""\`. NO uses \`null\` para estos campos de opciones/explicación.
-
-**Explicaciones Detalladas y Obligatorias:** Siempre DEBES incluir una 'Explicación' para cada pregunta. Esta explicación debe ser lo más detallada posible, basándose exhaustivamente en el material de contexto proporcionado. Si el material no ofrece una explicación directa para una pregunta particular, genera una explicación concisa pero informativa tú mismo. La 'Explicación' NUNCA debe ser \`null\`; usa una cadena vacía \`""\` solo si es absolutamente imposible generar cualquier forma de explicación (lo cual debería ser raro). Esfuérzate por utilizar la mayor cantidad de tokens necesarios para que las explicaciones sean completas y útiles, sin ser innecesariamente verbosas.
-
-${generalFilesNotice}
-Contexto general proporcionado (texto):
----
-${generalContextText || "No se proporcionó contexto general en formato texto."}
----
-
-${requestFilesNotice}
-${existingQuestionsContext}
-Instrucción específica para esta tanda de preguntas: "${requestPrompt}" 
-${rewriteJsonContent ? `(Nota: Para la reescritura, esta es la instrucción principal que debes seguir para modificar las preguntas del JSON proporcionado.)` : ''}
-
-
-${fileProcessingErrorsNotice}
-
-Tipos de preguntas y cómo definirlas en JSON:
--   Pregunta de Selección Única: Solo 'Opción correcta 1' tiene valor. 'Opción Correcta 2' y 'Opción Correcta 3' deben ser \`""\`. Incluye al menos una opción incorrecta con valor (o \`""\` si no aplica).
--   Pregunta de Selección Múltiple: 'Opción correcta 1' Y TAMBIÉN 'Opción Correcta 2' (y/o 'Opción Correcta 3') tienen valor.
--   Pregunta de Tipo Verdadero/Falso: Selección única. 'Opción correcta 1' (ej. "Verdadero"), 'Opción Incorrecta 1' (ej. "Falso"). Resto de opciones \`""\`.
--   Pregunta de Respuesta Escrita: Solo 'Opción correcta 1' tiene valor, que debe ser MUY CORTO (1 a 3 palabras máximo, idealmente solo 1). TODAS las opciones incorrectas DEBEN ser \`""\`.
--   Pregunta de Tipo Flashcard: Usada para respuestas largas (ensayos, conceptos). SOLO 'Opción Correcta 2' debe tener valor. 'Opción correcta 1', 'Opción Correcta 3' y TODAS las opciones incorrectas DEBEN ser \`""\`.
-
-Conformación de las preguntas y opciones:
--   Las opciones de respuesta SIEMPRE (a menos que sea la transcripción de preguntas añadidas por el usuario) deben muy breves, centrándose en colocar el nombre de los términos usando entre 1 a 4 palabras.
--   Cuando hay necesidad de poner opciones de respuesta largas, la respuesta correcta NO puede ser más larga que las incorrectas debido a que por simple inspección o descarte se puede adivinar la opción correcta. Todas las opciones deben tener un tamaño similar.
--   Las respuestas de escritura NUNCA pueden ser textos largos, céntrate en hacerlas con el nombre del término y su definición o contenido dentro del campo de Pregunta.
-
-${overallRetryError ? `\n¡ATENCIÓN! UN INTENTO ANTERIOR GLOBAL PARA ESTA SOLICITUD FALLÓ: "${overallRetryError}". Por favor, intenta generar las preguntas de nuevo, prestando especial atención a las instrucciones y al formato JSON.\n` : ''}
-
-Genera un conjunto de preguntas que cumplan con la instrucción específica y el contexto proporcionado. El número de preguntas puede variar, pero prioriza la calidad y la cobertura del tema solicitado sobre un número fijo. Intenta generar al menos 1-3 preguntas si el material lo permite.
-Recuerda, tu respuesta DEBE ser solo el array JSON.
-
-RECUERDA GENERAR EL TIPO DE PREGUNTA QUE EL USUARIO ESPECIFICA LLENANDO LA OPCION CORRECTA/INCORRECTA (OC/OI): 
-- Si el usuario dice "Selección única" solo llenarás OC1 y OI1-3 (min. 2).
-- Si el usuario dice "Selección múltiple" solo llenarás OC1-3 (min 2) y OI1-3 (min. 1).
-- Si el usuario dice "verdadero o falso" solo llenarás OC1 y OC2.
-- Si el usuario dice "respuesta libre" o "escrita" solo llenarás OC1 con contenido corto.
-`;
-};
-
-const constructJsonCorrectionPrompt = (
-    faultyJsonOutput: string,
-    parsingErrorDetails: string
-): string => {
-    const questionObjectStructure = `{
-  "id": "string_or_null (SOLO para preguntas REESCRITAS, usa el ID original. Para preguntas NUEVAS, omite este campo o usa null)",
-  "Pregunta": "string",
-  "Opción correcta 1": "string",
-  "Opción Correcta 2": "string_or_empty_string", 
-  "Opción Correcta 3": "string_or_empty_string",
-  "Opción Incorrecta 1": "string_or_empty_string",
-  "Opción Incorrecta 2": "string_or_empty_string",
-  "Opción Incorrecta 3": "string_or_empty_string",
-  "Explicación": "string_or_empty_string" 
-}`;
-    return `Tu tarea anterior era generar un array JSON de preguntas, pero hubo un error en el formato de tu respuesta.
-
-El error detectado fue: "${parsingErrorDetails}"
-
-La respuesta ANTERIOR que generaste y que necesita CORRECCIÓN es:
----
-${faultyJsonOutput}
----
-
-Por favor, corrige ÚNICAMENTE el formato JSON de la respuesta anterior.
-Asegúrate de que la respuesta sea un array JSON VÁLIDO.
-Cada objeto en el array DEBE seguir esta estructura:
-${questionObjectStructure}
-
-NO generes preguntas nuevas. NO cambies el contenido sustancial de las preguntas si no es estrictamente necesario para corregir el formato JSON.
-Verifica comillas, comas, llaves y corchetes para asegurar que el JSON sea válido.
-Si un campo opcional no se usa, usa una cadena vacía \`""\`. NO uses \`null\` para campos de opciones/explicación. Para el campo "id", sigue las instrucciones: ID original para reescritas, null u omitido para nuevas.
-La 'Explicación' es obligatoria y debe ser una cadena (puede ser \`""\` si es imposible una explicación).
-
-
-Vuelve a generar la respuesta COMPLETA, con el formato JSON corregido. Solo el array JSON.
-`;
-};
-
-
 export const generateQuestionsFromGemini = async (
-  apiKey: string,
+  provider: LlmProvider,
   generalContextText: string,
   generalContextFiles: File[], 
   requestPrompt: string,
@@ -250,20 +155,16 @@ export const generateQuestionsFromGemini = async (
   addLogEntry: AddLogEntryFn,
   setLiveStreamContent: SetLiveStreamContentFn,
   existingQuestionsCsv?: string, 
-  overallAttemptError?: string
-): Promise<{ rawText: string; parsedQuestions: QuestionData[]; jsonCorrectionAttempts: number }> => {
-  if (!apiKey) { 
-    addLogEntry(LogType.Error, "generateQuestionsFromGemini: API_KEY no fue proporcionada al servicio Gemini.");
-    throw new Error("API_KEY no fue proporcionada al servicio Gemini.");
-  }
-
-  const ai = new GoogleGenAI({ apiKey });
-
+  overallAttemptError?: string,
+  targets?: QuestionTargets, // Count and type mix the prompt asks for; checking the result is up to the caller
+  signal?: AbortSignal // Cancels the stream and any pending correction call
+): Promise<{ rawText: string; parsedQuestions: QuestionData[]; jsonCorrectionAttempts: number; structuredOutput: boolean }> => {
   let jsonCorrectionAttempts = 0;
+  let structuredOutput = provider.supportsStreamingSchema; // Cleared if the model turns out not to accept the schema
   let lastGeminiRawOutput = "";
   let lastJsonErrorForReprompt: string | undefined;
 
-  const currentParts: Part[] = [];
+  const currentParts: LlmPart[] = [];
   const processedFileErrorMessages: string[] = [];
   let rewriteJsonFileContent: string | undefined = undefined;
 
@@ -311,89 +212,83 @@ export const generateQuestionsFromGemini = async (
     processedFileErrorMessages,
     rewriteJsonFileContent, // Pass the content of the rewrite file
     existingQuestionsCsv, 
-    overallAttemptError
+    overallAttemptError,
+    targets
   );
   
   const initialContentRequestParts = [...currentParts, { text: initialPromptText }];
 
-  let modelName: string;
-  const modelConfig: { responseMimeType: string; thinkingConfig?: { thinkingBudget: number } } = {
-    responseMimeType: "application/json",
-  };
+  const { model: modelName, thinkingBudget, description: modelDescription } = provider.resolveModel(thinkingIntensity);
+  addLogEntry(LogType.Info, `Usando ${provider.displayName}: modelo ${modelName} (${modelDescription}).`);
 
-  switch (thinkingIntensity) {
-    case ThinkingIntensity.Fast:
-      modelName = GEMINI_MODEL_FLASH;
-      modelConfig.thinkingConfig = { thinkingBudget: 0 };
-      addLogEntry(LogType.Info, `Usando modelo ${modelName} (Rápido) con razonamiento deshabilitado.`);
-      break;
-    case ThinkingIntensity.Medium:
-      modelName = GEMINI_MODEL_FLASH_LITE;
-      addLogEntry(LogType.Info, `Usando modelo ${modelName} (Medio) con razonamiento por defecto.`);
-      break;
-    case ThinkingIntensity.VeryHigh:
-      modelName = GEMINI_MODEL_PRO;
-      addLogEntry(LogType.Info, `Usando modelo ${modelName} (Muy Alto) con razonamiento por defecto.`);
-      break;
-    case ThinkingIntensity.High:
-    default:
-      modelName = GEMINI_MODEL_FLASH;
-      addLogEntry(LogType.Info, `Usando modelo ${modelName} (Alto) con razonamiento por defecto.`);
+  // Runs once, or twice when the model rejects the schema.
+  while (true) {
+    try {
+      addLogEntry(LogType.GeminiRequest, `Solicitud inicial (streaming) a ${provider.displayName} (intento general ${overallAttemptError ? 'con reintento' : '1'})`, { 
+          provider: provider.id,
+          model: modelName,
+          structuredOutput,
+          targets,
+          promptLength: initialPromptText.length, 
+          filesAttachedAsParts: currentParts.filter(p => 'inlineData' in p).length, 
+          isRewrite: !!rewriteJsonFileContent,
+          existingQuestionsContextProvided: !!existingQuestionsCsv, 
+          processedFileErrorMessages,
+      });
+      setLiveStreamContent('', true); 
+
+      const responseStream = provider.generateStream(initialContentRequestParts, {
+          model: modelName,
+          thinkingBudget,
+          json: true,
+          schema: structuredOutput ? QUESTIONS_RESPONSE_SCHEMA : undefined,
+          signal,
+      });
+
+      let aggregatedStreamOutput = "";
+      for await (const chunkText of responseStream) {
+        if (chunkText) {
+          aggregatedStreamOutput += chunkText;
+          setLiveStreamContent(chunkText, false); 
+          addLogEntry(LogType.GeminiStream, `Chunk recibido de ${provider.displayName}`, { chunkLength: chunkText.length });
+        }
+      }
+      lastGeminiRawOutput = aggregatedStreamOutput;
+      addLogEntry(LogType.GeminiResponse, `Stream de ${provider.displayName} finalizado. Contenido agregado (longitud: ${lastGeminiRawOutput.length})`, { aggregatedResponsePreview: lastGeminiRawOutput.substring(0, 300) + (lastGeminiRawOutput.length > 300 ? "..." : "") });
       break;
-  }
 
-  try {
-    addLogEntry(LogType.GeminiRequest, `Solicitud inicial (streaming) a Gemini (intento general ${overallAttemptError ? 'con reintento' : '1'})`, { 
-        model: modelName,
-        promptLength: initialPromptText.length, 
-        filesAttachedAsParts: currentParts.filter(p => !!p.inlineData).length, 
-        isRewrite: !!rewriteJsonFileContent,
-        existingQuestionsContextProvided: !!existingQuestionsCsv, 
-        processedFileErrorMessages,
-    });
-    setLiveStreamContent('', true); 
-
-    const responseStream = await ai.models.generateContentStream({
-        model: modelName,
-        contents: [{ parts: initialContentRequestParts }],
-        config: modelConfig,
-    });
-
-    let aggregatedStreamOutput = "";
-    for await (const chunk of responseStream) {
-      const chunkText = chunk.text;
-      if (chunkText) {
-        aggregatedStreamOutput += chunkText;
-        setLiveStreamContent(chunkText, false); 
-        addLogEntry(LogType.GeminiStream, "Chunk recibido de Gemini", { chunkLength: chunkText.length });
-      }
+    } catch (streamError: any) {
+       if (signal?.aborted) {
+         addLogEntry(LogType.Warning, `Streaming de ${provider.displayName} cancelado por el usuario.`);
+         throw streamError;
+       }
+       if (structuredOutput && isSchemaUnsupportedError(streamError)) {
+         structuredOutput = false;
+         addLogEntry(LogType.Warning, `El modelo ${modelName} no admite salida estructurada. Se repite la solicitud sin esquema; la corrección JSON actuará si hace falta.`, { error: streamError.message });
+         continue;
+       }
+       addLogEntry(LogType.Error, `Error durante el streaming inicial de ${provider.displayName}.`, { error: streamError.message, stack: streamError.stack, promptLength: initialPromptText.length });
+       throw streamError; 
     }
-    lastGeminiRawOutput = aggregatedStreamOutput;
-    addLogEntry(LogType.GeminiResponse, `Stream de Gemini finalizado. Contenido agregado (longitud: ${lastGeminiRawOutput.length})`, { aggregatedResponsePreview: lastGeminiRawOutput.substring(0, 300) + (lastGeminiRawOutput.length > 300 ? "..." : "") });
-
-  } catch (streamError: any) {
-     addLogEntry(LogType.Error, `Error durante el streaming inicial de Gemini.`, { error: streamError.message, stack: streamError.stack, promptLength: initialPromptText.length });
-     throw streamError; 
   }
 
 
   while (jsonCorrectionAttempts < MAX_JSON_CORRECTION_ATTEMPTS) {
     try {
         if (jsonCorrectionAttempts > 0) { 
+            signal?.throwIfAborted();
+            if (jsonCorrectionAttempts === 1) {
+                addLogEntry(LogType.Warning, `Se recurre a la corrección JSON (${structuredOutput ? 'la salida estructurada no superó la validación' : 'sin salida estructurada'}).`, { provider: provider.id, model: modelName, structuredOutput });
+            }
             const correctionPromptText = constructJsonCorrectionPrompt(lastGeminiRawOutput, lastJsonErrorForReprompt || "Error de parseo desconocido");
             addLogEntry(LogType.GeminiRequest, `Corrección JSON intento ${jsonCorrectionAttempts + 1}. Error anterior: ${lastJsonErrorForReprompt}`, { promptLength: correctionPromptText.length });
             
-            const correctionResponse: GenerateContentResponse = await ai.models.generateContent({
-                model: GEMINI_MODEL_FLASH,
-                contents: [{ parts: [{text: correctionPromptText}] }], 
-                config: { responseMimeType: "application/json" }
-            });
-            lastGeminiRawOutput = correctionResponse.text;
-            addLogEntry(LogType.GeminiResponse, `Respuesta de corrección de Gemini recibida (intento ${jsonCorrectionAttempts + 1})`, { responseLength: lastGeminiRawOutput.length, responsePreview: lastGeminiRawOutput.substring(0,300) });
+            lastGeminiRawOutput = await provider.generateJson([{text: correctionPromptText}], { model: provider.defaultModel, signal });
+            addLogEntry(LogType.GeminiResponse, `Respuesta de corrección de ${provider.displayName} recibida (intento ${jsonCorrectionAttempts + 1})`, { responseLength: lastGeminiRawOutput.length, responsePreview: lastGeminiRawOutput.substring(0,300) });
         }
         
         if (!lastGeminiRawOutput || lastGeminiRawOutput.trim() === '') {
-            const errorMsg = "Gemini devolvió una respuesta JSON vacía.";
+            const errorMsg = `${provider.displayName} devolvió una respuesta JSON vacía.`;
             addLogEntry(LogType.Error, errorMsg, { attempt: jsonCorrectionAttempts });
              if (jsonCorrectionAttempts >= 0 ) { // Always allow retry if empty, even first time
                 lastJsonErrorForReprompt = errorMsg; 
@@ -448,7 +343,7 @@ export const generateQuestionsFromGemini = async (
             
             const itemExplicacion = (item.Explicación === null || item.Explicación === undefined) ? "" : String(item.Explicación);
              if (item.Explicación === null || item.Explicación === undefined){
-                 addLogEntry(LogType.Warning, `Item ${i}: Gemini omitió 'Explicación' o envió null/undefined, se usó "".`, {itemPreview: item.Pregunta.substring(0,50)});
+                 addLogEntry(LogType.Warning, `Item ${i}: el modelo omitió 'Explicación' o envió null/undefined, se usó "".`, {itemPreview: item.Pregunta.substring(0,50)});
             }
 
             const itemIdFromGemini = item.id; 
@@ -475,7 +370,11 @@ export const generateQuestionsFromGemini = async (
                 'Opción Incorrecta 2': (item['Opción Incorrecta 2'] === null || item['Opción Incorrecta 2'] === undefined) ? undefined : String(item['Opción Incorrecta 2']),
                 'Opción Incorrecta 3': (item['Opción Incorrecta 3'] === null || item['Opción Incorrecta 3'] === undefined) ? undefined : String(item['Opción Incorrecta 3']),
                 Explicación: itemExplicacion,
+                // Like "Fuente", classification is optional metadata: invalid values are dropped silently.
+                ...parseQuestionMetadata(item.Etiquetas, item.Dificultad, item.NivelBloom),
             };
+            const citation = parseCitation(item.Fuente);
+            if (citation) questionEntry.citation = citation;
             parsedQuestions.push(questionEntry);
         }
         
@@ -483,16 +382,17 @@ export const generateQuestionsFromGemini = async (
              throw new Error("El array JSON fue recibido, pero ningún objeto cumplió la estructura esperada para las preguntas.");
         }
          if (parsedQuestions.length === 0 && parsedData.length === 0 && jsonStrToParse.trim() !== '' && jsonStrToParse.trim() !== '[]') {
-            throw new Error(`Gemini no generó ninguna pregunta válida en el JSON. JSON parseado resultó en 0 preguntas. Contenido parseado: ${jsonStrToParse.substring(0,200)}...`);
+            throw new Error(`El modelo no generó ninguna pregunta válida en el JSON. JSON parseado resultó en 0 preguntas. Contenido parseado: ${jsonStrToParse.substring(0,200)}...`);
         }
          if (parsedQuestions.length === 0 && jsonStrToParse.trim() === '[]') { 
-             addLogEntry(LogType.Info, "Gemini devolvió un array JSON vacío '[]', lo que significa que no generó preguntas para esta solicitud.", {promptContext: jsonCorrectionAttempts > 0 ? "Corrección" : "Inicial"});
+             addLogEntry(LogType.Info, "El modelo devolvió un array JSON vacío '[]', lo que significa que no generó preguntas para esta solicitud.", {promptContext: jsonCorrectionAttempts > 0 ? "Corrección" : "Inicial"});
          }
 
         addLogEntry(LogType.Info, `JSON parseado y validado exitosamente. ${parsedQuestions.length} preguntas generadas/reescritas.`, { count: parsedQuestions.length });
-        return { rawText: lastGeminiRawOutput, parsedQuestions, jsonCorrectionAttempts };
+        return { rawText: lastGeminiRawOutput, parsedQuestions, jsonCorrectionAttempts, structuredOutput };
 
     } catch (error: any) {
+        if (signal?.aborted) throw error; // Cancellation is not a JSON problem to correct
         const promptContextForLog = jsonCorrectionAttempts > 0 ? "Corrección JSON" : "Parseo de Stream Inicial";
         addLogEntry(LogType.Error, `Error durante ${promptContextForLog} (intento corrección ${jsonCorrectionAttempts + 1}/${MAX_JSON_CORRECTION_ATTEMPTS})`, { error: error.message, stack: error.stack, rawOutputPreview: lastGeminiRawOutput.substring(0,500) });
         lastJsonErrorForReprompt = error.message;
@@ -503,26 +403,21 @@ export const generateQuestionsFromGemini = async (
 
   const finalErrorMsg = `Fallaron todos los ${MAX_JSON_CORRECTION_ATTEMPTS} intentos de corrección de formato JSON para la solicitud "${requestPrompt.substring(0,50)}...". Último error: ${lastJsonErrorForReprompt || "Error desconocido después de múltiples intentos."}`;
   addLogEntry(LogType.Error, finalErrorMsg, { prompt: requestPrompt, finalOutputPreview: lastGeminiRawOutput.substring(0, 500) });
-  throw new Error(`${finalErrorMsg}. Respuesta final de Gemini: "${lastGeminiRawOutput.substring(0, 300)}..."`);
+  // jsonCorrectionAttempts lets processQueue report the corrections spent on a failed request.
+  throw Object.assign(new Error(`${finalErrorMsg}. Respuesta final de ${provider.displayName}: "${lastGeminiRawOutput.substring(0, 300)}..."`), { jsonCorrectionAttempts });
 };
 
 
 export const generateCollectionTitleFromGemini = async (
-    apiKey: string,
+    provider: LlmProvider,
     sampleQuestionsText: string,
     addLogEntry: AddLogEntryFn
 ): Promise<string> => {
-    if (!apiKey) {
-        addLogEntry(LogType.Error, "generateCollectionTitleFromGemini: API_KEY no fue proporcionada.");
-        throw new Error("API_KEY no fue proporcionada para generar título.");
-    }
     if (!sampleQuestionsText || sampleQuestionsText.trim() === "") {
         addLogEntry(LogType.Warning, "generateCollectionTitleFromGemini: No se proporcionó texto de muestra de preguntas.");
         return "Colección de Preguntas"; // Default title if no sample
     }
 
-    const ai = new GoogleGenAI({ apiKey });
-
     const prompt = `Basándote en la siguiente muestra de preguntas, genera un título conciso y descriptivo para esta colección de preguntas. El título debe ser adecuado para un cuestionario o un conjunto de estudio. Responde únicamente con el texto del título. No incluyas prefijos como "Título:" ni comillas adicionales.
 
 Muestra de preguntas:
@@ -531,21 +426,18 @@ ${sampleQuestionsText}
 ---
 `;
     try {
-        addLogEntry(LogType.GeminiRequest, "Solicitando a Gemini la generación de un título para la colección.", { sampleLength: sampleQuestionsText.length });
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL_FLASH,
-            contents: prompt,
-        });
+        addLogEntry(LogType.GeminiRequest, `Solicitando a ${provider.displayName} la generación de un título para la colección.`, { sampleLength: sampleQuestionsText.length });
+        const response = await collectStreamText(provider.generateStream([{ text: prompt }], { model: provider.defaultModel }));
         
-        const title = response.text.trim();
+        const title = response.trim();
         if (!title) {
-            addLogEntry(LogType.Warning, "Gemini devolvió un título vacío para la colección.", { sample: sampleQuestionsText });
+            addLogEntry(LogType.Warning, `${provider.displayName} devolvió un título vacío para la colección.`, { sample: sampleQuestionsText });
             return "Colección de Preguntas"; // Fallback
         }
-        addLogEntry(LogType.GeminiResponse, "Título de colección generado por Gemini.", { title });
+        addLogEntry(LogType.GeminiResponse, `Título de colección generado por ${provider.displayName}.`, { title });
         return title;
     } catch (error: any) {
-        addLogEntry(LogType.Error, "Error al generar título de colección con Gemini.", { error: error.message, sample: sampleQuestionsText });
+        addLogEntry(LogType.Error, `Error al generar título de colección con ${provider.displayName}.`, { error: error.message, sample: sampleQuestionsText });
         console.error("Error generating collection title:", error);
         throw new Error(`Error al generar título de colección: ${error.message}`);
     }
@@ -553,21 +445,15 @@ ${sampleQuestionsText}
 
 
 export const generateMetadataFromGemini = async (
-    apiKey: string,
+    provider: LlmProvider,
     sampleQuestionsText: string,
     addLogEntry: AddLogEntryFn
 ): Promise<CollectionMetadata> => {
-    if (!apiKey) {
-        addLogEntry(LogType.Error, "generateMetadataFromGemini: API_KEY no fue proporcionada.");
-        throw new Error("API_KEY no fue proporcionada para generar metadatos.");
-    }
     if (!sampleQuestionsText || sampleQuestionsText.trim() === "") {
         addLogEntry(LogType.Warning, "generateMetadataFromGemini: No se proporcionó texto de muestra de preguntas.");
         return { asignatura: "", descripcion: "" };
     }
 
-    const ai = new GoogleGenAI({ apiKey });
-
     const prompt = `Basado en la siguiente muestra de preguntas, sugiere metadatos para esta colección de estudio.
 
 Reglas:
@@ -583,42 +469,150 @@ Responde ÚNICAMENTE con un objeto JSON válido que siga el esquema proporcionad
 `;
 
     try {
-        addLogEntry(LogType.GeminiRequest, "Solicitando a Gemini la generación de metadatos (Asignatura, Descripción).", { sampleLength: sampleQuestionsText.length });
+        addLogEntry(LogType.GeminiRequest, `Solicitando a ${provider.displayName} la generación de metadatos (Asignatura, Descripción).`, { sampleLength: sampleQuestionsText.length });
         
-        const response = await ai.models.generateContent({
-            model: GEMINI_MODEL_FLASH,
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        asignatura: {
-                            type: Type.STRING,
-                            description: "La asignatura o materia académica sugerida para esta colección de preguntas."
-                        },
-                        descripcion: {
-                            type: Type.STRING,
-                            description: "Una breve descripción contextual sobre el tema que se estará estudiando."
-                        }
+        const response = await provider.generateJson([{ text: prompt }], {
+            model: provider.defaultModel,
+            schema: {
+                type: 'object',
+                properties: {
+                    asignatura: {
+                        type: 'string',
+                        description: "La asignatura o materia académica sugerida para esta colección de preguntas."
+                    },
+                    descripcion: {
+                        type: 'string',
+                        description: "Una breve descripción contextual sobre el tema que se estará estudiando."
                     }
                 }
             }
         });
 
-        const jsonStr = response.text.trim();
+        const jsonStr = response.trim();
         const parsedMetadata = JSON.parse(jsonStr);
 
         if (typeof parsedMetadata.asignatura !== 'string' || typeof parsedMetadata.descripcion !== 'string') {
-            throw new Error("La respuesta JSON de metadatos de Gemini no tiene el formato esperado.");
+            throw new Error(`La respuesta JSON de metadatos de ${provider.displayName} no tiene el formato esperado.`);
         }
 
-        addLogEntry(LogType.GeminiResponse, "Metadatos de colección generados por Gemini.", { metadata: parsedMetadata });
+        addLogEntry(LogType.GeminiResponse, `Metadatos de colección generados por ${provider.displayName}.`, { metadata: parsedMetadata });
         return parsedMetadata as CollectionMetadata;
 
     } catch (error: any) {
-        addLogEntry(LogType.Error, "Error al generar metadatos de colección con Gemini.", { error: error.message, sample: sampleQuestionsText });
+        addLogEntry(LogType.Error, `Error al generar metadatos de colección con ${provider.displayName}.`, { error: error.message, sample: sampleQuestionsText });
         console.error("Error generating collection metadata:", error);
         throw new Error(`Error al generar metadatos de colección: ${error.message}`);
     }
+};
+
+const VERIFICATION_STATUSES: Record<string, QuestionVerificationStatus> = {
+    verificada: QuestionVerificationStatus.Verified,
+    discutida: QuestionVerificationStatus.Disputed,
+    sin_respaldo: QuestionVerificationStatus.Unsupported,
+};
+
+// Wrapped in an object: OpenAI-compatible servers reject a json_schema with an array at the root.
+const VERIFICATION_RESPONSE_SCHEMA: LlmJsonSchema = {
+    type: 'object',
+    properties: {
+        resultados: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string', description: "ID de la pregunta verificada." },
+                    estado: { type: 'string', enum: Object.keys(VERIFICATION_STATUSES), description: "Resultado de la verificación." },
+                    correctasRespaldadas: { type: 'boolean', description: "Si el material respalda las opciones marcadas como correctas." },
+                    distractoresCorrectos: { type: 'array', items: { type: 'string' }, description: "Opciones incorrectas que también son correctas según el material." },
+                    explicacionCoherente: { type: 'boolean', description: "Si la explicación es coherente con el material y la respuesta." },
+                    razonamiento: { type: 'string', description: "Justificación breve del estado." },
+                },
+                required: ['id', 'estado', 'correctasRespaldadas', 'distractoresCorrectos', 'explicacionCoherente', 'razonamiento'],
+            },
+        },
+    },
+    required: ['resultados'],
+};
+
+// Fact-checks a batch of questions against the context. Returns the verdicts by question ID;
+// questions the model leaves out are logged and simply missing from the map.
+export const verifyQuestionsWithGemini = async (
+    provider: LlmProvider,
+    contextText: string,
+    contextFiles: File[],
+    questions: QuestionData[],
+    addLogEntry: AddLogEntryFn,
+    signal?: AbortSignal
+): Promise<Map<string, QuestionVerification>> => {
+    const parts: LlmPart[] = [];
+    const processedFileErrorMessages: string[] = [];
+    for (const file of contextFiles) {
+        const filePartOrError = await fileToGenerativePart(file, addLogEntry);
+        if ('error' in filePartOrError) {
+            processedFileErrorMessages.push(`${file.name}: ${filePartOrError.error}`);
+        } else {
+            parts.push(filePartOrError);
+        }
+    }
+
+    const questionsJson = JSON.stringify(questions.map(q => ({
+        id: q.id,
+        Pregunta: q.Pregunta,
+        'Opción correcta 1': q['Opción correcta 1'] || '',
+        'Opción Correcta 2': q['Opción Correcta 2'] || '',
+        'Opción Correcta 3': q['Opción Correcta 3'] || '',
+        'Opción Incorrecta 1': q['Opción Incorrecta 1'] || '',
+        'Opción Incorrecta 2': q['Opción Incorrecta 2'] || '',
+        'Opción Incorrecta 3': q['Opción Incorrecta 3'] || '',
+        Explicación: q.Explicación || '',
+    })), null, 2);
+    const prompt = constructVerificationPrompt(contextText, contextFiles, processedFileErrorMessages, questionsJson);
+    // Checking is harder than writing: use the model of the "Alto" intensity.
+    const { model } = provider.resolveModel(ThinkingIntensity.High);
+
+    addLogEntry(LogType.GeminiRequest, `Solicitando a ${provider.displayName} la verificación de ${questions.length} pregunta(s).`, { model, promptLength: prompt.length, questionIds: questions.map(q => q.id) });
+    let response: string;
+    try {
+        response = await provider.generateJson([...parts, { text: prompt }], { model, schema: VERIFICATION_RESPONSE_SCHEMA, signal });
+    } catch (error: any) {
+        if (signal?.aborted) throw error;
+        addLogEntry(LogType.Error, `Error al verificar preguntas con ${provider.displayName}.`, { error: error.message });
+        throw Object.assign(new Error(`Error al verificar preguntas: ${error.message}`), { status: error.status });
+    }
+    addLogEntry(LogType.GeminiResponse, `Verificación de ${provider.displayName} recibida.`, { responseLength: response.length, responsePreview: response.substring(0, 300) });
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(response.trim().replace(/^```(?:json)?\s*\n?(.*?)\n?\s*```$/s, '$1'));
+    } catch (error: any) {
+        addLogEntry(LogType.Error, `La verificación de ${provider.displayName} no es un JSON válido.`, { error: error.message, responsePreview: response.substring(0, 300) });
+        throw new Error(`La respuesta de verificación no es un JSON válido: ${error.message}`);
+    }
+    const verdicts = Array.isArray(parsed) ? parsed : parsed?.resultados; // Some models still answer with the bare array
+    if (!Array.isArray(verdicts)) {
+        throw new Error(`La respuesta de verificación no contiene el array "resultados". Recibido: ${typeof parsed}`);
+    }
+
+    const requestedIds = new Set(questions.map(q => q.id));
+    const results = new Map<string, QuestionVerification>();
+    for (const item of verdicts) {
+        const status = VERIFICATION_STATUSES[item?.estado];
+        if (typeof item?.id !== 'string' || !requestedIds.has(item.id) || !status) {
+            addLogEntry(LogType.Warning, "Resultado de verificación ignorado: ID desconocido o estado no válido.", { item });
+            continue;
+        }
+        results.set(item.id, {
+            status,
+            reasoning: typeof item.razonamiento === 'string' ? item.razonamiento.trim() : '',
+            correctOptionsSupported: item.correctasRespaldadas === true,
+            correctDistractors: Array.isArray(item.distractoresCorrectos) ? item.distractoresCorrectos.filter((d: unknown): d is string => typeof d === 'string' && d.trim() !== '') : [],
+            explanationConsistent: item.explicacionCoherente !== false,
+            checkedAt: Date.now(),
+        });
+    }
+    const missingIds = questions.filter(q => !results.has(q.id)).map(q => q.id);
+    if (missingIds.length > 0) {
+        addLogEntry(LogType.Warning, `${provider.displayName} no devolvió la verificación de ${missingIds.length} pregunta(s).`, { missingIds });
+    }
+    return results;
 };
\ No newline at end of file
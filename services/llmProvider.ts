@@ -0,0 +1,121 @@
+import { LOCAL_STORAGE_LLM_PROVIDER_SETTINGS, DEFAULT_OPENAI_COMPATIBLE_BASE_URL } from '../constants';
+import { LlmProviderId, LlmProviderSettings, ThinkingIntensity } from '../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+
+// Provider-agnostic request pieces. Files travel as base64 inline data; each adapter decides how
+// (or whether) its backend can receive them.
+export type LlmPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string }; fileName?: string };
+
+// Subset of JSON Schema understood by both Gemini's responseSchema and OpenAI's json_schema.
+export interface LlmJsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, LlmJsonSchema>;
+  required?: string[];
+  items?: LlmJsonSchema;
+  enum?: string[];
+  nullable?: boolean;
+}
+
+export interface LlmModelSelection {
+  model: string;
+  thinkingBudget?: number; // Only honoured by providers with a reasoning budget (Gemini)
+  description: string; // For the log, e.g. "Rápido, razonamiento deshabilitado"
+}
+
+export interface LlmRequestOptions {
+  model: string;
+  thinkingBudget?: number;
+  json?: boolean; // Ask for a JSON response (without a schema)
+  schema?: LlmJsonSchema; // Structured output; ignored unless the provider supportsStreamingSchema
+  signal?: AbortSignal; // Aborting rejects with the signal's AbortError
+}
+
+export interface LlmJsonRequestOptions {
+  model: string;
+  schema?: LlmJsonSchema;
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  displayName: string; // Shown in logs and UI, e.g. "Gemini"
+  defaultModel: string; // Used for short auxiliary calls (titles, metadata, JSON correction)
+  supportsStreamingSchema: boolean; // Whether generateStream can enforce `schema` on the output
+  resolveModel: (intensity: ThinkingIntensity) => LlmModelSelection;
+  generateStream: (parts: LlmPart[], options: LlmRequestOptions) => AsyncIterable<string>;
+  generateJson: (parts: LlmPart[], options: LlmJsonRequestOptions) => Promise<string>; // Raw JSON text
+  listModels: () => Promise<string[]>;
+}
+
+export const DEFAULT_LLM_PROVIDER_SETTINGS: LlmProviderSettings = {
+  providerId: LlmProviderId.Gemini,
+  openAiBaseUrl: DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+  openAiApiKey: '',
+  openAiModel: '',
+};
+
+export const LLM_PROVIDER_LABELS: Record<LlmProviderId, string> = {
+  [LlmProviderId.Gemini]: 'Google Gemini',
+  [LlmProviderId.OpenAiCompatible]: 'Servidor compatible con OpenAI (llama.cpp, Ollama...)',
+};
+
+export const loadLlmProviderSettings = (): LlmProviderSettings => {
+  try {
+    const stored = localStorage.getItem(LOCAL_STORAGE_LLM_PROVIDER_SETTINGS);
+    const parsed = stored ? JSON.parse(stored) : {};
+    const settings = { ...DEFAULT_LLM_PROVIDER_SETTINGS, ...(typeof parsed === 'object' && parsed !== null ? parsed : {}) };
+    if (!Object.values(LlmProviderId).includes(settings.providerId)) settings.providerId = LlmProviderId.Gemini;
+    return settings;
+  } catch {
+    return { ...DEFAULT_LLM_PROVIDER_SETTINGS };
+  }
+};
+
+export const saveLlmProviderSettings = (settings: LlmProviderSettings): void => {
+  localStorage.setItem(LOCAL_STORAGE_LLM_PROVIDER_SETTINGS, JSON.stringify(settings));
+};
+
+const buildProvider = (settings: LlmProviderSettings, geminiApiKey: string): LlmProvider =>
+  settings.providerId === LlmProviderId.OpenAiCompatible
+    ? createOpenAiCompatibleProvider({ baseUrl: settings.openAiBaseUrl, apiKey: settings.openAiApiKey, model: settings.openAiModel })
+    : createGeminiProvider(geminiApiKey);
+
+// Returns the reason instead of a provider when the selection is missing required configuration.
+export const createLlmProvider = (
+  settings: LlmProviderSettings,
+  geminiApiKey: string | undefined
+): { provider: LlmProvider; error?: undefined } | { provider: null; error: string } => {
+  if (settings.providerId === LlmProviderId.OpenAiCompatible) {
+    if (!settings.openAiBaseUrl.trim()) {
+      return { provider: null, error: "Falta la URL del servidor compatible con OpenAI. Configúrala en 'Inteligencia Artificial'." };
+    }
+    if (!settings.openAiModel.trim()) {
+      return { provider: null, error: "Falta el modelo del servidor compatible con OpenAI. Configúralo en 'Inteligencia Artificial'." };
+    }
+  } else if (!geminiApiKey) {
+    return { provider: null, error: "API Key de Gemini no configurada. Por favor, configúrala en 'Inteligencia Artificial' o asegúrate de que la variable de entorno API_KEY esté disponible." };
+  }
+  return { provider: buildProvider(settings, geminiApiKey || '') };
+};
+
+// Unlike createLlmProvider this doesn't need a model, so the config modal can offer the list before one is chosen.
+export const listLlmModels = async (settings: LlmProviderSettings, geminiApiKey: string | undefined): Promise<string[]> => {
+  if (settings.providerId === LlmProviderId.OpenAiCompatible && !settings.openAiBaseUrl.trim()) {
+    throw new Error("Indica la URL del servidor antes de listar sus modelos.");
+  }
+  if (settings.providerId === LlmProviderId.Gemini && !geminiApiKey) {
+    throw new Error("Indica una clave API de Gemini antes de listar sus modelos.");
+  }
+  return buildProvider(settings, geminiApiKey || '').listModels();
+};
+
+// Joins a streamed response, for calls that only need the final text (e.g. the collection title).
+export const collectStreamText = async (stream: AsyncIterable<string>): Promise<string> => {
+  let text = '';
+  for await (const chunk of stream) text += chunk;
+  return text;
+};
@@ -0,0 +1,144 @@
+import { LlmProviderId, ThinkingIntensity } from '../types';
+import { LlmProvider, LlmPart, LlmJsonSchema } from './llmProvider';
+
+// Adapter for servers that implement OpenAI's /v1/chat/completions and /v1/models endpoints:
+// llama.cpp's server, Ollama, LM Studio, vLLM... There is a single configured model, so every
+// ThinkingIntensity maps to it.
+
+export interface OpenAiCompatibleConfig {
+  baseUrl: string; // Including the /v1 prefix
+  apiKey: string;
+  model: string;
+}
+
+type ChatContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+const INTENSITY_LABELS: Record<ThinkingIntensity, string> = {
+  [ThinkingIntensity.Fast]: 'Rápido',
+  [ThinkingIntensity.Medium]: 'Medio',
+  [ThinkingIntensity.High]: 'Alto',
+  [ThinkingIntensity.VeryHigh]: 'Muy Alto',
+};
+
+const isTextMimeType = (mimeType: string): boolean =>
+  mimeType.startsWith('text/') || mimeType === 'application/json' || mimeType === 'application/xml';
+
+const decodeBase64Utf8 = (data: string): string =>
+  new TextDecoder().decode(Uint8Array.from(atob(data), char => char.charCodeAt(0)));
+
+// Text files are inlined as text and images as data URLs (vision models); anything else (PDF,
+// audio...) can't be sent through this API, so the model gets a notice instead.
+const toChatContent = (parts: LlmPart[]): ChatContentPart[] =>
+  parts.map((part): ChatContentPart => {
+    if (!('inlineData' in part)) return { type: 'text', text: part.text };
+    const { mimeType, data } = part.inlineData;
+    const name = part.fileName || 'sin nombre';
+    if (isTextMimeType(mimeType)) {
+      return { type: 'text', text: `--- Archivo "${name}" ---\n${decodeBase64Utf8(data)}\n--- Fin de "${name}" ---` };
+    }
+    if (mimeType.startsWith('image/')) {
+      return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+    }
+    return { type: 'text', text: `[El archivo "${name}" (${mimeType}) no se puede enviar a este proveedor y se omitió.]` };
+  });
+
+// Plain string content when possible: several local servers only accept content arrays for vision models.
+const toChatMessages = (parts: LlmPart[]) => {
+  const content = toChatContent(parts);
+  const isTextOnly = content.every(part => part.type === 'text');
+  return [{
+    role: 'user',
+    content: isTextOnly ? content.map(part => (part as { text: string }).text).join('\n\n') : content,
+  }];
+};
+
+const toJsonSchema = (schema: LlmJsonSchema): Record<string, unknown> => {
+  const { nullable, properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    type: nullable ? [schema.type, 'null'] : schema.type,
+    ...(properties ? { properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toJsonSchema(value)])) } : {}),
+    ...(items ? { items: toJsonSchema(items) } : {}),
+  };
+};
+
+export const createOpenAiCompatibleProvider = ({ baseUrl, apiKey, model }: OpenAiCompatibleConfig): LlmProvider => {
+  const root = baseUrl.trim().replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey.trim()) headers.Authorization = `Bearer ${apiKey.trim()}`;
+
+  const request = async (path: string, init?: RequestInit): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(`${root}${path}`, { ...init, headers });
+    } catch (e: any) {
+      if (init?.signal?.aborted) throw e;
+      throw new Error(`No se pudo conectar con el servidor compatible con OpenAI en ${root}: ${e.message}. Verifica que esté en ejecución y que permita CORS.`);
+    }
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      // status lets the queue scheduler recognise 429/503 and back off.
+      throw Object.assign(new Error(`El servidor compatible con OpenAI respondió ${response.status} ${response.statusText}: ${body.substring(0, 300)}`), { status: response.status });
+    }
+    return response;
+  };
+
+  return {
+    id: LlmProviderId.OpenAiCompatible,
+    displayName: `OpenAI compatible (${model})`,
+    defaultModel: model,
+    supportsStreamingSchema: false,
+    resolveModel: (intensity) => ({ model, description: `${INTENSITY_LABELS[intensity]}, modelo único del servidor` }),
+
+    // Neither JSON mode nor a schema is requested here: OpenAI's json_object mode and strict
+    // json_schema both require an object at the root, while the question generator expects an
+    // array, and local servers differ in what they accept. The prompt and the correction loop cover it.
+    async *generateStream(parts, options) {
+      const response = await request('/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify({ model: options.model, messages: toChatMessages(parts), stream: true }),
+        signal: options.signal,
+      });
+      if (!response.body) throw new Error("El servidor compatible con OpenAI no devolvió un cuerpo de respuesta en streaming.");
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+          const payload = trimmed.slice('data:'.length).trim();
+          if (payload === '[DONE]') return;
+          const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+    },
+
+    async generateJson(parts, { model: requestModel, schema, signal }) {
+      const response = await request('/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify({
+          model: requestModel,
+          messages: toChatMessages(parts),
+          ...(schema ? { response_format: { type: 'json_schema', json_schema: { name: 'respuesta', schema: toJsonSchema(schema) } } } : {}),
+        }),
+        signal,
+      });
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+
+    async listModels() {
+      const response = await request('/models');
+      const data = await response.json();
+      return Array.isArray(data.data) ? data.data.map((entry: { id: string }) => entry.id).filter(Boolean) : [];
+    },
+  };
+};
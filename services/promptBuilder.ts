@@ -0,0 +1,240 @@
+import { QuestionTargets } from '../types';
+import { TARGETABLE_QUESTION_TYPES, getTargetTotal, getTypeMixTotal } from '../utils/questionTargets';
+
+// Prompt text for question generation. It only produces plain text, so it is shared by every
+// LLM provider (see llmProvider.ts).
+
+const constructTargetsInstructions = (targets: QuestionTargets): string => {
+    const total = getTargetTotal(targets);
+    const freeCount = total - getTypeMixTotal(targets);
+    const typeLines = TARGETABLE_QUESTION_TYPES
+        .filter(({ type }) => targets.typeMix?.[type])
+        .map(({ type, promptName }) => `-   ${targets.typeMix![type]} de tipo ${promptName}.`);
+    if (typeLines.length > 0 && freeCount > 0) {
+        typeLines.push(`-   ${freeCount} del tipo que mejor se ajuste al material.`);
+    }
+    return `CANTIDAD Y TIPOS SOLICITADOS (OBLIGATORIO): Genera EXACTAMENTE ${total} pregunta(s).
+${typeLines.join('\n')}
+Estas cantidades tienen prioridad sobre cualquier indicación de cantidad o tipo en la instrucción específica. Respeta la definición de cada tipo indicada arriba al rellenar las opciones.`;
+};
+
+// Instruction for the follow-up call that fills a request's shortfall. The questions already
+// generated travel in the existing-bank context, so the model can avoid repeating them.
+export const constructFollowUpRequestPrompt = (requestPrompt: string, generatedCount: number): string =>
+    `${requestPrompt}
+
+(Continuación: para esta instrucción ya se generaron ${generatedCount} pregunta(s), incluidas en el banco existente. Genera ÚNICAMENTE las que faltan según la cantidad y los tipos solicitados, sin repetir las anteriores.)`;
+
+export const constructInitialPrompt = (
+    generalContextText: string,
+    generalContextFilesForNotice: File[], // Only for generating file notice string
+    requestPrompt: string,
+    requestSpecificFilesForNotice: File[], // Only for generating file notice string (excluding rewrite file)
+    processedFileErrorMessages: string[],
+    rewriteJsonContent?: string, // Content of questions_to_rewrite.json, if present
+    existingQuestionsCsv?: string, 
+    overallRetryError?: string,
+    targets?: QuestionTargets
+): string => {
+    let generalFilesNotice = "";
+    if (generalContextFilesForNotice.length > 0) {
+        const fileNames = generalContextFilesForNotice.map(f => `"${f.name}"`).join(', ');
+        generalFilesNotice = `The following general context files have been provided. Their content is crucial for your response: [${fileNames}]. You must base your answers on this information.\n`;
+    }
+
+    let requestFilesNotice = "";
+    if (requestSpecificFilesForNotice.length > 0) {
+        const fileNames = requestSpecificFilesForNotice.map(f => `"${f.name}"`).join(', ');
+        requestFilesNotice = `Additionally, for this specific request, the user has attached: [${fileNames}]. Consider these files with high priority for this request.\n`;
+    }
+    
+    let fileProcessingErrorsNotice = "";
+    if (processedFileErrorMessages.length > 0) {
+        fileProcessingErrorsNotice = "NOTICE: Some files could not be processed and their content is unavailable:\n" + processedFileErrorMessages.map(msg => `- ${msg}`).join('\n') + "\n";
+    }
+
+    let existingQuestionsContext = "";
+    if (existingQuestionsCsv && existingQuestionsCsv.trim() !== '' && existingQuestionsCsv.split('\n').length > 1) { 
+        existingQuestionsContext = `Contexto Adicional: Banco de Preguntas Existente (formato CSV interno para tu referencia. NO intentes replicar este formato CSV en tu salida JSON, sigue usando la estructura JSON con "" para campos vacíos):\n---\n${existingQuestionsCsv}\n---\nConsidera estas preguntas para evitar duplicados y generar contenido complementario o diferente.\n`;
+    }
+
+    let rewriteInstructions = "";
+    if (rewriteJsonContent) {
+        rewriteInstructions = `
+ADEMÁS, esta es una SOLICITUD DE REESCRITURA.
+Se te proporcionan las siguientes preguntas en formato JSON array. Debes procesar cada pregunta de este array.
+--- INICIO DE JSON DE PREGUNTAS A REESCRIBIR ---
+${rewriteJsonContent}
+--- FIN DE JSON DE PREGUNTAS A REESCRIBIR ---
+
+Para cada pregunta en el JSON anterior:
+1.  Reescríbela basándote en la "Instrucción específica para esta tanda de preguntas" (que es: "${requestPrompt}").
+2.  En tu respuesta JSON, DEBES incluir el campo "id" ORIGINAL de la pregunta que estás reescribiendo.
+    Ejemplo de objeto reescrito: { "id": "id-original-de-la-pregunta", "Pregunta": "...", ... }
+Si, además de reescribir, decides generar preguntas COMPLETAMENTE NUEVAS (no basadas en las del JSON anterior), para estas preguntas NUEVAS, NO incluyas un campo "id" en el objeto JSON, o establécelo a null. El sistema les asignará un ID nuevo.
+`;
+    }
+
+
+    const questionObjectStructure = `{
+  "id": "string_or_null (SOLO para preguntas REESCRITAS, usa el ID original. Para preguntas NUEVAS, omite este campo o usa null)",
+  "Pregunta": "string (texto de la pregunta)",
+  "Opción correcta 1": "string (texto de la opción)",
+  "Opción Correcta 2": "string_or_empty_string", 
+  "Opción Correcta 3": "string_or_empty_string", 
+  "Opción Incorrecta 1": "string_or_empty_string", 
+  "Opción Incorrecta 2": "string_or_empty_string", 
+  "Opción Incorrecta 3": "string_or_empty_string", 
+  "Explicación": "string_or_empty_string",
+  "Fuente": { "archivo": "string (nombre del archivo, o \"Contexto general\" para el texto pegado)", "ubicacion": "string (página o sección)", "cita": "string (fragmento LITERAL y breve del material)" } o null,
+  "Etiquetas": ["string (tema breve)"],
+  "Dificultad": "facil" | "media" | "dificil",
+  "NivelBloom": "recordar" | "comprender" | "aplicar" | "analizar" | "evaluar" | "crear"
+}`;
+
+    return `Eres un asistente experto en crear material de estudio para la plataforma "Haikú".
+Tu tarea es generar preguntas basadas en el contexto y las instrucciones proporcionadas.
+DEBES responder ÚNICAMENTE con un array JSON. Cada objeto en el array representa una pregunta.
+NO incluyas NADA de texto fuera del array JSON (ni introducciones, ni despedidas, ni explicaciones adicionales fuera del JSON).
+
+La estructura de cada objeto JSON de pregunta DEBE ser la siguiente:
+${questionObjectStructure}
+
+${rewriteJsonContent ? rewriteInstructions : ''}
+
+Campos Opcionales: Si un campo opcional (como 'Opción Correcta 2', 'Opción Incorrecta 1', etc.) no se utiliza para una pregunta específica, establece su valor a una cadena vacía \`""\`. NO uses \`null\` para estos campos de opciones/explicación.
+
+**Explicaciones Detalladas y Obligatorias:** Siempre DEBES incluir una 'Explicación' para cada pregunta. Esta explicación debe ser lo más detallada posible, basándose exhaustivamente en el material de contexto proporcionado. Si el material no ofrece una explicación directa para una pregunta particular, genera una explicación concisa pero informativa tú mismo. La 'Explicación' NUNCA debe ser \`null\`; usa una cadena vacía \`""\` solo si es absolutamente imposible generar cualquier forma de explicación (lo cual debería ser raro). Esfuérzate por utilizar la mayor cantidad de tokens necesarios para que las explicaciones sean completas y útiles, sin ser innecesariamente verbosas.
+
+**Fuente de cada pregunta:** Indica en 'Fuente' de dónde sale cada pregunta: el archivo, la página o sección (usa los marcadores como "[Página 3]" o los encabezados del material cuando existan) y una 'cita' que respalde la respuesta correcta. La 'cita' debe copiarse TEXTUALMENTE del material (una o dos frases, sin parafrasear ni resumir), porque se comprobará que aparece en él. Si no hay material de contexto, usa \`null\`.
+
+**Clasificación de cada pregunta:** En 'Etiquetas' pon de 1 a 3 temas breves (1 a 3 palabras cada uno) que permitan agrupar la pregunta con otras del mismo tema; reutiliza las mismas etiquetas para el mismo tema. En 'Dificultad' estima si es "facil", "media" o "dificil" para un estudiante del nivel del material. En 'NivelBloom' indica el nivel de la taxonomía de Bloom que exige responderla: "recordar" (evocar un dato), "comprender" (explicar o interpretar), "aplicar" (usar un procedimiento en un caso), "analizar" (relacionar o distinguir partes), "evaluar" (juzgar o justificar) o "crear" (proponer algo nuevo).
+
+${generalFilesNotice}
+Contexto general proporcionado (texto):
+---
+${generalContextText || "No se proporcionó contexto general en formato texto."}
+---
+
+${requestFilesNotice}
+${existingQuestionsContext}
+Instrucción específica para esta tanda de preguntas: "${requestPrompt}" 
+${rewriteJsonContent ? `(Nota: Para la reescritura, esta es la instrucción principal que debes seguir para modificar las preguntas del JSON proporcionado.)` : ''}
+
+
+${fileProcessingErrorsNotice}
+
+Tipos de preguntas y cómo definirlas en JSON:
+-   Pregunta de Selección Única: Solo 'Opción correcta 1' tiene valor. 'Opción Correcta 2' y 'Opción Correcta 3' deben ser \`""\`. Incluye al menos una opción incorrecta con valor (o \`""\` si no aplica).
+-   Pregunta de Selección Múltiple: 'Opción correcta 1' Y TAMBIÉN 'Opción Correcta 2' (y/o 'Opción Correcta 3') tienen valor.
+-   Pregunta de Tipo Verdadero/Falso: Selección única. 'Opción correcta 1' (ej. "Verdadero"), 'Opción Incorrecta 1' (ej. "Falso"). Resto de opciones \`""\`.
+-   Pregunta de Respuesta Escrita: Solo 'Opción correcta 1' tiene valor, que debe ser MUY CORTO (1 a 3 palabras máximo, idealmente solo 1). TODAS las opciones incorrectas DEBEN ser \`""\`.
+-   Pregunta de Tipo Flashcard: Usada para respuestas largas (ensayos, conceptos). SOLO 'Opción Correcta 2' debe tener valor. 'Opción correcta 1', 'Opción Correcta 3' y TODAS las opciones incorrectas DEBEN ser \`""\`.
+
+Conformación de las preguntas y opciones:
+-   Las opciones de respuesta SIEMPRE (a menos que sea la transcripción de preguntas añadidas por el usuario) deben muy breves, centrándose en colocar el nombre de los términos usando entre 1 a 4 palabras.
+-   Cuando hay necesidad de poner opciones de respuesta largas, la respuesta correcta NO puede ser más larga que las incorrectas debido a que por simple inspección o descarte se puede adivinar la opción correcta. Todas las opciones deben tener un tamaño similar.
+-   Las respuestas de escritura NUNCA pueden ser textos largos, céntrate en hacerlas con el nombre del término y su definición o contenido dentro del campo de Pregunta.
+
+${overallRetryError ? `\n¡ATENCIÓN! UN INTENTO ANTERIOR GLOBAL PARA ESTA SOLICITUD FALLÓ: "${overallRetryError}". Por favor, intenta generar las preguntas de nuevo, prestando especial atención a las instrucciones y al formato JSON.\n` : ''}
+
+${targets
+    ? constructTargetsInstructions(targets)
+    : 'Genera un conjunto de preguntas que cumplan con la instrucción específica y el contexto proporcionado. El número de preguntas puede variar, pero prioriza la calidad y la cobertura del tema solicitado sobre un número fijo. Intenta generar al menos 1-3 preguntas si el material lo permite.'}
+Recuerda, tu respuesta DEBE ser solo el array JSON.
+${targets?.typeMix ? '' : `
+RECUERDA GENERAR EL TIPO DE PREGUNTA QUE EL USUARIO ESPECIFICA LLENANDO LA OPCION CORRECTA/INCORRECTA (OC/OI): 
+- Si el usuario dice "Selección única" solo llenarás OC1 y OI1-3 (min. 2).
+- Si el usuario dice "Selección múltiple" solo llenarás OC1-3 (min 2) y OI1-3 (min. 1).
+- Si el usuario dice "verdadero o falso" solo llenarás OC1 y OC2.
+- Si el usuario dice "respuesta libre" o "escrita" solo llenarás OC1 con contenido corto.
+`}`;
+};
+
+export const constructJsonCorrectionPrompt = (
+    faultyJsonOutput: string,
+    parsingErrorDetails: string
+): string => {
+    const questionObjectStructure = `{
+  "id": "string_or_null (SOLO para preguntas REESCRITAS, usa el ID original. Para preguntas NUEVAS, omite este campo o usa null)",
+  "Pregunta": "string",
+  "Opción correcta 1": "string",
+  "Opción Correcta 2": "string_or_empty_string", 
+  "Opción Correcta 3": "string_or_empty_string",
+  "Opción Incorrecta 1": "string_or_empty_string",
+  "Opción Incorrecta 2": "string_or_empty_string",
+  "Opción Incorrecta 3": "string_or_empty_string",
+  "Explicación": "string_or_empty_string",
+  "Fuente": { "archivo": "string", "ubicacion": "string", "cita": "string" } o null,
+  "Etiquetas": ["string"],
+  "Dificultad": "facil" | "media" | "dificil",
+  "NivelBloom": "recordar" | "comprender" | "aplicar" | "analizar" | "evaluar" | "crear"
+}`;
+    return `Tu tarea anterior era generar un array JSON de preguntas, pero hubo un error en el formato de tu respuesta.
+
+El error detectado fue: "${parsingErrorDetails}"
+
+La respuesta ANTERIOR que generaste y que necesita CORRECCIÓN es:
+---
+${faultyJsonOutput}
+---
+
+Por favor, corrige ÚNICAMENTE el formato JSON de la respuesta anterior.
+Asegúrate de que la respuesta sea un array JSON VÁLIDO.
+Cada objeto en el array DEBE seguir esta estructura:
+${questionObjectStructure}
+
+NO generes preguntas nuevas. NO cambies el contenido sustancial de las preguntas si no es estrictamente necesario para corregir el formato JSON.
+Verifica comillas, comas, llaves y corchetes para asegurar que el JSON sea válido.
+Si un campo opcional no se usa, usa una cadena vacía \`""\`. NO uses \`null\` para campos de opciones/explicación. Para el campo "id", sigue las instrucciones: ID original para reescritas, null u omitido para nuevas.
+La 'Explicación' es obligatoria y debe ser una cadena (puede ser \`""\` si es imposible una explicación).
+
+
+Vuelve a generar la respuesta COMPLETA, con el formato JSON corregido. Solo el array JSON.
+`;
+};
+
+// Fact-check prompt ("Verificar"). Questions travel as JSON with their IDs so each verdict can be
+// matched back; the verdicts are judged against the context only, not the model's own knowledge.
+export const constructVerificationPrompt = (
+    contextText: string,
+    contextFilesForNotice: File[],
+    processedFileErrorMessages: string[],
+    questionsJson: string
+): string => {
+    const filesNotice = contextFilesForNotice.length > 0
+        ? `También se adjuntan estos archivos como parte del material: [${contextFilesForNotice.map(f => `"${f.name}"`).join(', ')}].\n`
+        : '';
+    const fileErrorsNotice = processedFileErrorMessages.length > 0
+        ? `AVISO: algunos archivos no se pudieron procesar y su contenido no está disponible:\n${processedFileErrorMessages.map(msg => `- ${msg}`).join('\n')}\n`
+        : '';
+
+    return `Eres un revisor experto de material de estudio. Tu tarea es comprobar, usando ÚNICAMENTE el material de contexto, si cada pregunta es correcta.
+
+${filesNotice}Material de contexto (texto):
+---
+${contextText || "No se proporcionó material en formato texto."}
+---
+${fileErrorsNotice}
+Preguntas a verificar (JSON). Las opciones "Opción correcta/Correcta N" son las marcadas como correctas; las "Opción Incorrecta N" son los distractores:
+---
+${questionsJson}
+---
+
+Para CADA pregunta, comprueba:
+1.  Si el material respalda las opciones marcadas como correctas ("correctasRespaldadas").
+2.  Si algún distractor también es correcto según el material ("distractoresCorrectos": copia su texto exacto; lista vacía si ninguno).
+3.  Si la 'Explicación' es coherente con el material y con la respuesta marcada ("explicacionCoherente"; true si está vacía).
+
+Y asigna un "estado":
+-   "verificada": el material respalda la respuesta, ningún distractor es correcto y la explicación es coherente.
+-   "discutida": el material contradice la respuesta, algún distractor también es correcto o la explicación no es coherente.
+-   "sin_respaldo": el material no trata lo suficiente el tema para confirmar ni refutar la respuesta.
+
+En "razonamiento" justifica el estado en una o dos frases, citando el material cuando sea posible.
+No juzgues con tu conocimiento general lo que el material no dice: en ese caso el estado es "sin_respaldo".
+
+Responde ÚNICAMENTE con un objeto JSON cuya clave "resultados" es un array con un objeto por pregunta, usando el "id" de cada una:
+{ "resultados": [{ "id": "string", "estado": "verificada" | "discutida" | "sin_respaldo", "correctasRespaldadas": boolean, "distractoresCorrectos": ["string"], "explicacionCoherente": boolean, "razonamiento": "string" }] }
+`;
+};
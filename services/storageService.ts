@@ -0,0 +1,183 @@
+import { INDEXED_DB_NAME, INDEXED_DB_VERSION } from '../constants';
+import { QuestionData, GenerationRequest, RequestStatus, StagedQuestion } from '../types';
+
+// Bump this whenever the persisted shape (or QuestionData itself) changes, and register
+// a migration from the previous version in WORKSPACE_MIGRATIONS.
+export const WORKSPACE_SCHEMA_VERSION = 9;
+
+const PROJECTS_STORE = 'projects';
+const LEGACY_WORKSPACE_STORE = 'workspace'; // Single-session store used before projects existed (DB version 1)
+const LEGACY_WORKSPACE_KEY = 'current';
+
+export interface PersistedWorkspace {
+  schemaVersion: number;
+  savedAt: number;
+  generatedQuestions: QuestionData[];
+  stagedQuestions: StagedQuestion[]; // AI rewrites awaiting review (added in schema version 2)
+  requests: GenerationRequest[];
+  generalContextText: string;
+  generalContextFiles: File[]; // File blobs are stored as-is (IndexedDB supports structured cloning of File)
+  collectionTitle: string;
+  asignatura: string;
+  categoria: string;
+  descripcion: string;
+}
+
+export type WorkspaceData = Omit<PersistedWorkspace, 'schemaVersion' | 'savedAt'>;
+
+export interface ProjectInfo {
+  id: string;
+  name: string; // Empty until the user names the project; see getProjectDisplayName
+  createdAt: number;
+  lastOpenedAt: number;
+}
+
+export interface PersistedProject extends PersistedWorkspace, ProjectInfo {}
+
+export interface ProjectSummary extends ProjectInfo {
+  collectionTitle: string;
+  questionCount: number;
+  savedAt: number;
+}
+
+// Each entry upgrades a record saved with schema version N (the key) to version N + 1.
+type WorkspaceMigration = (record: any) => any;
+const WORKSPACE_MIGRATIONS: Record<number, WorkspaceMigration> = {
+  1: record => ({ ...record, stagedQuestions: [] }),
+  2: record => record, // Version 3 adds the optional QuestionData.source and GenerationRequest.sourceChunk
+  3: record => record, // Version 4 adds the optional GenerationRequest.retrievedPassages
+  4: record => record, // Version 5 adds the optional QuestionData.citation
+  5: record => record, // Version 6 adds the optional QuestionData.verification
+  6: record => record, // Version 7 adds the optional QuestionData.reviewFlag
+  7: record => record, // Version 8 adds the optional QuestionData.tags, difficulty and bloomLevel
+  8: record => record, // Version 9 adds the optional QuestionData.sourceRequest
+};
+
+export const migrateWorkspace = <T extends PersistedWorkspace>(record: any): T => {
+  if (typeof record !== 'object' || record === null || typeof record.schemaVersion !== 'number') {
+    throw new Error("El registro guardado no tiene una versión de esquema válida.");
+  }
+  if (record.schemaVersion > WORKSPACE_SCHEMA_VERSION) {
+    throw new Error(`La sesión guardada usa la versión de esquema ${record.schemaVersion}, más reciente que la soportada (${WORKSPACE_SCHEMA_VERSION}).`);
+  }
+
+  let migrated = record;
+  for (let version = record.schemaVersion; version < WORKSPACE_SCHEMA_VERSION; version++) {
+    const migration = WORKSPACE_MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No existe una migración para la versión de esquema ${version}.`);
+    }
+    migrated = { ...migration(migrated), schemaVersion: version + 1 };
+  }
+  return migrated as T;
+};
+
+export const createProjectId = (): string => `project-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+export const getProjectDisplayName = (project: { name: string; collectionTitle: string }): string =>
+  project.name.trim() || project.collectionTitle.trim() || 'Proyecto sin título';
+
+const upgradeDatabase = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): void => {
+  if (oldVersion < 1) {
+    db.createObjectStore(LEGACY_WORKSPACE_STORE);
+  }
+  if (oldVersion < 2) {
+    const projectsStore = db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+    // Move the single saved session (if any) into its own project, then drop the old store.
+    const legacyRequest = transaction.objectStore(LEGACY_WORKSPACE_STORE).get(LEGACY_WORKSPACE_KEY);
+    legacyRequest.onsuccess = () => {
+      const legacyWorkspace = legacyRequest.result;
+      if (legacyWorkspace) {
+        const now = Date.now();
+        projectsStore.put({ ...legacyWorkspace, id: createProjectId(), name: '', createdAt: legacyWorkspace.savedAt || now, lastOpenedAt: now });
+      }
+      db.deleteObjectStore(LEGACY_WORKSPACE_STORE);
+    };
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB no está disponible en este navegador."));
+        return;
+      }
+      const request = indexedDB.open(INDEXED_DB_NAME, INDEXED_DB_VERSION);
+      request.onupgradeneeded = (event) => upgradeDatabase(request.result, request.transaction!, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new Error(`No se pudo abrir la base de datos local: ${request.error?.message || 'error desconocido'}`));
+      request.onblocked = () => reject(new Error("La base de datos local está bloqueada por otra pestaña abierta."));
+    });
+    dbPromise.catch(() => { dbPromise = null; }); // Allow a later call to retry
+  }
+  return dbPromise;
+};
+
+const runStoreRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(new Error(`Error en la base de datos local: ${transaction.error?.message || request.error?.message || 'error desconocido'}`));
+    transaction.onabort = () => reject(new Error(`Transacción abortada en la base de datos local: ${transaction.error?.message || 'error desconocido'}`));
+  });
+};
+
+export const isWorkspaceEmpty = (workspace: WorkspaceData): boolean =>
+  workspace.generatedQuestions.length === 0 &&
+  workspace.stagedQuestions.length === 0 &&
+  workspace.requests.length === 0 &&
+  workspace.generalContextText.trim() === '' &&
+  workspace.generalContextFiles.length === 0 &&
+  [workspace.collectionTitle, workspace.asignatura, workspace.categoria, workspace.descripcion].every(v => v.trim() === '');
+
+export const saveProject = async (project: ProjectInfo, workspace: WorkspaceData): Promise<PersistedProject> => {
+  const record: PersistedProject = {
+    ...workspace,
+    ...project,
+    schemaVersion: WORKSPACE_SCHEMA_VERSION,
+    savedAt: Date.now(),
+  };
+  await runStoreRequest(PROJECTS_STORE, 'readwrite', store => store.put(record));
+  return record;
+};
+
+export const loadProject = async (projectId: string): Promise<PersistedProject | null> => {
+  const record = await runStoreRequest<any>(PROJECTS_STORE, 'readonly', store => store.get(projectId));
+  if (record === undefined || record === null) return null;
+
+  const project = migrateWorkspace<PersistedProject>(record);
+  // A request cannot still be running after a reload; put it back in the queue.
+  project.requests = project.requests.map(r =>
+    r.status === RequestStatus.Processing ? { ...r, status: RequestStatus.Pending } : r
+  );
+  return project;
+};
+
+// Summaries are sorted by most recently opened first.
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const records = await runStoreRequest<any[]>(PROJECTS_STORE, 'readonly', store => store.getAll());
+  return records
+    .map(record => ({
+      id: record.id,
+      name: record.name || '',
+      createdAt: record.createdAt,
+      lastOpenedAt: record.lastOpenedAt,
+      collectionTitle: record.collectionTitle || '',
+      questionCount: Array.isArray(record.generatedQuestions) ? record.generatedQuestions.length : 0,
+      savedAt: record.savedAt,
+    }))
+    .sort((a, b) => b.lastOpenedAt - a.lastOpenedAt);
+};
+
+export const deleteProject = async (projectId: string): Promise<void> => {
+  await runStoreRequest(PROJECTS_STORE, 'readwrite', store => store.delete(projectId));
+};
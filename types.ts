@@ -9,6 +9,76 @@ export interface QuestionData {
   'Opción Incorrecta 2'?: string | undefined;
   'Opción Incorrecta 3'?: string | undefined;
   Explicación?: string | undefined;
+  source?: QuestionSource; // Set on questions generated from a document chunk
+  sourceRequest?: QuestionSourceRequest; // Queue request that generated the question; unset for manual and imported ones
+  citation?: QuestionCitation; // Where in the context the model says the question comes from
+  verification?: QuestionVerification; // Result of the last "Verificar" pass
+  reviewFlag?: QuestionReviewFlag; // Marked for editing while practising the bank
+  tags?: string[]; // Free topic labels; JSON export only, never CSV
+  difficulty?: QuestionDifficulty;
+  bloomLevel?: BloomLevel;
+}
+
+// The text columns of a question (what the table edits and CSV carries); excludes id and metadata.
+export type QuestionTextField = Exclude<keyof QuestionData, 'id' | 'source' | 'sourceRequest' | 'citation' | 'verification' | 'reviewFlag' | 'tags' | 'difficulty' | 'bloomLevel'>;
+
+export enum QuestionDifficulty {
+  Easy = 'easy',
+  Medium = 'medium',
+  Hard = 'hard',
+}
+
+// Cognitive level of Bloom's revised taxonomy, lowest to highest.
+export enum BloomLevel {
+  Remember = 'remember',
+  Understand = 'understand',
+  Apply = 'apply',
+  Analyze = 'analyze',
+  Evaluate = 'evaluate',
+  Create = 'create',
+}
+
+// The slice of a document a question was generated from ("Generar desde documento").
+export interface QuestionSource {
+  document: string; // File name
+  section: string; // Chunk title: a heading or a page range
+  chunkIndex: number; // 1-based
+  chunkCount: number;
+}
+
+// Kept with the prompt so the request can still be named after it is removed from the queue.
+export interface QuestionSourceRequest {
+  id: string;
+  prompt: string;
+}
+
+// Source reference returned by the model with each question. Not part of the CSV export.
+export interface QuestionCitation {
+  file: string; // File name, or "Contexto general" for the pasted text
+  location: string; // Page or section, as the model reported it
+  quote: string; // Short verbatim excerpt supporting the answer
+  verified?: boolean; // Whether the quote was found in the text sent with the request; unset when it couldn't be checked
+}
+
+export interface QuestionReviewFlag {
+  note: string; // Optional reason typed by the reviewer
+  flaggedAt: number;
+}
+
+export enum QuestionVerificationStatus {
+  Verified = 'verified', // The context supports the answer, no distractor is also correct, the explanation agrees
+  Disputed = 'disputed', // The context contradicts the answer, another option is also correct, or the explanation disagrees
+  Unsupported = 'unsupported', // The context doesn't cover the answer
+}
+
+// AI fact-check of a question against the context ("Verificar").
+export interface QuestionVerification {
+  status: QuestionVerificationStatus;
+  reasoning: string;
+  correctOptionsSupported: boolean;
+  correctDistractors: string[]; // Incorrect options the model considers correct as well
+  explanationConsistent: boolean;
+  checkedAt: number;
 }
 
 export enum RequestStatus {
@@ -16,6 +86,7 @@ export enum RequestStatus {
   Processing = 'processing',
   Completed = 'completed',
   Error = 'error',
+  Cancelled = 'cancelled', // Skipped by the user; the queue ignores it until it is put back as Pending
 }
 
 export enum ThinkingIntensity {
@@ -25,6 +96,18 @@ export enum ThinkingIntensity {
   VeryHigh = 'very-high',
 }
 
+export enum LlmProviderId {
+  Gemini = 'gemini',
+  OpenAiCompatible = 'openai-compatible', // llama.cpp server, Ollama, LM Studio, vLLM...
+}
+
+export interface LlmProviderSettings {
+  providerId: LlmProviderId;
+  openAiBaseUrl: string; // e.g. http://localhost:11434/v1
+  openAiApiKey: string; // Optional for most local servers
+  openAiModel: string;
+}
+
 export interface GenerationRequest {
   id:string;
   prompt: string;
@@ -34,6 +117,36 @@ export interface GenerationRequest {
   jsonCorrectionAttempts?: number; 
   questionsGeneratedCount?: number; // To show how many questions this request produced
   thinkingIntensity: ThinkingIntensity;
+  targets?: QuestionTargets; // Without targets the model decides how many questions, and of which types
+  sourceChunk?: RequestSourceChunk; // Replaces the general context (text and files) for this request
+  retrievedPassages?: RetrievedPassage[]; // General-context passages sent instead of the full context (local retrieval)
+}
+
+// A passage of the general context picked for a request by the local BM25 index.
+export interface RetrievedPassage {
+  source: string; // File name, or "Contexto general" for the pasted text
+  section: string; // Heading or page range within the source
+  text: string;
+  score: number;
+}
+
+export interface RequestSourceChunk extends QuestionSource {
+  text: string;
+}
+
+// How many questions a request should produce. Type counts not covered by typeMix are left to the model.
+export interface QuestionTargets {
+  count?: number;
+  typeMix?: Partial<Record<QuestionDisplayType, number>>;
+}
+
+// A question returned by an AI rewrite request, waiting for the reviewer to approve it.
+export interface StagedQuestion {
+  id: string;
+  requestId: string;
+  requestPrompt: string;
+  question: QuestionData; // Proposed version; for rewrites its id matches the original question
+  rejectedFields: QuestionTextField[]; // Fields whose proposed change the reviewer declined
 }
 
 export const CSV_HEADERS = [
@@ -48,7 +161,7 @@ export const CSV_HEADERS = [
 ];
 
 // Helper to map CSV_HEADERS to QuestionData keys
-export const CSV_HEADER_TO_QUESTION_DATA_KEY_MAP: Record<string, keyof QuestionData> = {
+export const CSV_HEADER_TO_QUESTION_DATA_KEY_MAP: Record<string, QuestionTextField> = {
   "Pregunta": "Pregunta",
   "Opción correcta 1": "Opción correcta 1",
   "Opción Correcta 2": "Opción Correcta 2",
@@ -0,0 +1,218 @@
+import sqlWasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+import { QuestionData, QuestionDisplayType } from '../types';
+import { ANKI_BASIC_MODEL_ID, ANKI_CHOICE_MODEL_ID } from '../constants';
+import { getQuestionDisplayType, getCorrectOptions, getIncorrectOptions, isFieldEmpty } from './questionType';
+
+// Anki export. Flashcard and OpenAnswer questions become Basic notes (Front/Back); SingleCorrect,
+// MultipleCorrect and TrueFalse become "choice" notes that show the options on the front and the
+// correct ones plus the explanation on the back. Empty/Unknown questions are skipped.
+
+export interface AnkiDeckInfo {
+  deckName: string;
+  description: string;
+  tags: string[]; // Raw values (asignatura, categoria); sanitized into Anki tags here
+}
+
+interface AnkiNote {
+  guid: string;
+  modelId: number;
+  fields: string[];
+}
+
+const FIELD_SEPARATOR = '\x1f';
+
+const ANKI_CARD_CSS = `.card { font-family: arial; font-size: 20px; text-align: left; color: black; background-color: white; }
+.explicacion { margin-top: 1em; font-size: 16px; color: #555; }`;
+
+const escapeHtml = (value: string): string =>
+  value.trim().replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/\r?\n/g, '<br>');
+
+const stripHtml = (html: string): string => html.replace(/<br>/g, ' ').replace(/<[^>]+>/g, '').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+
+// FNV-1a; only used for stable ids and option order, not for security.
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Anki tags cannot contain spaces.
+export function toAnkiTags(values: string[]): string[] {
+  return Array.from(new Set(values.map(value => value.trim().replace(/\s+/g, '_')).filter(tag => tag !== '')));
+}
+
+// Options are shuffled so the correct one is not always first, but deterministically (by question id)
+// so exporting the same bank twice gives the same cards.
+function buildOptionsHtml(question: QuestionData): string {
+  const options = [...getCorrectOptions(question), ...getIncorrectOptions(question)]
+    .sort((a, b) => hashString(question.id + a) - hashString(question.id + b));
+  return `<ol type="A">${options.map(option => `<li>${escapeHtml(option)}</li>`).join('')}</ol>`;
+}
+
+function buildNote(question: QuestionData): AnkiNote | null {
+  const guid = `questioner-${question.id}`;
+  const explanation = isFieldEmpty(question.Explicación) ? '' : escapeHtml(question.Explicación!);
+  const withExplanation = (back: string) => (explanation ? `${back}<div class="explicacion">${explanation}</div>` : back);
+
+  switch (getQuestionDisplayType(question)) {
+    case QuestionDisplayType.Flashcard:
+      return { guid, modelId: ANKI_BASIC_MODEL_ID, fields: [escapeHtml(question.Pregunta), withExplanation(escapeHtml(question['Opción Correcta 2'] || ''))] };
+    case QuestionDisplayType.OpenAnswer:
+      return { guid, modelId: ANKI_BASIC_MODEL_ID, fields: [escapeHtml(question.Pregunta), withExplanation(escapeHtml(question['Opción correcta 1']))] };
+    case QuestionDisplayType.SingleCorrect:
+    case QuestionDisplayType.MultipleCorrect:
+    case QuestionDisplayType.TrueFalse: {
+      const answer = `<ul>${getCorrectOptions(question).map(option => `<li>${escapeHtml(option)}</li>`).join('')}</ul>`;
+      return { guid, modelId: ANKI_CHOICE_MODEL_ID, fields: [escapeHtml(question.Pregunta), buildOptionsHtml(question), answer, explanation] };
+    }
+    default:
+      return null;
+  }
+}
+
+export function buildAnkiNotes(questions: QuestionData[]): AnkiNote[] {
+  return questions.map(buildNote).filter((note): note is AnkiNote => note !== null);
+}
+
+// Plain-text fallback for Anki's "Importar archivo": one Basic note per line (Front, Back, Tags).
+export function generateAnkiTsvString(questions: QuestionData[], deckInfo: AnkiDeckInfo): string {
+  const tags = toAnkiTags(deckInfo.tags).join(' ');
+  const clean = (value: string) => value.replace(/[\t\n\r]+/g, ' ');
+  const rows = buildAnkiNotes(questions).map(note => {
+    const [front, back] = note.modelId === ANKI_CHOICE_MODEL_ID
+      ? [`${note.fields[0]}<br>${note.fields[1]}`, note.fields[3] ? `${note.fields[2]}<div class="explicacion">${note.fields[3]}</div>` : note.fields[2]]
+      : note.fields;
+    return [clean(front), clean(back), tags].join('\t');
+  });
+  return [
+    '#separator:tab',
+    '#html:true',
+    '#notetype:Basic',
+    `#deck:${clean(deckInfo.deckName)}`,
+    '#tags column:3',
+    ...rows,
+  ].join('\n') + '\n';
+}
+
+// Schema 11 collection (the format Anki still imports from .apkg files).
+const ANKI_SCHEMA_SQL = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+function buildModel(id: number, name: string, fieldNames: string[], qfmt: string, afmt: string, deckId: number, modSeconds: number) {
+  return {
+    id,
+    name,
+    type: 0,
+    mod: modSeconds,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [{ name: 'Tarjeta 1', ord: 0, qfmt, afmt, did: null, bqfmt: '', bafmt: '' }],
+    flds: fieldNames.map((fieldName, ord) => ({ name: fieldName, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    css: ANKI_CARD_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    tags: [],
+    vers: [],
+    req: [[0, 'any', [0]]],
+  };
+}
+
+function buildDeck(id: number, name: string, description: string, modSeconds: number) {
+  return {
+    id, name, desc: description, mod: modSeconds, usn: -1, collapsed: false, dyn: 0, conf: 1, extendNew: 10, extendRev: 50,
+    newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+  };
+}
+
+const DEFAULT_DECK_CONFIG = {
+  1: {
+    id: 1, name: 'Default', replayq: true, timer: 0, maxTaken: 60, usn: 0, mod: 0, autoplay: true, dyn: false,
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+    rev: { perDay: 100, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: true },
+    new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, separate: true, order: 1, perDay: 20, bury: true },
+  },
+};
+
+// Anki's note checksum: first 8 hex digits of the SHA-1 of the (HTML-stripped) sort field.
+async function computeFieldChecksum(text: string): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 4)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+  return parseInt(hex, 16);
+}
+
+// Builds a .apkg (zip with a SQLite collection and an empty media map). sql.js and JSZip are loaded on demand.
+export const buildAnkiPackage = async (questions: QuestionData[], deckInfo: AnkiDeckInfo): Promise<Blob> => {
+  const notes = buildAnkiNotes(questions);
+  if (notes.length === 0) {
+    throw new Error("No hay preguntas que se puedan convertir en tarjetas de Anki.");
+  }
+
+  const [{ default: initSqlJs }, { default: JSZip }] = await Promise.all([import('sql.js'), import('jszip')]);
+  const SQL = await initSqlJs({ locateFile: () => sqlWasmUrl });
+  const db = new SQL.Database();
+
+  try {
+    const now = Date.now();
+    const nowSeconds = Math.floor(now / 1000);
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const deckName = deckInfo.deckName.trim() || 'Colección de Preguntas';
+    const deckId = 1_000_000_000_000 + hashString(`deck:${deckName}`); // Stable, so re-imports land in the same deck
+    const tags = toAnkiTags(deckInfo.tags);
+
+    const models = {
+      [ANKI_BASIC_MODEL_ID]: buildModel(ANKI_BASIC_MODEL_ID, 'Básica (Questioner)', ['Anverso', 'Reverso'],
+        '{{Anverso}}', '{{FrontSide}}<hr id=answer>{{Reverso}}', deckId, nowSeconds),
+      [ANKI_CHOICE_MODEL_ID]: buildModel(ANKI_CHOICE_MODEL_ID, 'Opciones (Questioner)', ['Pregunta', 'Opciones', 'Respuesta', 'Explicación'],
+        '{{Pregunta}}<br>{{Opciones}}', '{{FrontSide}}<hr id=answer>{{Respuesta}}{{#Explicación}}<div class="explicacion">{{Explicación}}</div>{{/Explicación}}', deckId, nowSeconds),
+    };
+    const decks = {
+      1: { ...buildDeck(1, 'Default', '', nowSeconds), usn: 0 },
+      [deckId]: buildDeck(deckId, deckName, deckInfo.description, nowSeconds),
+    };
+    const conf = {
+      activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true, dueCounts: true,
+      curModel: null, nextPos: notes.length + 1, sortType: 'noteFld', sortBackwards: false, addToCur: true,
+    };
+
+    db.run(ANKI_SCHEMA_SQL);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      Math.floor(startOfToday.getTime() / 1000), now, now,
+      JSON.stringify(conf), JSON.stringify(models), JSON.stringify(decks), JSON.stringify(DEFAULT_DECK_CONFIG), '{}',
+    ]);
+
+    const noteTags = tags.length > 0 ? ` ${tags.join(' ')} ` : '';
+    for (let index = 0; index < notes.length; index++) {
+      const note = notes[index];
+      const id = now + index;
+      const sortField = stripHtml(note.fields[0]);
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+        id, note.guid, note.modelId, nowSeconds, noteTags, note.fields.join(FIELD_SEPARATOR), sortField, await computeFieldChecksum(sortField),
+      ]);
+      db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')', [id, id, deckId, nowSeconds, index + 1]);
+    }
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    zip.file('media', '{}');
+    return await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  } finally {
+    db.close();
+  }
+};
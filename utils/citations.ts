@@ -0,0 +1,70 @@
+import { QuestionData } from '../types';
+import { canExtractDocumentText, extractDocumentSections } from './documentChunker';
+import { normalizeText } from './questionType';
+
+// Checks the quote each question cites against the text that was actually sent with its request.
+// Matching ignores case, accents, punctuation and whitespace, so PDF line breaks and typographic
+// quotes don't count as differences; anything else (a paraphrase, an invented sentence) does.
+
+export interface CitationSourceText {
+  text: string; // Normalized
+  complete: boolean; // False when some file couldn't be read (images, scanned PDFs...): a miss proves nothing
+}
+
+// Parts of a quote shorter than this (after normalizing) are too generic to tell anything.
+const MIN_QUOTE_PART_LENGTH = 12;
+
+// Files are immutable, so their text is extracted once per session, not once per request.
+const extractedFileTexts = new WeakMap<File, Promise<string>>();
+
+const extractFileText = (file: File): Promise<string> => {
+  let text = extractedFileTexts.get(file);
+  if (!text) {
+    text = extractDocumentSections(file).then(sections => normalizeText(sections.map(section => section.text).join('\n')));
+    extractedFileTexts.set(file, text);
+    text.catch(() => extractedFileTexts.delete(file));
+  }
+  return text;
+};
+
+export const buildCitationSourceText = async (
+  text: string,
+  files: File[],
+  onFileError?: (file: File, error: Error) => void
+): Promise<CitationSourceText> => {
+  const texts = [normalizeText(text)];
+  let complete = true;
+  for (const file of files) {
+    if (!canExtractDocumentText(file)) {
+      complete = false;
+      continue;
+    }
+    try {
+      texts.push(await extractFileText(file));
+    } catch (e: any) {
+      onFileError?.(file, e);
+      complete = false;
+    }
+  }
+  return { text: ` ${texts.join(' ')} `, complete };
+};
+
+// A quote may skip text with "..." or "…"; every substantial part must then appear on its own.
+export const isQuoteInSource = (quote: string, source: CitationSourceText): boolean | undefined => {
+  const parts = quote
+    .split(/\.{3,}|…|\[\s*\]/)
+    .map(normalizeText)
+    .filter(part => part.length >= MIN_QUOTE_PART_LENGTH);
+  if (parts.length === 0) return undefined;
+  if (parts.every(part => source.text.includes(` ${part} `))) return true;
+  return source.complete ? false : undefined;
+};
+
+// Sets citation.verified on every cited question; questions without a citation are returned unchanged.
+export const verifyCitations = (questions: QuestionData[], source: CitationSourceText): QuestionData[] =>
+  questions.map(question => {
+    if (!question.citation) return question;
+    const verified = isQuoteInSource(question.citation.quote, source);
+    const { verified: _previous, ...citation } = question.citation;
+    return { ...question, citation: verified === undefined ? citation : { ...citation, verified } };
+  });
@@ -0,0 +1,133 @@
+import { LOCAL_STORAGE_RETRIEVAL_SETTINGS, RETRIEVAL_PASSAGE_TOKENS } from '../constants';
+import { RetrievedPassage } from '../types';
+import { DocumentSection, canExtractDocumentText, extractDocumentSections, splitTextByHeadings, chunkDocumentSections } from './documentChunker';
+import { normalizeText } from './questionType';
+
+// Local retrieval over the general context: the pasted text and every text-extractable file are
+// cut into small passages and indexed with BM25, so each request can send only the passages that
+// match its prompt. Everything runs in the browser; nothing is uploaded to build the index.
+
+export interface RetrievalSettings {
+  enabled: boolean;
+  topK: number; // Passages sent per request
+}
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = { enabled: false, topK: 8 };
+
+export const GENERAL_CONTEXT_TEXT_SOURCE = 'Contexto general';
+
+export const loadRetrievalSettings = (): RetrievalSettings => {
+  try {
+    const stored = localStorage.getItem(LOCAL_STORAGE_RETRIEVAL_SETTINGS);
+    const parsed = stored ? JSON.parse(stored) : {};
+    const settings = { ...DEFAULT_RETRIEVAL_SETTINGS, ...(typeof parsed === 'object' && parsed !== null ? parsed : {}) };
+    return { enabled: settings.enabled === true, topK: Number.isFinite(settings.topK) && settings.topK >= 1 ? Math.floor(settings.topK) : DEFAULT_RETRIEVAL_SETTINGS.topK };
+  } catch {
+    return { ...DEFAULT_RETRIEVAL_SETTINGS };
+  }
+};
+
+export const saveRetrievalSettings = (settings: RetrievalSettings): void => {
+  localStorage.setItem(LOCAL_STORAGE_RETRIEVAL_SETTINGS, JSON.stringify(settings));
+};
+
+interface IndexedPassage {
+  source: string;
+  section: string;
+  text: string;
+  termFrequencies: Map<string, number>;
+  length: number; // Term count
+}
+
+export interface ContextIndex {
+  passages: IndexedPassage[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+  unindexedFiles: File[]; // Images, scanned PDFs... still sent whole with every request
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'de', 'del', 'al', 'a', 'en', 'y', 'o', 'u', 'que', 'con', 'por', 'para',
+  'se', 'su', 'sus', 'es', 'son', 'como', 'mas', 'pero', 'sin', 'sobre', 'entre', 'este', 'esta', 'estos', 'estas', 'ese', 'esa',
+  'lo', 'le', 'les', 'no', 'si', 'ya', 'muy', 'cada', 'todo', 'toda', 'todos', 'todas', 'otro', 'otra', 'ser', 'hay', 'fue',
+  'genera', 'generar', 'pregunta', 'preguntas',
+  'the', 'of', 'and', 'to', 'in', 'is', 'are', 'for', 'on', 'with', 'as', 'by', 'an', 'be', 'this', 'that', 'it', 'or', 'from',
+]);
+
+// Lowercase, accent-free terms with a crude plural strip, so "células" matches "célula".
+export const tokenizeForRetrieval = (text: string): string[] =>
+  normalizeText(text)
+    .split(' ')
+    .filter(term => term.length > 1 && !STOPWORDS.has(term))
+    .map(term => (term.length > 4 && term.endsWith('es') ? term.slice(0, -2) : term.length > 3 && term.endsWith('s') ? term.slice(0, -1) : term));
+
+const toPassages = (source: string, sections: DocumentSection[]) =>
+  chunkDocumentSections(sections, RETRIEVAL_PASSAGE_TOKENS).map(chunk => ({ source, section: chunk.title, text: chunk.text }));
+
+// Identifies the context an index was built from, so it can be reused while the context is unchanged.
+export const getContextIndexKey = (text: string, files: File[]): string =>
+  JSON.stringify([text, files.map(file => [file.name, file.size, file.lastModified])]);
+
+export const buildContextIndex = async (
+  text: string,
+  files: File[],
+  onFileError?: (file: File, error: Error) => void
+): Promise<ContextIndex> => {
+  const rawPassages = text.trim() ? toPassages(GENERAL_CONTEXT_TEXT_SOURCE, splitTextByHeadings(text, GENERAL_CONTEXT_TEXT_SOURCE)) : [];
+  const unindexedFiles: File[] = [];
+  for (const file of files) {
+    if (!canExtractDocumentText(file)) {
+      unindexedFiles.push(file);
+      continue;
+    }
+    try {
+      rawPassages.push(...toPassages(file.name, await extractDocumentSections(file)));
+    } catch (e: any) {
+      onFileError?.(file, e);
+      unindexedFiles.push(file);
+    }
+  }
+
+  const documentFrequencies = new Map<string, number>();
+  const passages: IndexedPassage[] = rawPassages.map(passage => {
+    const terms = tokenizeForRetrieval(passage.text);
+    const termFrequencies = new Map<string, number>();
+    terms.forEach(term => termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1));
+    termFrequencies.forEach((_, term) => documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1));
+    return { ...passage, termFrequencies, length: terms.length };
+  });
+  const averageLength = passages.length > 0 ? passages.reduce((sum, passage) => sum + passage.length, 0) / passages.length : 0;
+  return { passages, documentFrequencies, averageLength, unindexedFiles };
+};
+
+// Top `topK` passages by BM25 score, in document order. Empty when no passage shares a term with the query.
+export const searchContextIndex = (index: ContextIndex, query: string, topK: number): RetrievedPassage[] => {
+  const queryTerms = Array.from(new Set(tokenizeForRetrieval(query)));
+  const passageCount = index.passages.length;
+  const scored = index.passages.map((passage, position) => {
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = passage.termFrequencies.get(term);
+      if (!frequency) continue;
+      const documentFrequency = index.documentFrequencies.get(term) || 0;
+      const idf = Math.log(1 + (passageCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      score += idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * passage.length / (index.averageLength || 1)));
+    }
+    return { passage, position, score };
+  });
+  return scored
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .sort((a, b) => a.position - b.position)
+    .map(({ passage, score }) => ({ source: passage.source, section: passage.section, text: passage.text, score: Math.round(score * 100) / 100 }));
+};
+
+// Context text sent instead of the full general context.
+export const formatRetrievedContext = (passages: RetrievedPassage[], indexedPassageCount: number): string =>
+  `Pasajes del material de estudio seleccionados para esta solicitud (los ${passages.length} más relevantes de ${indexedPassageCount}). Basa las preguntas en ellos.
+
+${passages.map((passage, i) => `[Pasaje ${i + 1}: ${passage.source}, ${passage.section}]\n${passage.text}`).join('\n\n')}`;
@@ -0,0 +1,163 @@
+import { QuestionData, QuestionTextField, CSV_HEADER_TO_QUESTION_DATA_KEY_MAP } from '../types';
+import { LOCAL_STORAGE_CSV_COLUMN_MAPPINGS } from '../constants';
+import { REVIEWABLE_FIELDS } from './questionStaging';
+import { normalizeText } from './questionType';
+
+// Column mapping for CSV files whose header is not exactly CSV_HEADERS. Each column maps to a
+// QuestionData content field or to null (ignored).
+
+export type CsvColumnTarget = QuestionTextField | null;
+
+export type ColumnSuggestionSource = 'exact' | 'synonym' | 'fuzzy' | 'remembered';
+
+export interface ColumnMappingSuggestion {
+  mapping: CsvColumnTarget[];
+  sources: (ColumnSuggestionSource | null)[]; // Why each column got its target (null when ignored)
+}
+
+export const MAPPABLE_FIELDS: (QuestionTextField)[] = REVIEWABLE_FIELDS;
+
+type FieldGroup = 'question' | 'correct' | 'incorrect' | 'explanation' | 'back';
+
+const GROUP_SLOTS: Record<FieldGroup, (QuestionTextField)[]> = {
+  question: ['Pregunta'],
+  correct: ['Opción correcta 1', 'Opción Correcta 2', 'Opción Correcta 3'],
+  incorrect: ['Opción Incorrecta 1', 'Opción Incorrecta 2', 'Opción Incorrecta 3'],
+  explanation: ['Explicación'],
+  back: ['Opción Correcta 2'], // Flashcard answer ("Back"); a plain correct option when the file has another correct column
+};
+
+// Normalized (lowercase, no accents) header names, Spanish and English, without the option number.
+const GROUP_SYNONYMS: Record<FieldGroup, string[]> = {
+  question: ['pregunta', 'enunciado', 'texto de la pregunta', 'reactivo', 'anverso', 'question', 'question text', 'prompt', 'stem', 'front'],
+  correct: [
+    'opcion correcta', 'respuesta correcta', 'correcta', 'respuesta', 'solucion',
+    'correct', 'correct answer', 'correct option', 'answer', 'right answer', 'solution',
+  ],
+  incorrect: [
+    'opcion incorrecta', 'respuesta incorrecta', 'incorrecta', 'distractor', 'opcion falsa', 'respuesta falsa',
+    'incorrect', 'incorrect answer', 'incorrect option', 'wrong', 'wrong answer', 'wrong option', 'distractor option',
+  ],
+  explanation: ['explicacion', 'justificacion', 'retroalimentacion', 'comentario', 'explanation', 'feedback', 'rationale', 'notes'],
+  back: ['reverso', 'back'],
+};
+
+const FUZZY_MATCH_THRESHOLD = 0.8;
+
+// "Distractor B" -> { base: 'distractor', index: 2 }, "Answer2" -> { base: 'answer', index: 2 }
+function splitOptionIndex(normalized: string): { base: string; index: number | null } {
+  const numbered = normalized.match(/^(.*?)\s*(\d+)$/);
+  if (numbered && numbered[1]) return { base: numbered[1].trim(), index: parseInt(numbered[2], 10) };
+  const lettered = normalized.match(/^(.*\S)\s+([a-f])$/);
+  if (lettered) return { base: lettered[1], index: lettered[2].charCodeAt(0) - 'a'.charCodeAt(0) + 1 };
+  return { base: normalized, index: null };
+}
+
+export function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const similarity = (a: string, b: string): number => 1 - levenshteinDistance(a, b) / Math.max(a.length, b.length, 1);
+
+function matchGroup(base: string): { group: FieldGroup; source: 'synonym' | 'fuzzy' } | null {
+  let best: { group: FieldGroup; score: number } | null = null;
+  for (const group of Object.keys(GROUP_SYNONYMS) as FieldGroup[]) {
+    for (const synonym of GROUP_SYNONYMS[group]) {
+      if (synonym === base) return { group, source: 'synonym' };
+      const score = similarity(synonym, base);
+      if (score >= FUZZY_MATCH_THRESHOLD && (!best || score > best.score)) best = { group, score };
+    }
+  }
+  return best ? { group: best.group, source: 'fuzzy' } : null;
+}
+
+export function suggestColumnMapping(headers: string[]): ColumnMappingSuggestion {
+  const mapping: CsvColumnTarget[] = headers.map(() => null);
+  const sources: (ColumnSuggestionSource | null)[] = headers.map(() => null);
+  const used = new Set<QuestionTextField>();
+  const assign = (column: number, target: QuestionTextField, source: ColumnSuggestionSource) => {
+    mapping[column] = target;
+    sources[column] = source;
+    used.add(target);
+  };
+
+  // 1. The app's own headers (case/accent-insensitive).
+  const exactHeaders = new Map(Object.entries(CSV_HEADER_TO_QUESTION_DATA_KEY_MAP).map(([header, key]) => [normalizeText(header), key]));
+  headers.forEach((header, column) => {
+    const key = exactHeaders.get(normalizeText(header));
+    if (key && !used.has(key)) assign(column, key, 'exact');
+  });
+
+  // 2. Synonyms and fuzzy matches. Numbered columns ("Distractor 2") claim their slot first;
+  // unnumbered ones take the first free slot of their group, in column order. Flashcard backs go
+  // last: to 'Opción Correcta 2' (Flashcard type) unless another column already holds a correct option.
+  const candidates = headers
+    .map((header, column) => ({ column, ...splitOptionIndex(normalizeText(header)) }))
+    .filter(candidate => mapping[candidate.column] === null)
+    .map(candidate => {
+      const match = matchGroup(candidate.base);
+      return match ? { ...candidate, ...match } : null;
+    })
+    .filter((candidate): candidate is NonNullable<typeof candidate> => candidate !== null);
+
+  candidates
+    .filter(candidate => candidate.index !== null)
+    .forEach(candidate => {
+      const slot = GROUP_SLOTS[candidate.group === 'back' ? 'correct' : candidate.group][candidate.index! - 1];
+      if (slot && !used.has(slot)) assign(candidate.column, slot, candidate.source);
+    });
+  candidates
+    .filter(candidate => mapping[candidate.column] === null)
+    .sort((a, b) => Number(a.group === 'back') - Number(b.group === 'back'))
+    .forEach(candidate => {
+      const hasCorrectColumn = GROUP_SLOTS.correct.some(field => used.has(field));
+      const slots = candidate.group === 'back' && hasCorrectColumn ? GROUP_SLOTS.correct : GROUP_SLOTS[candidate.group];
+      const slot = slots.find(field => !used.has(field));
+      if (slot) assign(candidate.column, slot, candidate.source);
+    });
+
+  return { mapping, sources };
+}
+
+// Identifies a header layout regardless of case, accents and spacing.
+export const getHeaderSignature = (headers: string[]): string => headers.map(normalizeText).join('|');
+
+const readSavedMappings = (): Record<string, CsvColumnTarget[]> => {
+  try {
+    const stored = localStorage.getItem(LOCAL_STORAGE_CSV_COLUMN_MAPPINGS);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+export function loadSavedColumnMapping(headers: string[]): CsvColumnTarget[] | null {
+  const saved = readSavedMappings()[getHeaderSignature(headers)];
+  if (!Array.isArray(saved) || saved.length !== headers.length) return null;
+  // Drop targets that are no longer valid fields (e.g. after a QuestionData change).
+  return saved.map(target => (target && MAPPABLE_FIELDS.includes(target) ? target : null));
+}
+
+export function saveColumnMapping(headers: string[], mapping: CsvColumnTarget[]): void {
+  const saved = readSavedMappings();
+  saved[getHeaderSignature(headers)] = mapping;
+  localStorage.setItem(LOCAL_STORAGE_CSV_COLUMN_MAPPINGS, JSON.stringify(saved));
+}
+
+export function applyColumnMapping(fields: string[], mapping: CsvColumnTarget[], id: string): QuestionData {
+  // Pregunta and 'Opción correcta 1' are required strings; the other fields stay undefined when empty.
+  const question: QuestionData = { id, Pregunta: '', 'Opción correcta 1': '' };
+  mapping.forEach((target, column) => {
+    if (target && fields[column]) question[target] = fields[column];
+  });
+  return question;
+}
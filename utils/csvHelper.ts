@@ -1,39 +1,208 @@
-import { QuestionData, CSV_HEADERS } from '../types';
+import { QuestionData, CSV_HEADERS, QuestionDisplayType } from '../types';
+import { getQuestionDisplayType, getCorrectOptions, getIncorrectOptions, isFieldEmpty } from './questionType';
 
-// Robust CSV line parser considering quotes
-export function parseCsvLineRobust(line: string): string[] {
-    const fields: string[] = [];
-    let currentField = "";
-    let inQuotes = false;
+// --- CSV parsing (RFC 4180) ---
+// Quote-aware state machine fed in chunks, so quoted fields may contain delimiters, doubled quotes
+// and line breaks (generateCsvString emits all three). Malformed records are reported with the line
+// where they start instead of being emitted.
 
-    for (let i = 0; i < line.length; i++) {
-        const char = line[i];
+export type CsvDelimiter = ',' | ';' | '\t';
 
+export interface CsvRecord {
+  fields: string[];
+  line: number; // 1-based line where the record starts
+}
+
+export interface CsvParseError {
+  line: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  records: CsvRecord[];
+  delimiter: CsvDelimiter;
+  errors: CsvParseError[];
+}
+
+export interface CsvStreamParser {
+  write: (chunk: string) => void;
+  end: () => void;
+}
+
+const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+// Picks the delimiter that splits the first (header) line into the most fields, ignoring quoted text.
+// Spanish-locale Excel writes ';', some tools export tab-separated text.
+export function detectCsvDelimiter(sample: string): CsvDelimiter {
+  const counts: Record<CsvDelimiter, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+  for (const char of sample) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && char in counts) counts[char as CsvDelimiter]++;
+  }
+  return CSV_DELIMITERS.reduce((best, delimiter) => (counts[delimiter] > counts[best] ? delimiter : best), ',');
+}
+
+export function createCsvStreamParser(
+  onRecord: (record: CsvRecord) => void,
+  onError: (error: CsvParseError) => void,
+  delimiter?: CsvDelimiter,
+  onDelimiterDetected?: (delimiter: CsvDelimiter) => void
+): CsvStreamParser {
+  let activeDelimiter: CsvDelimiter | undefined = delimiter;
+  let pendingText = ''; // Buffered until the header line is complete, when the delimiter must be detected
+  let isFirstChunk = true;
+
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let afterClosingQuote = false; // Just left a quoted field: a '"' now is an escaped quote, a delimiter/newline ends the field
+  let recordHasContent = false;
+  let malformedReason: string | null = null;
+  let skipNextLineFeed = false; // Previous char was '\r' (CRLF)
+  let line = 1;
+  let recordStartLine = 1;
+
+  const endField = () => {
+    fields.push(field.replace(/\r\n/g, '\n'));
+    field = '';
+    afterClosingQuote = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    if (malformedReason) {
+      onError({ line: recordStartLine, message: malformedReason });
+    } else if (recordHasContent || fields.length > 1) {
+      onRecord({ fields, line: recordStartLine });
+    } // else: blank line, ignored
+    fields = [];
+    recordHasContent = false;
+    malformedReason = null;
+  };
+
+  const markMalformed = (reason: string) => {
+    if (!malformedReason) malformedReason = line === recordStartLine ? `${reason}.` : `${reason} (en la línea ${line}).`;
+  };
+
+  const consume = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (skipNextLineFeed) {
+        skipNextLineFeed = false;
+        if (char === '\n') {
+          if (inQuotes) field += char; // Second half of a CRLF inside a quoted field; its line was already counted
+          continue;
+        }
+      }
+
+      if (inQuotes) {
         if (char === '"') {
-            if (inQuotes && i + 1 < line.length && line[i + 1] === '"') {
-                // Escaped double quote
-                currentField += '"';
-                i++; // Skip next quote
-            } else {
-                inQuotes = !inQuotes;
-            }
-        } else if (char === ',' && !inQuotes) {
-            fields.push(currentField);
-            currentField = "";
+          inQuotes = false;
+          afterClosingQuote = true;
         } else {
-            currentField += char;
+          if (char === '\n' || char === '\r') line++;
+          skipNextLineFeed = char === '\r'; // The '\n' may arrive in the next chunk
+          field += char;
         }
-    }
-    fields.push(currentField); // Add the last field
+        continue;
+      }
 
-    // Trim fields if they were not quoted, or if quotes were only for containing commas
-    return fields.map(field => {
-        if (field.startsWith('"') && field.endsWith('"')) {
-            // Remove outer quotes and unescape inner double quotes
-            return field.substring(1, field.length - 1).replace(/""/g, '"');
+      if (char === '"') {
+        if (afterClosingQuote) {
+          field += '"'; // "" inside a quoted field
+          inQuotes = true;
+          afterClosingQuote = false;
+        } else if (field === '') {
+          inQuotes = true;
+          recordHasContent = true;
+        } else {
+          markMalformed('Comilla inesperada dentro de un campo sin comillas');
+          field += char;
         }
-        return field.trim();
-    });
+      } else if (char === activeDelimiter) {
+        endField();
+        recordHasContent = true;
+      } else if (char === '\n' || char === '\r') {
+        endRecord();
+        line++;
+        recordStartLine = line;
+        skipNextLineFeed = char === '\r';
+      } else {
+        if (afterClosingQuote) markMalformed('Texto inesperado después de la comilla de cierre');
+        field += char;
+        recordHasContent = true;
+      }
+    }
+  };
+
+  return {
+    write: (chunk: string) => {
+      let text = chunk;
+      if (isFirstChunk) {
+        text = text.replace(/^\uFEFF/, '');
+        isFirstChunk = false;
+      }
+      if (!activeDelimiter) {
+        pendingText += text;
+        if (!/[\r\n]/.test(pendingText)) return;
+        activeDelimiter = detectCsvDelimiter(pendingText);
+        onDelimiterDetected?.(activeDelimiter);
+        text = pendingText;
+        pendingText = '';
+      }
+      consume(text);
+    },
+    end: () => {
+      if (!activeDelimiter) {
+        activeDelimiter = detectCsvDelimiter(pendingText);
+        onDelimiterDetected?.(activeDelimiter);
+        consume(pendingText);
+        pendingText = '';
+      }
+      if (inQuotes) {
+        onError({ line: recordStartLine, message: `Comillas sin cerrar: el campo abierto en la línea ${recordStartLine} llega hasta el final del archivo.` });
+        return;
+      }
+      if (recordHasContent || fields.length > 0) endRecord();
+    },
+  };
+}
+
+export function parseCsvString(text: string, delimiter?: CsvDelimiter): CsvParseResult {
+  const records: CsvRecord[] = [];
+  const errors: CsvParseError[] = [];
+  let detectedDelimiter: CsvDelimiter = delimiter || ',';
+  const parser = createCsvStreamParser(
+    record => records.push(record),
+    error => errors.push(error),
+    delimiter,
+    found => { detectedDelimiter = found; }
+  );
+  parser.write(text);
+  parser.end();
+  return { records, delimiter: detectedDelimiter, errors };
+}
+
+// Decodes and parses the file chunk by chunk instead of loading the whole text first.
+export async function parseCsvFile(file: Blob, delimiter?: CsvDelimiter): Promise<CsvParseResult> {
+  const records: CsvRecord[] = [];
+  const errors: CsvParseError[] = [];
+  let detectedDelimiter: CsvDelimiter = delimiter || ',';
+  const parser = createCsvStreamParser(
+    record => records.push(record),
+    error => errors.push(error),
+    delimiter,
+    found => { detectedDelimiter = found; }
+  );
+  const reader = file.stream().pipeThrough(new TextDecoderStream()).getReader();
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    parser.write(chunk.value);
+  }
+  parser.end();
+  return { records, delimiter: detectedDelimiter, errors };
 }
 
 
@@ -83,9 +252,466 @@ export function generateJsonString(
     return JSON.stringify(exportData, null, 2); // Pretty print JSON
 }
 
-// Build export filename using collection title: haiku_[titulo].ext
-export function buildExportFilename(collectionTitle: string, ext: 'json' | 'csv'): string {
-  const base = (collectionTitle && collectionTitle.trim() !== '') ? collectionTitle : 'coleccion';
+// --- Moodle XML / GIFT export ---
+// Type mapping (see getQuestionDisplayType): SingleCorrect -> multichoice (single), MultipleCorrect ->
+// multichoice with split fractions, TrueFalse -> truefalse, OpenAnswer -> shortanswer, Flashcard -> essay.
+// Explicación becomes the general feedback. Empty/Unknown questions are skipped.
+
+const TRUE_VALUES = ['verdadero', 'true', 'v', 'cierto', 'correcto'];
+const FALSE_VALUES = ['falso', 'false', 'f', 'incorrecto'];
+
+// A V/F question is only a Moodle truefalse when its correct option actually reads as true/false
+// ("Verdadero", "Falso"...). Otherwise (e.g. "Sí"/"No") it is exported as a two-option multichoice.
+function getTrueFalseAnswer(question: QuestionData): boolean | null {
+  const normalized = (question['Opción correcta 1'] || '').trim().toLowerCase().replace(/[.\s]+$/, '');
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  return null;
+}
+
+// Moodle only accepts fractions from a fixed list; 100/n and -100/n (n <= 3) all belong to it.
+function formatFraction(value: number): string {
+  return String(Math.round(value * 100000) / 100000);
+}
+
+// Moodle category path: $course$/top/Asignatura/Categoría ("/" inside a name is escaped as "//").
+export function buildMoodleCategoryPath(asignatura: string, categoria: string): string | null {
+  const parts = [asignatura, categoria].map(part => part.trim()).filter(part => part !== '');
+  if (parts.length === 0) return null;
+  return ['$course$', 'top', ...parts.map(part => part.replace(/\//g, '//'))].join('/');
+}
+
+function buildQuestionName(question: QuestionData): string {
+  const text = question.Pregunta.trim().replace(/\s+/g, ' ');
+  return text.length > 60 ? `${text.substring(0, 57)}...` : text;
+}
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// Rich-text fields are sent as HTML (line breaks preserved) inside CDATA.
+const toHtmlCdata = (value: string): string => {
+  const html = value.trim().replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br>');
+  return `<![CDATA[${html.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+};
+
+const xmlHtmlText = (tag: string, value: string, indent: string): string =>
+  `${indent}<${tag} format="html">\n${indent}  <text>${toHtmlCdata(value)}</text>\n${indent}</${tag}>`;
+
+const xmlAnswer = (fraction: number, text: string, format: 'html' | 'plain_text'): string => {
+  const content = format === 'html' ? toHtmlCdata(text) : escapeXml(text.trim());
+  return `    <answer fraction="${formatFraction(fraction)}" format="${format}">\n      <text>${content}</text>\n    </answer>`;
+};
+
+function buildMoodleXmlQuestion(question: QuestionData): string | null {
+  const type = getQuestionDisplayType(question);
+  const correct = getCorrectOptions(question);
+  const incorrect = getIncorrectOptions(question);
+
+  const header = (moodleType: string): string[] => [
+    `  <question type="${moodleType}">`,
+    `    <name>\n      <text>${escapeXml(buildQuestionName(question))}</text>\n    </name>`,
+    xmlHtmlText('questiontext', question.Pregunta, '    '),
+    xmlHtmlText('generalfeedback', question.Explicación || '', '    '),
+    '    <defaultgrade>1</defaultgrade>',
+    '    <penalty>0.3333333</penalty>',
+    '    <hidden>0</hidden>',
+  ];
+  const multichoice = (single: boolean, answers: string[]): string[] => [
+    ...header('multichoice'),
+    `    <single>${single}</single>`,
+    '    <shuffleanswers>true</shuffleanswers>',
+    '    <answernumbering>abc</answernumbering>',
+    ...answers,
+  ];
+
+  let lines: string[];
+  switch (type) {
+    case QuestionDisplayType.SingleCorrect:
+      lines = multichoice(true, [xmlAnswer(100, correct[0], 'html'), ...incorrect.map(option => xmlAnswer(0, option, 'html'))]);
+      break;
+    case QuestionDisplayType.MultipleCorrect:
+      // Correct options share 100%; incorrect ones share -100% so ticking everything scores 0.
+      lines = multichoice(false, [
+        ...correct.map(option => xmlAnswer(100 / correct.length, option, 'html')),
+        ...incorrect.map(option => xmlAnswer(-100 / incorrect.length, option, 'html')),
+      ]);
+      break;
+    case QuestionDisplayType.TrueFalse: {
+      const answer = getTrueFalseAnswer(question);
+      if (answer === null) {
+        lines = multichoice(true, [xmlAnswer(100, correct[0], 'html'), xmlAnswer(0, incorrect[0], 'html')]);
+      } else {
+        lines = [...header('truefalse'), xmlAnswer(answer ? 100 : 0, 'true', 'plain_text'), xmlAnswer(answer ? 0 : 100, 'false', 'plain_text')];
+      }
+      break;
+    }
+    case QuestionDisplayType.OpenAnswer:
+      lines = [...header('shortanswer'), '    <usecase>0</usecase>', xmlAnswer(100, correct[0], 'plain_text')];
+      break;
+    case QuestionDisplayType.Flashcard:
+      // The flashcard answer is the model answer shown to graders.
+      lines = [
+        ...header('essay'),
+        '    <responseformat>editor</responseformat>',
+        '    <responserequired>1</responserequired>',
+        '    <responsefieldlines>15</responsefieldlines>',
+        xmlHtmlText('graderinfo', question['Opción Correcta 2'] || '', '    '),
+      ];
+      break;
+    default:
+      return null;
+  }
+  return [...lines, '  </question>'].join('\n');
+}
+
+export function generateMoodleXmlString(questions: QuestionData[], asignatura: string, categoria: string): string {
+  const blocks: string[] = [];
+  const categoryPath = buildMoodleCategoryPath(asignatura, categoria);
+  if (categoryPath) {
+    blocks.push(`  <question type="category">\n    <category>\n      <text>${escapeXml(categoryPath)}</text>\n    </category>\n  </question>`);
+  }
+  questions.forEach(question => {
+    const block = buildMoodleXmlQuestion(question);
+    if (block) blocks.push(block);
+  });
+  return ['<?xml version="1.0" encoding="UTF-8"?>', '<quiz>', ...blocks, '</quiz>', ''].join('\n');
+}
+
+// GIFT reserves ~ = # { } : and the backslash; line breaks are written as \n so a question stays on one line.
+const escapeGift = (value: string): string =>
+  value.trim().replace(/([\\~=#{}:])/g, '\\$1').replace(/\r?\n/g, '\\n');
+
+function buildGiftQuestion(question: QuestionData): string | null {
+  const type = getQuestionDisplayType(question);
+  const correct = getCorrectOptions(question);
+  const incorrect = getIncorrectOptions(question);
+  const explanation = isFieldEmpty(question.Explicación) ? '' : escapeGift(question.Explicación!);
+  let generalFeedback = explanation;
+
+  let answers: string;
+  switch (type) {
+    case QuestionDisplayType.SingleCorrect:
+      answers = [`=${escapeGift(correct[0])}`, ...incorrect.map(option => `~${escapeGift(option)}`)].join(' ');
+      break;
+    case QuestionDisplayType.MultipleCorrect:
+      answers = [
+        ...correct.map(option => `~%${formatFraction(100 / correct.length)}%${escapeGift(option)}`),
+        ...incorrect.map(option => `~%${formatFraction(-100 / incorrect.length)}%${escapeGift(option)}`),
+      ].join(' ');
+      break;
+    case QuestionDisplayType.TrueFalse: {
+      const answer = getTrueFalseAnswer(question);
+      answers = answer === null
+        ? `=${escapeGift(correct[0])} ~${escapeGift(incorrect[0])}`
+        : (answer ? 'TRUE' : 'FALSE');
+      break;
+    }
+    case QuestionDisplayType.OpenAnswer:
+      answers = `=${escapeGift(correct[0])}`;
+      break;
+    case QuestionDisplayType.Flashcard:
+      // An empty answer block makes an essay. GIFT has no grader info, so the model answer goes into the general feedback.
+      answers = '';
+      generalFeedback = `Respuesta modelo: ${escapeGift(question['Opción Correcta 2'] || '')}${explanation ? `\\n\\n${explanation}` : ''}`;
+      break;
+    default:
+      return null;
+  }
+  return `::${escapeGift(buildQuestionName(question))}::${escapeGift(question.Pregunta)} {${answers}${generalFeedback ? `####${generalFeedback}` : ''}}`;
+}
+
+export function generateGiftString(questions: QuestionData[], asignatura: string, categoria: string): string {
+  const blocks: string[] = [];
+  const categoryPath = buildMoodleCategoryPath(asignatura, categoria);
+  if (categoryPath) blocks.push(`$CATEGORY: ${categoryPath}`);
+  questions.forEach(question => {
+    const block = buildGiftQuestion(question);
+    if (block) blocks.push(block);
+  });
+  return blocks.join('\n\n') + '\n';
+}
+
+// --- Moodle XML / GIFT import ---
+// Inverse of the export mapping: multichoice, truefalse, shortanswer and essay become QuestionData rows;
+// anything else (matching, numerical, cloze, description...) is counted per type and skipped.
+
+export interface QuestionBankImportResult {
+  questions: QuestionData[];
+  categories: string[]; // Leaf names of the category paths found, in order of appearance
+  unsupportedTypeCounts: Record<string, number>;
+  truncatedQuestionCount: number; // Questions with more than 3 correct or incorrect options
+}
+
+interface ImportedAnswer {
+  text: string;
+  fraction: number;
+}
+
+const MAX_OPTIONS_PER_KIND = 3; // QuestionData has three correct and three incorrect option columns
+const GIFT_ESSAY_MODEL_ANSWER_PREFIX = 'Respuesta modelo: '; // Written by generateGiftString for flashcards
+
+function createImportResult(): QuestionBankImportResult {
+  return { questions: [], categories: [], unsupportedTypeCounts: {}, truncatedQuestionCount: 0 };
+}
+
+function countUnsupported(result: QuestionBankImportResult, type: string): void {
+  result.unsupportedTypeCounts[type] = (result.unsupportedTypeCounts[type] || 0) + 1;
+}
+
+// "$course$/top/Asignatura/Categoría" -> "Categoría" ("//" is an escaped slash inside a name).
+function getCategoryLeafName(path: string): string | null {
+  const segments = path
+    .replace(/\/\//g, '\u0000')
+    .split('/')
+    .map(segment => segment.replace(/\u0000/g, '/').trim())
+    .filter(segment => segment !== '' && !/^\$\w+\$$/.test(segment) && segment !== 'top');
+  return segments.length > 0 ? segments[segments.length - 1] : null;
+}
+
+function addCategory(result: QuestionBankImportResult, path: string): void {
+  const name = getCategoryLeafName(path);
+  if (name && !result.categories.includes(name)) result.categories.push(name);
+}
+
+function htmlToPlainText(html: string): string {
+  const withBreaks = html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/p>\s*/gi, '\n');
+  const doc = new DOMParser().parseFromString(withBreaks, 'text/html');
+  return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Single-answer questions keep only the best-scored options as correct; multi-answer ones any positive fraction.
+function addChoiceQuestion(
+  result: QuestionBankImportResult,
+  idPrefix: string,
+  pregunta: string,
+  answers: ImportedAnswer[],
+  single: boolean,
+  explicacion: string
+): void {
+  const bestFraction = Math.max(...answers.map(answer => answer.fraction));
+  const isCorrect = (answer: ImportedAnswer) => answer.fraction > 0 && (!single || answer.fraction === bestFraction);
+  const correct = answers.filter(isCorrect).map(answer => answer.text);
+  const incorrect = answers.filter(answer => !isCorrect(answer)).map(answer => answer.text);
+  if (correct.length > MAX_OPTIONS_PER_KIND || incorrect.length > MAX_OPTIONS_PER_KIND) {
+    result.truncatedQuestionCount++;
+  }
+  result.questions.push({
+    id: `${idPrefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    Pregunta: pregunta,
+    'Opción correcta 1': correct[0] || '',
+    'Opción Correcta 2': correct[1] || undefined,
+    'Opción Correcta 3': correct[2] || undefined,
+    'Opción Incorrecta 1': incorrect[0] || undefined,
+    'Opción Incorrecta 2': incorrect[1] || undefined,
+    'Opción Incorrecta 3': incorrect[2] || undefined,
+    Explicación: explicacion || undefined,
+  });
+}
+
+function addTrueFalseQuestion(result: QuestionBankImportResult, idPrefix: string, pregunta: string, isTrue: boolean, explicacion: string): void {
+  addChoiceQuestion(result, idPrefix, pregunta, [
+    { text: 'Verdadero', fraction: isTrue ? 100 : 0 },
+    { text: 'Falso', fraction: isTrue ? 0 : 100 },
+  ], true, explicacion);
+}
+
+// Essays become flashcards: the model answer goes to 'Opción Correcta 2'.
+function addEssayQuestion(result: QuestionBankImportResult, idPrefix: string, pregunta: string, modelAnswer: string, explicacion: string): void {
+  result.questions.push({
+    id: `${idPrefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    Pregunta: pregunta,
+    'Opción correcta 1': '',
+    'Opción Correcta 2': modelAnswer || undefined,
+    Explicación: explicacion || undefined,
+  });
+}
+
+const getChildElement = (parent: Element, tagName: string): Element | undefined =>
+  Array.from(parent.children).find(child => child.nodeName === tagName);
+
+// Reads <tag format="..."><text>...</text></tag>, converting HTML to plain text.
+function readMoodleText(parent: Element, tagName: string): string {
+  const element = getChildElement(parent, tagName);
+  if (!element) return '';
+  const text = getChildElement(element, 'text')?.textContent || '';
+  return element.getAttribute('format') === 'html' ? htmlToPlainText(text) : text.trim();
+}
+
+function readMoodleAnswerText(answer: Element): string {
+  const text = getChildElement(answer, 'text')?.textContent || '';
+  return answer.getAttribute('format') === 'html' ? htmlToPlainText(text) : text.trim();
+}
+
+function readMoodleAnswers(question: Element): ImportedAnswer[] {
+  return Array.from(question.children)
+    .filter(child => child.nodeName === 'answer')
+    .map(answer => ({ text: readMoodleAnswerText(answer), fraction: parseFloat(answer.getAttribute('fraction') || '0') || 0 }))
+    .filter(answer => answer.text !== '');
+}
+
+export function parseMoodleXmlString(xmlText: string): QuestionBankImportResult {
+  const doc = new DOMParser().parseFromString(xmlText, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("El archivo XML no está bien formado.");
+  }
+  if (doc.documentElement.nodeName !== 'quiz') {
+    throw new Error("El archivo XML no tiene el formato de Moodle (falta el elemento <quiz>).");
+  }
+
+  const result = createImportResult();
+  Array.from(doc.documentElement.children)
+    .filter(child => child.nodeName === 'question')
+    .forEach(question => {
+      const type = question.getAttribute('type') || 'desconocido';
+      if (type === 'category') {
+        const path = getChildElement(getChildElement(question, 'category') || question, 'text')?.textContent || '';
+        addCategory(result, path);
+        return;
+      }
+
+      const pregunta = readMoodleText(question, 'questiontext');
+      const explicacion = readMoodleText(question, 'generalfeedback');
+      const answers = readMoodleAnswers(question);
+      switch (type) {
+        case 'multichoice': {
+          if (answers.length === 0) break;
+          const single = (getChildElement(question, 'single')?.textContent || 'true').trim() !== 'false';
+          addChoiceQuestion(result, 'moodle-import', pregunta, answers, single, explicacion);
+          return;
+        }
+        case 'truefalse': {
+          const trueAnswer = answers.find(answer => answer.text.toLowerCase() === 'true');
+          addTrueFalseQuestion(result, 'moodle-import', pregunta, !!trueAnswer && trueAnswer.fraction > 0, explicacion);
+          return;
+        }
+        case 'shortanswer': {
+          if (answers.length === 0) break;
+          const best = answers.reduce((a, b) => (b.fraction > a.fraction ? b : a));
+          addChoiceQuestion(result, 'moodle-import', pregunta, [best], true, explicacion);
+          return;
+        }
+        case 'essay': {
+          // Without grader info, the general feedback is the closest thing to a model answer.
+          const modelAnswer = readMoodleText(question, 'graderinfo');
+          addEssayQuestion(result, 'moodle-import', pregunta, modelAnswer || explicacion, modelAnswer ? explicacion : '');
+          return;
+        }
+      }
+      countUnsupported(result, type);
+    });
+  return result;
+}
+
+// Escaped GIFT characters are swapped for private-use placeholders while parsing, then restored.
+const GIFT_ESCAPES: Record<string, string> = { '~': '\uE000', '=': '\uE001', '#': '\uE002', '{': '\uE003', '}': '\uE004', ':': '\uE005', '\\': '\uE006' };
+
+const protectGiftEscapes = (text: string): string =>
+  text.replace(/\\([~=#{}:\\])/g, (_, char: string) => GIFT_ESCAPES[char]).replace(/\\n/g, '\n');
+
+const restoreGiftEscapes = (text: string): string =>
+  Object.entries(GIFT_ESCAPES).reduce((restored, [char, placeholder]) => restored.split(placeholder).join(char), text).trim();
+
+function parseGiftQuestion(result: QuestionBankImportResult, block: string): void {
+  const protectedBlock = protectGiftEscapes(block);
+  const open = protectedBlock.indexOf('{');
+  const close = protectedBlock.lastIndexOf('}');
+  if (open === -1 || close < open) {
+    countUnsupported(result, 'description');
+    return;
+  }
+
+  let head = protectedBlock.substring(0, open).replace(/^\s*::[\s\S]*?::/, '');
+  const formatMatch = head.match(/^\s*\[(html|moodle|plain|markdown)\]/);
+  head = head.replace(/^\s*\[(html|moodle|plain|markdown)\]/, '');
+  const toText = (text: string) => (formatMatch?.[1] === 'html' ? htmlToPlainText(restoreGiftEscapes(text)) : restoreGiftEscapes(text));
+
+  // "Texto {respuestas} más texto" is the missing-word layout: keep a blank where the answers were.
+  const tail = protectedBlock.substring(close + 1).trim();
+  const pregunta = toText(tail ? `${head.trim()} _____ ${tail}` : head);
+
+  let answerPart = protectedBlock.substring(open + 1, close);
+  let explicacion = '';
+  const feedbackIndex = answerPart.indexOf('####');
+  if (feedbackIndex !== -1) {
+    explicacion = toText(answerPart.substring(feedbackIndex + 4));
+    answerPart = answerPart.substring(0, feedbackIndex);
+  }
+  answerPart = answerPart.trim();
+
+  if (answerPart === '') {
+    const hasModelAnswer = explicacion.startsWith(GIFT_ESSAY_MODEL_ANSWER_PREFIX);
+    const [modelAnswer, ...rest] = hasModelAnswer ? explicacion.substring(GIFT_ESSAY_MODEL_ANSWER_PREFIX.length).split('\n\n') : [explicacion];
+    addEssayQuestion(result, 'gift-import', pregunta, modelAnswer.trim(), rest.join('\n\n').trim());
+    return;
+  }
+  if (answerPart.startsWith('#')) {
+    countUnsupported(result, 'numerical');
+    return;
+  }
+  const trueFalseMatch = answerPart.match(/^(TRUE|FALSE|T|F)\s*(#|$)/i);
+  if (trueFalseMatch) {
+    addTrueFalseQuestion(result, 'gift-import', pregunta, trueFalseMatch[1].toUpperCase().startsWith('T'), explicacion);
+    return;
+  }
+
+  const items = answerPart.split(/(?=[=~])/).map(item => item.trim()).filter(item => item !== '');
+  if (items.length === 0 || !/^[=~]/.test(items[0])) {
+    countUnsupported(result, 'desconocido');
+    return;
+  }
+  if (items.some(item => item.startsWith('=') && item.includes('->'))) {
+    countUnsupported(result, 'matching');
+    return;
+  }
+
+  const answers: ImportedAnswer[] = items.map(item => {
+    const weightMatch = item.substring(1).match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+    const text = item.substring(1).replace(/^\s*%-?\d+(?:\.\d+)?%/, '').split('#')[0];
+    const fraction = weightMatch ? parseFloat(weightMatch[1]) : (item.startsWith('=') ? 100 : 0);
+    return { text: toText(text), fraction };
+  }).filter(answer => answer.text !== '');
+  if (answers.length === 0) {
+    countUnsupported(result, 'desconocido');
+    return;
+  }
+
+  if (!items.some(item => item.startsWith('~'))) {
+    // Only "=" answers: short answer. The first accepted answer is kept.
+    addChoiceQuestion(result, 'gift-import', pregunta, [answers[0]], true, explicacion);
+    return;
+  }
+  // In GIFT a "=" marks single-answer multichoice; weighted "~%n%" answers alone mean multiple answers.
+  addChoiceQuestion(result, 'gift-import', pregunta, answers, items.some(item => item.startsWith('=')), explicacion);
+}
+
+export function parseGiftString(giftText: string): QuestionBankImportResult {
+  const result = createImportResult();
+  let blockLines: string[] = [];
+  const flushBlock = () => {
+    if (blockLines.length > 0) parseGiftQuestion(result, blockLines.join('\n'));
+    blockLines = [];
+  };
+
+  giftText.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('//')) return;
+    if (trimmed.startsWith('$CATEGORY:')) {
+      flushBlock();
+      addCategory(result, trimmed.substring('$CATEGORY:'.length));
+    } else if (trimmed === '') {
+      flushBlock();
+    } else {
+      blockLines.push(line);
+    }
+  });
+  flushBlock();
+  return result;
+}
+
+// Build export filename using the project (or collection) title: haiku_[titulo].ext
+export function buildExportFilename(title: string, ext: 'json' | 'csv' | 'xml' | 'txt' | 'apkg' | 'tsv' | 'html'): string {
+  const base = (title && title.trim() !== '') ? title : 'coleccion';
   // Normalize, remove diacritics, replace non-alphanumerics with underscores, collapse repeats
   const sanitized = base
     .normalize('NFD')
@@ -96,8 +722,8 @@ export function buildExportFilename(collectionTitle: string, ext: 'json' | 'csv'
   return `haiku_${sanitized || 'coleccion'}.${ext}`;
 }
 
-function downloadFile(content: string, filename: string, mimeType: string): void {
-  const blob = new Blob([content], { type: mimeType });
+function downloadFile(content: string | Blob, filename: string, mimeType: string): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
   const link = document.createElement('a');
   if (link.download !== undefined) {
     const url = URL.createObjectURL(blob);
@@ -118,3 +744,23 @@ export function downloadCsvFile(csvString: string, filename: string): void {
 export function downloadJsonFile(jsonString: string, filename: string): void {
     downloadFile(jsonString, filename, 'application/json;charset=utf-8;');
 }
+
+export function downloadMoodleXmlFile(xmlString: string, filename: string): void {
+    downloadFile(xmlString, filename, 'application/xml;charset=utf-8;');
+}
+
+export function downloadGiftFile(giftString: string, filename: string): void {
+    downloadFile(giftString, filename, 'text/plain;charset=utf-8;');
+}
+
+export function downloadAnkiPackageFile(apkgBlob: Blob, filename: string): void {
+    downloadFile(apkgBlob, filename, 'application/octet-stream');
+}
+
+export function downloadAnkiTsvFile(tsvString: string, filename: string): void {
+    downloadFile(tsvString, filename, 'text/tab-separated-values;charset=utf-8;');
+}
+
+export function downloadHtmlFile(htmlString: string, filename: string): void {
+    downloadFile(htmlString, filename, 'text/html;charset=utf-8;');
+}
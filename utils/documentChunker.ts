@@ -0,0 +1,146 @@
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { RequestSourceChunk } from '../types';
+import { estimateTokens } from './requestScheduler';
+
+// Splits a source document into chunks for "Generar desde documento": one generation request per
+// chunk, each sending only its slice instead of the whole document. PDFs are split by page; text
+// and Markdown by headings. Sections are then packed (or cut) to fit a token budget.
+
+export interface DocumentSection {
+  title: string;
+  text: string;
+  pages?: [number, number]; // PDF page range (1-based, inclusive)
+}
+
+export interface DocumentChunk extends DocumentSection {
+  estimatedTokens: number;
+}
+
+const countTokens = (text: string): number => estimateTokens([text], []);
+
+const isPdfFile = (file: File): boolean => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+const isTextFile = (file: File): boolean => file.type.startsWith('text/') || /\.(txt|md|markdown)$/i.test(file.name);
+
+// Whether extractDocumentSections supports the file (it can still fail, e.g. on a scanned PDF).
+export const canExtractDocumentText = (file: File): boolean => isPdfFile(file) || isTextFile(file);
+
+// Markdown headings, or short numbered/"Tema N"/"Capítulo N" lines without a final period.
+const HEADING_PATTERN = /^(?:#{1,6}\s+\S.*|(?:\d+(?:\.\d+)*\.?|(?:cap[ií]tulo|tema|unidad|secci[oó]n)\s+\w+[.:]?)\s+\S.{0,100})$/i;
+
+const isHeadingLine = (line: string): boolean => HEADING_PATTERN.test(line.trim()) && !/[.;,]$/.test(line.trim());
+
+// Sections before the first heading take `defaultTitle` (usually the file name).
+export const splitTextByHeadings = (text: string, defaultTitle: string): DocumentSection[] => {
+  const sections: DocumentSection[] = [];
+  let current: DocumentSection = { title: defaultTitle, text: '' };
+  for (const line of text.split(/\r?\n/)) {
+    if (isHeadingLine(line) && current.text.trim() !== '') {
+      sections.push(current);
+      current = { title: line.trim().replace(/^#+\s*/, ''), text: '' };
+    } else if (isHeadingLine(line)) {
+      current.title = line.trim().replace(/^#+\s*/, '');
+    }
+    current.text += `${line}\n`;
+  }
+  sections.push(current);
+  return sections.filter(section => section.text.trim() !== '');
+};
+
+const extractPdfPages = async (file: File): Promise<DocumentSection[]> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const sections: DocumentSection[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const content = await (await pdf.getPage(pageNumber)).getTextContent();
+      const text = content.items.map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')).join('').trim();
+      // Marker kept in the chunk text so the model (and later the user) can tell pages apart.
+      if (text) sections.push({ title: `Página ${pageNumber}`, text: `[Página ${pageNumber}]\n${text}\n`, pages: [pageNumber, pageNumber] });
+    }
+    if (sections.length === 0) {
+      throw new Error(`"${file.name}" no contiene texto extraíble (¿es un PDF escaneado?).`);
+    }
+    return sections;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+export const extractDocumentSections = async (file: File): Promise<DocumentSection[]> => {
+  if (isPdfFile(file)) return extractPdfPages(file);
+  if (isTextFile(file)) {
+    const sections = splitTextByHeadings(await file.text(), file.name);
+    if (sections.length === 0) throw new Error(`"${file.name}" está vacío.`);
+    return sections;
+  }
+  throw new Error(`"${file.name}" no es un PDF ni un archivo de texto/Markdown; solo esos formatos se pueden dividir en fragmentos.`);
+};
+
+// Cuts a section that alone exceeds the budget at paragraph boundaries, or mid-paragraph as a last resort.
+const splitOversizedSection = (section: DocumentSection, maxTokens: number): DocumentSection[] => {
+  if (countTokens(section.text) <= maxTokens) return [section];
+  const maxChars = maxTokens * 4;
+  const paragraphs = section.text.split(/\n\s*\n/).filter(paragraph => paragraph.trim() !== '').flatMap(paragraph => {
+    const pieces: string[] = [];
+    for (let start = 0; start < paragraph.length; start += maxChars) pieces.push(paragraph.substring(start, start + maxChars));
+    return pieces;
+  });
+  const parts: string[] = [];
+  let current = '';
+  for (const paragraph of paragraphs) {
+    if (current && countTokens(`${current}\n\n${paragraph}`) > maxTokens) {
+      parts.push(current);
+      current = paragraph;
+    } else {
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+  }
+  if (current) parts.push(current);
+  return parts.map((text, i) => ({ ...section, title: `${section.title} (parte ${i + 1}/${parts.length})`, text }));
+};
+
+const chunkTitle = (sections: DocumentSection[]): string => {
+  const first = sections[0];
+  const last = sections[sections.length - 1];
+  if (first.pages && last.pages) {
+    return first.pages[0] === last.pages[1] ? `Página ${first.pages[0]}` : `Páginas ${first.pages[0]}–${last.pages[1]}`;
+  }
+  return sections.length === 1 ? first.title : `${first.title} … ${last.title}`;
+};
+
+// Packs consecutive sections into chunks of at most `maxTokens` (estimated).
+export const chunkDocumentSections = (sections: DocumentSection[], maxTokens: number): DocumentChunk[] => {
+  const groups: DocumentSection[][] = [];
+  let currentGroup: DocumentSection[] = [];
+  let currentTokens = 0;
+  for (const piece of sections.flatMap(section => splitOversizedSection(section, maxTokens))) {
+    const tokens = countTokens(piece.text);
+    if (currentGroup.length > 0 && currentTokens + tokens > maxTokens) {
+      groups.push(currentGroup);
+      currentGroup = [];
+      currentTokens = 0;
+    }
+    currentGroup.push(piece);
+    currentTokens += tokens;
+  }
+  if (currentGroup.length > 0) groups.push(currentGroup);
+
+  return groups.map(group => {
+    const text = group.map(section => section.text.trim()).join('\n\n');
+    const first = group[0].pages;
+    const last = group[group.length - 1].pages;
+    return {
+      title: chunkTitle(group),
+      text,
+      pages: first && last ? [first[0], last[1]] : undefined,
+      estimatedTokens: countTokens(text),
+    };
+  });
+};
+
+// Context text sent instead of the general context for a chunk request.
+export const formatChunkContext = (chunk: RequestSourceChunk): string =>
+  `Fragmento ${chunk.chunkIndex} de ${chunk.chunkCount} del documento "${chunk.document}" (${chunk.section}). Basa las preguntas ÚNICAMENTE en este fragmento; el resto del documento se trata en otras solicitudes.
+
+${chunk.text}`;
@@ -0,0 +1,143 @@
+import { QuestionData } from '../types';
+import { DUPLICATE_SIMILARITY_THRESHOLD } from '../constants';
+import { normalizeTags } from './questionMetadata';
+import { normalizeText } from './questionType';
+
+// Local duplicate detection on the question text. Texts are normalized (case, accents, punctuation,
+// whitespace) and compared as sets of character 4-grams with Jaccard similarity, which tolerates
+// small rewordings ("¿Qué es...?" / "Qué es...") but not a different subject.
+
+const SHINGLE_SIZE = 4;
+
+export interface DuplicateMatch {
+  question: QuestionData; // The question already in the bank
+  similarity: number; // 0–1; 1 for an exact duplicate after normalizing
+}
+
+export interface DuplicateGroup {
+  questionIds: string[]; // In bank order
+  exact: boolean; // Every question has the same normalized text
+  similarity: number; // Lowest similarity between linked questions of the group
+}
+
+interface ShingledQuestion {
+  question: QuestionData;
+  normalized: string;
+  shingles: Set<string>;
+}
+
+const toShingles = (normalized: string): Set<string> => {
+  const shingles = new Set<string>();
+  if (normalized.length <= SHINGLE_SIZE) {
+    if (normalized) shingles.add(normalized);
+    return shingles;
+  }
+  for (let i = 0; i <= normalized.length - SHINGLE_SIZE; i++) shingles.add(normalized.substring(i, i + SHINGLE_SIZE));
+  return shingles;
+};
+
+const shingle = (question: QuestionData): ShingledQuestion => {
+  const normalized = normalizeText(question.Pregunta || '');
+  return { question, normalized, shingles: toShingles(normalized) };
+};
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  smaller.forEach(item => { if (larger.has(item)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+// Jaccard can't reach the threshold when one set is much smaller than the other; skips most pairs.
+const canReachThreshold = (a: ShingledQuestion, b: ShingledQuestion, threshold: number): boolean =>
+  Math.min(a.shingles.size, b.shingles.size) >= threshold * Math.max(a.shingles.size, b.shingles.size);
+
+const compare = (a: ShingledQuestion, b: ShingledQuestion, threshold: number): number | null => {
+  if (!a.normalized || !b.normalized) return null; // Empty questions (manual drafts) are never duplicates
+  if (a.normalized === b.normalized) return 1;
+  if (!canReachThreshold(a, b, threshold)) return null;
+  const similarity = jaccard(a.shingles, b.shingles);
+  return similarity >= threshold ? similarity : null;
+};
+
+// Groups of exact or near-duplicate questions across the bank. Near-duplicates are linked
+// transitively, so a group can hold questions that are only similar through a third one.
+export const findDuplicateGroups = (questions: QuestionData[], threshold = DUPLICATE_SIMILARITY_THRESHOLD): DuplicateGroup[] => {
+  const entries = questions.map(shingle);
+  const parent = entries.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const lowestSimilarity = new Map<number, number>();
+
+  const bySize = entries.map((_, i) => i).sort((a, b) => entries[a].shingles.size - entries[b].shingles.size);
+  for (let x = 0; x < bySize.length; x++) {
+    const a = entries[bySize[x]];
+    for (let y = x + 1; y < bySize.length; y++) {
+      const b = entries[bySize[y]];
+      if (!canReachThreshold(a, b, threshold)) break; // Later entries are only larger
+      const similarity = compare(a, b, threshold);
+      if (similarity === null) continue;
+      const rootA = find(bySize[x]);
+      const rootB = find(bySize[y]);
+      const lowest = Math.min(similarity, lowestSimilarity.get(rootA) ?? 1, lowestSimilarity.get(rootB) ?? 1);
+      parent[rootB] = rootA;
+      lowestSimilarity.set(rootA, lowest);
+    }
+  }
+
+  const members = new Map<number, number[]>();
+  entries.forEach((_, i) => {
+    const root = find(i);
+    members.set(root, [...(members.get(root) || []), i]);
+  });
+  // Members are collected in bank order, so sorting by the first index keeps the groups in bank order too.
+  return Array.from(members.entries())
+    .filter(([, indexes]) => indexes.length > 1)
+    .sort(([, a], [, b]) => a[0] - b[0])
+    .map(([root, indexes]) => ({
+      questionIds: indexes.map(i => entries[i].question.id),
+      exact: indexes.every(i => entries[i].normalized === entries[indexes[0]].normalized),
+      similarity: Math.round((lowestSimilarity.get(root) ?? 1) * 100) / 100,
+    }));
+};
+
+// Incremental index used while the queue runs: each new question is checked against the bank and
+// against the questions added before it.
+export const createDuplicateIndex = (questions: QuestionData[], threshold = DUPLICATE_SIMILARITY_THRESHOLD) => {
+  const entries = questions.map(shingle);
+  return {
+    findMatch(question: QuestionData): DuplicateMatch | null {
+      const candidate = shingle(question);
+      let best: DuplicateMatch | null = null;
+      for (const entry of entries) {
+        if (entry.question.id === question.id) continue;
+        const similarity = compare(candidate, entry, threshold);
+        if (similarity !== null && (!best || similarity > best.similarity)) best = { question: entry.question, similarity };
+        if (best?.similarity === 1) break;
+      }
+      return best ? { ...best, similarity: Math.round(best.similarity * 100) / 100 } : null;
+    },
+    add(question: QuestionData) {
+      entries.push(shingle(question));
+    },
+  };
+};
+
+// The question kept when merging a group, with its empty explanation (and missing citation,
+// difficulty and Bloom level) filled from the others and their tags combined. Options are never
+// mixed: combining them could change the question's type.
+export const mergeDuplicateQuestions = (kept: QuestionData, others: QuestionData[]): QuestionData => {
+  const explanation = (kept.Explicación || '').trim() ? kept.Explicación : others.find(q => (q.Explicación || '').trim())?.Explicación;
+  const citation = kept.citation ?? others.find(q => q.citation)?.citation;
+  const tags = normalizeTags([kept, ...others].flatMap(q => q.tags || []));
+  const difficulty = kept.difficulty ?? others.find(q => q.difficulty)?.difficulty;
+  const bloomLevel = kept.bloomLevel ?? others.find(q => q.bloomLevel)?.bloomLevel;
+  return {
+    ...kept,
+    Explicación: explanation,
+    ...(citation ? { citation } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(difficulty ? { difficulty } : {}),
+    ...(bloomLevel ? { bloomLevel } : {}),
+  };
+};
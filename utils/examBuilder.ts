@@ -0,0 +1,205 @@
+import { QuestionData, QuestionDisplayType } from '../types';
+import { LOCAL_STORAGE_EXAM_SETTINGS } from '../constants';
+import { QuizOption, buildQuizItems } from './quiz';
+
+// Printable exams. Every version holds the same questions in its own order, with options shuffled
+// per version; each version gets an answer sheet with bubbles and a separate answer key. The HTML is
+// self-contained so the browser can print it or save it as PDF.
+
+export const EXAM_QUESTION_TYPES: QuestionDisplayType[] = [
+  QuestionDisplayType.SingleCorrect,
+  QuestionDisplayType.MultipleCorrect,
+  QuestionDisplayType.TrueFalse,
+  QuestionDisplayType.OpenAnswer,
+  QuestionDisplayType.Flashcard,
+];
+
+export const MAX_EXAM_VERSIONS = 6;
+
+export interface ExamSettings {
+  versionCount: number;
+  includedTypes: QuestionDisplayType[];
+  pointsByType: Record<string, number>; // Keyed by QuestionDisplayType
+  instructions: string;
+}
+
+export interface ExamHeader {
+  title: string;
+  subject: string;
+}
+
+export interface ExamItem {
+  question: QuestionData;
+  type: QuestionDisplayType;
+  options: QuizOption[]; // Empty for OpenAnswer and Flashcard, which are answered in writing
+  points: number;
+}
+
+export interface ExamVersion {
+  label: string; // "A", "B"...
+  items: ExamItem[];
+}
+
+export const DEFAULT_EXAM_SETTINGS: ExamSettings = {
+  versionCount: 2,
+  includedTypes: [...EXAM_QUESTION_TYPES],
+  pointsByType: Object.fromEntries(EXAM_QUESTION_TYPES.map(type => [type, type === QuestionDisplayType.Flashcard ? 2 : 1])),
+  instructions: 'Marca con claridad la casilla de la respuesta en la hoja de respuestas. Las preguntas abiertas se responden en el espacio indicado.',
+};
+
+export const loadExamSettings = (): ExamSettings => {
+  try {
+    const stored = localStorage.getItem(LOCAL_STORAGE_EXAM_SETTINGS);
+    const parsed = stored ? JSON.parse(stored) : {};
+    const settings = { ...DEFAULT_EXAM_SETTINGS, ...(typeof parsed === 'object' && parsed !== null ? parsed : {}) };
+    return {
+      versionCount: Number.isFinite(settings.versionCount) ? Math.min(MAX_EXAM_VERSIONS, Math.max(1, Math.floor(settings.versionCount))) : DEFAULT_EXAM_SETTINGS.versionCount,
+      includedTypes: Array.isArray(settings.includedTypes) ? EXAM_QUESTION_TYPES.filter(type => settings.includedTypes.includes(type)) : [...EXAM_QUESTION_TYPES],
+      pointsByType: Object.fromEntries(EXAM_QUESTION_TYPES.map(type => {
+        const points = settings.pointsByType?.[type];
+        return [type, Number.isFinite(points) && points >= 0 ? points : DEFAULT_EXAM_SETTINGS.pointsByType[type]];
+      })),
+      instructions: typeof settings.instructions === 'string' ? settings.instructions : DEFAULT_EXAM_SETTINGS.instructions,
+    };
+  } catch {
+    return { ...DEFAULT_EXAM_SETTINGS };
+  }
+};
+
+export const saveExamSettings = (settings: ExamSettings): void => {
+  localStorage.setItem(LOCAL_STORAGE_EXAM_SETTINGS, JSON.stringify(settings));
+};
+
+const TRUE_OPTION_PATTERN = /^(verdadero|cierto|true|v)$/i;
+
+export const buildExamVersions = (questions: QuestionData[], settings: ExamSettings): ExamVersion[] =>
+  Array.from({ length: settings.versionCount }, (_, index) => ({
+    label: String.fromCharCode(65 + index),
+    items: buildQuizItems(questions, true)
+      .filter(item => settings.includedTypes.includes(item.type))
+      .map(item => ({
+        ...item,
+        // "Verdadero" always comes first on paper; shuffling it would only confuse students.
+        options: item.type === QuestionDisplayType.TrueFalse
+          ? [...item.options].sort((a, b) => Number(TRUE_OPTION_PATTERN.test(b.text)) - Number(TRUE_OPTION_PATTERN.test(a.text)))
+          : item.options,
+        points: settings.pointsByType[item.type] ?? 0,
+      })),
+  }));
+
+const escapeHtml = (value: string): string =>
+  value.trim().replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/\r?\n/g, '<br>');
+
+const optionLetter = (index: number): string => String.fromCharCode(65 + index);
+
+const formatPoints = (points: number): string =>
+  `${points.toLocaleString('es-ES', { maximumFractionDigits: 2 })} ${points === 1 ? 'punto' : 'puntos'}`;
+
+const getTotalPoints = (version: ExamVersion): number => version.items.reduce((total, item) => total + item.points, 0);
+
+const EXAM_CSS = `
+  body { font-family: Georgia, 'Times New Roman', serif; font-size: 11pt; color: #000; margin: 0; }
+  .page { padding: 1.5cm; }
+  .page + .page { page-break-before: always; }
+  header { border-bottom: 2px solid #000; margin-bottom: 1em; padding-bottom: 0.5em; }
+  header h1 { font-size: 16pt; margin: 0; }
+  header .meta { display: flex; justify-content: space-between; margin-top: 0.3em; }
+  .student { display: flex; gap: 2em; margin: 0.8em 0; }
+  .student span { flex: 1; border-bottom: 1px solid #000; padding-bottom: 2px; }
+  .instructions { font-style: italic; margin-bottom: 1em; }
+  ol.questions { padding-left: 1.5em; }
+  ol.questions > li { margin-bottom: 1em; page-break-inside: avoid; }
+  .points { color: #555; font-size: 9pt; }
+  ol.options { list-style: none; padding-left: 0.5em; margin: 0.3em 0 0; }
+  ol.options li { margin: 0.15em 0; }
+  .letter { font-weight: bold; margin-right: 0.4em; }
+  .lines { margin-top: 0.4em; }
+  .lines div { border-bottom: 1px dotted #777; height: 1.6em; }
+  table { border-collapse: collapse; width: 100%; }
+  td, th { border: 1px solid #999; padding: 4px 6px; vertical-align: top; text-align: left; }
+  .bubbles td { border: none; padding: 3px 6px; }
+  .bubble { display: inline-block; width: 1.4em; height: 1.4em; line-height: 1.4em; border: 1px solid #000; border-radius: 50%; text-align: center; font-size: 8pt; margin-right: 0.4em; }
+  .explanation { color: #333; font-size: 9.5pt; }
+  @page { margin: 0; }
+`;
+
+const wrapDocument = (title: string, body: string): string =>
+  `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${EXAM_CSS}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+const renderHeader = (header: ExamHeader, version: ExamVersion, subtitle: string): string => `
+  <header>
+    <h1>${escapeHtml(header.title || 'Examen')}</h1>
+    <div class="meta"><span>${escapeHtml(header.subject)}</span><span>${subtitle} · Versión ${version.label}</span></div>
+  </header>`;
+
+const renderQuestion = (item: ExamItem): string => {
+  const body = item.options.length > 0
+    ? `<ol class="options">${item.options.map((option, index) => `<li><span class="letter">${optionLetter(index)})</span>${escapeHtml(option.text)}</li>`).join('')}</ol>`
+    : `<div class="lines">${'<div></div>'.repeat(item.type === QuestionDisplayType.Flashcard ? 6 : 2)}</div>`;
+  const hint = item.type === QuestionDisplayType.MultipleCorrect ? ' <span class="points">(puede haber varias respuestas correctas)</span>' : '';
+  return `<li>${escapeHtml(item.question.Pregunta)}${hint} <span class="points">[${formatPoints(item.points)}]</span>${body}</li>`;
+};
+
+const renderAnswerSheet = (header: ExamHeader, version: ExamVersion): string => {
+  const rows = version.items
+    .map((item, index) => ({ item, number: index + 1 }))
+    .filter(({ item }) => item.options.length > 0)
+    .map(({ item, number }) => `<tr><td><strong>${number}.</strong></td><td>${item.options.map((_, i) => `<span class="bubble">${optionLetter(i)}</span>`).join('')}</td></tr>`);
+  if (rows.length === 0) return '';
+  return `<section class="page">
+  ${renderHeader(header, version, 'Hoja de respuestas')}
+  <div class="student"><span>Nombre:</span><span>Fecha:</span></div>
+  <table class="bubbles">${rows.join('')}</table>
+</section>`;
+};
+
+export const generateExamHtml = (versions: ExamVersion[], header: ExamHeader, instructions: string): string =>
+  wrapDocument(header.title || 'Examen', versions.map(version => `<section class="page">
+  ${renderHeader(header, version, `${version.items.length} preguntas · ${formatPoints(getTotalPoints(version))}`)}
+  <div class="student"><span>Nombre:</span><span>Fecha:</span></div>
+  ${instructions.trim() ? `<p class="instructions">${escapeHtml(instructions)}</p>` : ''}
+  <ol class="questions">${version.items.map(renderQuestion).join('')}</ol>
+</section>
+${renderAnswerSheet(header, version)}`).join('\n'));
+
+const renderKeyAnswer = (item: ExamItem): string => {
+  if (item.options.length > 0) {
+    return item.options
+      .map((option, index) => (option.isCorrect ? `<strong>${optionLetter(index)}</strong>) ${escapeHtml(option.text)}` : null))
+      .filter(Boolean)
+      .join('<br>');
+  }
+  const answer = item.type === QuestionDisplayType.Flashcard ? item.question['Opción Correcta 2'] : item.question['Opción correcta 1'];
+  return escapeHtml(answer || '');
+};
+
+export const generateAnswerKeyHtml = (versions: ExamVersion[], header: ExamHeader): string =>
+  wrapDocument(`${header.title || 'Examen'} - Claves`, versions.map(version => `<section class="page">
+  ${renderHeader(header, version, `Clave de respuestas · ${formatPoints(getTotalPoints(version))}`)}
+  <table>
+    <tr><th>Nº</th><th>Respuesta</th><th>Puntos</th><th>Explicación</th></tr>
+    ${version.items.map((item, index) => `<tr><td>${index + 1}</td><td>${renderKeyAnswer(item)}</td><td>${item.points.toLocaleString('es-ES')}</td><td class="explanation">${escapeHtml(item.question.Explicación || '')}</td></tr>`).join('\n    ')}
+  </table>
+</section>`).join('\n'));
+
+// Opens the document in a new tab and starts printing. Returns false when the browser blocked the tab.
+export const openPrintableDocument = (html: string): boolean => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+};
@@ -0,0 +1,206 @@
+import { QuestionData, QuestionTextField, QuestionVerification } from '../types';
+import { MAX_HISTORY_ENTRIES } from '../constants';
+import { getChangedFields } from './questionStaging';
+
+// A reversible mutation of the question list. Commands are applied through functional state
+// updates, so `apply` receives the latest list and records whatever `revert` needs to undo it.
+export interface QuestionCommand {
+  id: string;
+  label: string;
+  timestamp: number;
+  apply: (questions: QuestionData[]) => QuestionData[];
+  revert: (questions: QuestionData[]) => QuestionData[];
+}
+
+export interface QuestionHistory {
+  undoStack: QuestionCommand[]; // Applied commands, oldest first
+  redoStack: QuestionCommand[]; // Undone commands, most recently undone last
+}
+
+export const EMPTY_QUESTION_HISTORY: QuestionHistory = { undoStack: [], redoStack: [] };
+
+const makeCommand = (
+  label: string,
+  apply: QuestionCommand['apply'],
+  revert: QuestionCommand['revert']
+): QuestionCommand => ({
+  id: `cmd-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+  label,
+  timestamp: Date.now(),
+  apply,
+  revert,
+});
+
+// Review flags and fact-check verdicts are written outside the history, so a command that puts
+// back a stored copy of a question keeps the ones the current version has. The verdict is only
+// kept when the content is the same, since it was given for that content.
+const keepAnnotations = (stored: QuestionData, current: QuestionData): QuestionData => {
+  const { reviewFlag, verification, ...rest } = stored;
+  const keptVerification = getChangedFields(current, stored).length === 0 ? current.verification : verification;
+  return {
+    ...rest,
+    ...(current.reviewFlag ? { reviewFlag: current.reviewFlag } : {}),
+    ...(keptVerification ? { verification: keptVerification } : {}),
+  };
+};
+
+// A fact-check verdict only holds for the content it checked: the edit drops it and undoing the
+// edit brings it back.
+export const createEditFieldCommand = (
+  label: string,
+  questionId: string,
+  field: QuestionTextField,
+  previousValue: string | undefined,
+  newValue: string
+): QuestionCommand => {
+  let droppedVerification: QuestionVerification | undefined;
+  return makeCommand(
+    label,
+    questions => questions.map(q => {
+      if (q.id !== questionId) return q;
+      const { verification, ...rest } = q;
+      droppedVerification = verification;
+      return { ...rest, [field]: newValue };
+    }),
+    questions => questions.map(q => q.id === questionId
+      ? { ...q, [field]: previousValue, ...(droppedVerification ? { verification: droppedVerification } : {}) }
+      : q)
+  );
+};
+
+export const createInsertQuestionsCommand = (
+  label: string,
+  newQuestions: QuestionData[],
+  position: 'start' | 'end'
+): QuestionCommand => {
+  const insertedIds = new Set(newQuestions.map(q => q.id));
+  return makeCommand(
+    label,
+    questions => position === 'start' ? [...newQuestions, ...questions] : [...questions, ...newQuestions],
+    questions => questions.filter(q => !insertedIds.has(q.id))
+  );
+};
+
+export const createRemoveQuestionsCommand = (label: string, questionIds: Iterable<string>): QuestionCommand => {
+  const idsToRemove = new Set(questionIds);
+  let removed: { question: QuestionData; index: number }[] = [];
+  return makeCommand(
+    label,
+    questions => {
+      removed = [];
+      questions.forEach((question, index) => {
+        if (idsToRemove.has(question.id)) removed.push({ question, index });
+      });
+      return questions.filter(q => !idsToRemove.has(q.id));
+    },
+    questions => {
+      const restored = [...questions];
+      // Indexes are ascending, so re-inserting in order rebuilds the original positions.
+      removed.forEach(({ question, index }) => restored.splice(Math.min(index, restored.length), 0, question));
+      return restored;
+    }
+  );
+};
+
+// Replaces one question with its merged version and removes the duplicates folded into it.
+export const createMergeDuplicatesCommand = (
+  label: string,
+  mergedQuestion: QuestionData,
+  removedIds: Iterable<string>
+): QuestionCommand => {
+  const removal = createRemoveQuestionsCommand(label, removedIds);
+  let original: QuestionData | undefined;
+  return makeCommand(
+    label,
+    questions => removal.apply(questions.map(q => {
+      if (q.id !== mergedQuestion.id) return q;
+      original = q;
+      return keepAnnotations(mergedQuestion, q);
+    })),
+    questions => removal.revert(questions).map(q => (q.id === mergedQuestion.id && original ? keepAnnotations(original, q) : q))
+  );
+};
+
+export interface MergeQuestionsCallbacks {
+  onReplaced?: (original: QuestionData, replacement: QuestionData) => void;
+  onAdded?: (question: QuestionData) => void;
+  onDuplicateId?: (question: QuestionData) => void;
+}
+
+// Replaces questions whose ID matches an incoming one (AI rewrites) and appends the rest. An ID
+// that comes more than once keeps its last copy, whether it replaces a question or is new.
+export const createMergeQuestionsCommand = (
+  label: string,
+  incomingQuestions: QuestionData[],
+  callbacks: MergeQuestionsCallbacks = {}
+): QuestionCommand => {
+  let replacedOriginals = new Map<string, QuestionData>();
+  let addedIds = new Set<string>();
+  return makeCommand(
+    label,
+    questions => {
+      replacedOriginals = new Map();
+      addedIds = new Set();
+      const incomingById = new Map(incomingQuestions.map(q => [q.id, q]));
+      const merged = questions.map(existing => {
+        const replacement = incomingById.get(existing.id);
+        if (!replacement) return existing;
+        replacedOriginals.set(existing.id, existing);
+        callbacks.onReplaced?.(existing, replacement);
+        return keepAnnotations(replacement, existing);
+      });
+      incomingQuestions.forEach(incoming => {
+        if (replacedOriginals.has(incoming.id)) return;
+        if (addedIds.has(incoming.id)) {
+          callbacks.onDuplicateId?.(incoming);
+          return;
+        }
+        const latest = incomingById.get(incoming.id) ?? incoming;
+        merged.push(latest);
+        addedIds.add(latest.id);
+        callbacks.onAdded?.(latest);
+      });
+      return merged;
+    },
+    questions => questions
+      .filter(q => !addedIds.has(q.id))
+      .map(q => {
+        const original = replacedOriginals.get(q.id);
+        return original ? keepAnnotations(original, q) : q;
+      })
+  );
+};
+
+export const pushCommand = (history: QuestionHistory, command: QuestionCommand): QuestionHistory => ({
+  undoStack: [...history.undoStack, command].slice(-MAX_HISTORY_ENTRIES),
+  redoStack: [],
+});
+
+// Full timeline (applied commands followed by undone ones in redo order).
+export const getHistoryTimeline = (history: QuestionHistory): QuestionCommand[] =>
+  [...history.undoStack, ...[...history.redoStack].reverse()];
+
+// Moves the history so that exactly `appliedCount` commands of the timeline are applied.
+// Returns the new history and the transformation to run on the current question list.
+export const moveHistoryTo = (
+  history: QuestionHistory,
+  appliedCount: number
+): { history: QuestionHistory; transform: (questions: QuestionData[]) => QuestionData[] } => {
+  const timeline = getHistoryTimeline(history);
+  const target = Math.max(0, Math.min(appliedCount, timeline.length));
+  const current = history.undoStack.length;
+
+  const toRevert = target < current ? timeline.slice(target, current).reverse() : [];
+  const toApply = target > current ? timeline.slice(current, target) : [];
+
+  return {
+    history: {
+      undoStack: timeline.slice(0, target),
+      redoStack: timeline.slice(target).reverse(),
+    },
+    transform: questions => {
+      const reverted = toRevert.reduce((qs, command) => command.revert(qs), questions);
+      return toApply.reduce((qs, command) => command.apply(qs), reverted);
+    },
+  };
+};
@@ -0,0 +1,194 @@
+import { QuestionData, QuestionDisplayType } from '../types';
+import { LOCAL_STORAGE_LINT_SETTINGS } from '../constants';
+import { getQuestionDisplayType, getCorrectOptions, getIncorrectOptions, isFieldEmpty, normalizeText } from './questionType';
+
+// Quality rules run over each question on top of the type check. Findings are shown inline in the
+// table; rules can be switched off, and findings of rules set to "error" block saving the same way
+// questions of unknown type do. Empty and unknown-type questions are not linted.
+
+export type LintSeverity = 'warning' | 'error';
+
+export type LintRuleId =
+  | 'correct-option-longer'
+  | 'duplicate-options'
+  | 'open-answer-too-long'
+  | 'missing-explanation'
+  | 'all-or-none-option'
+  | 'negated-stem'
+  | 'answer-in-stem';
+
+export interface LintRuleSettings {
+  enabled: boolean;
+  severity: LintSeverity;
+}
+
+export type QuestionLintSettings = Record<LintRuleId, LintRuleSettings>;
+
+export interface QuestionLintIssue {
+  ruleId: LintRuleId;
+  severity: LintSeverity;
+  message: string;
+}
+
+interface LintRule {
+  id: LintRuleId;
+  label: string;
+  description: string;
+  defaultSeverity: LintSeverity;
+  check: (question: QuestionData, type: QuestionDisplayType) => string | null; // Message, or null when the question passes
+}
+
+const CHOICE_TYPES = [QuestionDisplayType.SingleCorrect, QuestionDisplayType.MultipleCorrect];
+const MAX_OPEN_ANSWER_WORDS = 3;
+const MIN_LEAKED_ANSWER_LENGTH = 4; // Shorter answers ("Sí", "ATP") match stems by chance too often
+
+const ALL_OR_NONE_PATTERN = /^(todas|todos|ninguna|ninguno)( .*)? (anteriores|correctas?|correctos?)$|^(todas|todos|ninguna|ninguno)$/;
+const NEGATION_PATTERN = /\b(no|nunca|jamas|excepto|salvo|tampoco)\b/;
+
+export const QUESTION_LINT_RULES: LintRule[] = [
+  {
+    id: 'correct-option-longer',
+    label: 'Opción correcta más larga',
+    description: 'La opción correcta es bastante más larga que las incorrectas y se puede adivinar por descarte.',
+    defaultSeverity: 'warning',
+    check: (question, type) => {
+      if (!CHOICE_TYPES.includes(type)) return null;
+      const longestCorrect = Math.max(...getCorrectOptions(question).map(option => option.length));
+      const longestIncorrect = Math.max(...getIncorrectOptions(question).map(option => option.length));
+      return longestCorrect >= longestIncorrect * 1.5 && longestCorrect - longestIncorrect >= 10
+        ? `La opción correcta (${longestCorrect} caracteres) es mucho más larga que la incorrecta más larga (${longestIncorrect}).`
+        : null;
+    },
+  },
+  {
+    id: 'duplicate-options',
+    label: 'Opciones repetidas',
+    description: 'Dos opciones de la misma pregunta dicen lo mismo.',
+    defaultSeverity: 'error',
+    check: question => {
+      const options = [...getCorrectOptions(question), ...getIncorrectOptions(question)];
+      const seen = new Set<string>();
+      for (const option of options) {
+        const key = normalizeText(option);
+        if (seen.has(key)) return `La opción "${option}" está repetida.`;
+        seen.add(key);
+      }
+      return null;
+    },
+  },
+  {
+    id: 'open-answer-too-long',
+    label: 'Respuesta abierta larga',
+    description: `La respuesta de una pregunta abierta tiene más de ${MAX_OPEN_ANSWER_WORDS} palabras.`,
+    defaultSeverity: 'warning',
+    check: (question, type) => {
+      if (type !== QuestionDisplayType.OpenAnswer) return null;
+      const wordCount = (question['Opción correcta 1'] || '').trim().split(/\s+/).length;
+      return wordCount > MAX_OPEN_ANSWER_WORDS ? `La respuesta abierta tiene ${wordCount} palabras (máximo ${MAX_OPEN_ANSWER_WORDS}).` : null;
+    },
+  },
+  {
+    id: 'missing-explanation',
+    label: 'Sin explicación',
+    description: "El campo 'Explicación' está vacío.",
+    defaultSeverity: 'warning',
+    check: question => (isFieldEmpty(question.Explicación) ? "Falta la 'Explicación'." : null),
+  },
+  {
+    id: 'all-or-none-option',
+    label: '"Todas/ninguna de las anteriores"',
+    description: 'Una opción es "todas las anteriores", "ninguna de las anteriores" o similar.',
+    defaultSeverity: 'warning',
+    check: (question, type) => {
+      if (!CHOICE_TYPES.includes(type)) return null;
+      const option = [...getCorrectOptions(question), ...getIncorrectOptions(question)].find(o => ALL_OR_NONE_PATTERN.test(normalizeText(o)));
+      return option ? `La opción "${option}" depende de las demás opciones.` : null;
+    },
+  },
+  {
+    id: 'negated-stem',
+    label: 'Enunciado en negativo',
+    description: 'El enunciado contiene una negación ("no", "excepto", "salvo"...), que suele confundir.',
+    defaultSeverity: 'warning',
+    check: (question, type) => {
+      if (type === QuestionDisplayType.TrueFalse) return null; // Negated statements are legitimate V/F items
+      const match = normalizeText(question.Pregunta).match(NEGATION_PATTERN);
+      return match ? `El enunciado contiene la negación "${match[1]}".` : null;
+    },
+  },
+  {
+    id: 'answer-in-stem',
+    label: 'Respuesta en el enunciado',
+    description: 'El texto de una opción correcta aparece en el enunciado.',
+    defaultSeverity: 'warning',
+    check: (question, type) => {
+      if (type === QuestionDisplayType.TrueFalse || type === QuestionDisplayType.Flashcard) return null;
+      const stem = ` ${normalizeText(question.Pregunta)} `;
+      const leaked = getCorrectOptions(question).find(option => {
+        const normalized = normalizeText(option);
+        return normalized.length >= MIN_LEAKED_ANSWER_LENGTH && stem.includes(` ${normalized} `);
+      });
+      return leaked ? `La respuesta "${leaked}" aparece en el enunciado.` : null;
+    },
+  },
+];
+
+export const DEFAULT_LINT_SETTINGS: QuestionLintSettings = Object.fromEntries(
+  QUESTION_LINT_RULES.map(rule => [rule.id, { enabled: true, severity: rule.defaultSeverity }])
+) as QuestionLintSettings;
+
+// Unknown or malformed stored entries fall back to the rule's defaults.
+export const loadLintSettings = (): QuestionLintSettings => {
+  try {
+    const stored = localStorage.getItem(LOCAL_STORAGE_LINT_SETTINGS);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return Object.fromEntries(QUESTION_LINT_RULES.map(rule => {
+      const entry = typeof parsed === 'object' && parsed !== null ? parsed[rule.id] : undefined;
+      return [rule.id, {
+        enabled: typeof entry?.enabled === 'boolean' ? entry.enabled : true,
+        severity: entry?.severity === 'error' || entry?.severity === 'warning' ? entry.severity : rule.defaultSeverity,
+      }];
+    })) as QuestionLintSettings;
+  } catch {
+    return { ...DEFAULT_LINT_SETTINGS };
+  }
+};
+
+export const saveLintSettings = (settings: QuestionLintSettings): void => {
+  localStorage.setItem(LOCAL_STORAGE_LINT_SETTINGS, JSON.stringify(settings));
+};
+
+export const lintQuestion = (question: QuestionData, settings: QuestionLintSettings): QuestionLintIssue[] => {
+  const type = getQuestionDisplayType(question);
+  if (type === QuestionDisplayType.Empty || type === QuestionDisplayType.Unknown) return [];
+  const issues: QuestionLintIssue[] = [];
+  for (const rule of QUESTION_LINT_RULES) {
+    const { enabled, severity } = settings[rule.id];
+    if (!enabled) continue;
+    const message = rule.check(question, type);
+    if (message) issues.push({ ruleId: rule.id, severity, message });
+  }
+  return issues;
+};
+
+// Results of the last run per question object, so unchanged questions keep the same issue arrays
+// (and memoized table rows don't re-render) when another question is edited.
+const lintCache = new WeakMap<QuestionData, { settings: QuestionLintSettings; issues: QuestionLintIssue[] }>();
+
+const lintQuestionCached = (question: QuestionData, settings: QuestionLintSettings): QuestionLintIssue[] => {
+  const cached = lintCache.get(question);
+  if (cached && cached.settings === settings) return cached.issues;
+  const issues = lintQuestion(question, settings);
+  lintCache.set(question, { settings, issues });
+  return issues;
+};
+
+// Issues per question ID; questions without issues are left out.
+export const lintQuestions = (questions: QuestionData[], settings: QuestionLintSettings): Map<string, QuestionLintIssue[]> => {
+  const results = new Map<string, QuestionLintIssue[]>();
+  for (const question of questions) {
+    const issues = lintQuestionCached(question, settings);
+    if (issues.length > 0) results.set(question.id, issues);
+  }
+  return results;
+};
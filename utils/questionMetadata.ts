@@ -0,0 +1,113 @@
+import { QuestionData, QuestionDifficulty, BloomLevel } from '../types';
+import { foldAccents } from './questionType';
+
+// Organisational metadata (tags, difficulty, Bloom level). It travels in the JSON export and the
+// generation response, never in the CSV columns Questioner expects.
+
+export const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  [QuestionDifficulty.Easy]: 'Fácil',
+  [QuestionDifficulty.Medium]: 'Media',
+  [QuestionDifficulty.Hard]: 'Difícil',
+};
+
+export const BLOOM_LEVEL_LABELS: Record<BloomLevel, string> = {
+  [BloomLevel.Remember]: 'Recordar',
+  [BloomLevel.Understand]: 'Comprender',
+  [BloomLevel.Apply]: 'Aplicar',
+  [BloomLevel.Analyze]: 'Analizar',
+  [BloomLevel.Evaluate]: 'Evaluar',
+  [BloomLevel.Create]: 'Crear',
+};
+
+const normalizeKey = (value: string): string => foldAccents(value).trim();
+
+// Accepts the enum value or its Spanish label ("dificil", "Difícil"...); anything else is dropped.
+const parseEnumValue = <T extends string>(value: unknown, labels: Record<T, string>, aliases: Record<string, T> = {}): T | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const key = normalizeKey(value);
+  const entries = Object.entries(labels) as [T, string][];
+  return entries.find(([enumValue, label]) => enumValue === key || normalizeKey(label) === key)?.[0] ?? aliases[key];
+};
+
+export const parseDifficulty = (value: unknown): QuestionDifficulty | undefined =>
+  parseEnumValue(value, DIFFICULTY_LABELS, { medio: QuestionDifficulty.Medium });
+
+export const parseBloomLevel = (value: unknown): BloomLevel | undefined =>
+  parseEnumValue(value, BLOOM_LEVEL_LABELS, { entender: BloomLevel.Understand });
+
+// Trims, collapses whitespace and drops case-insensitive repeats, keeping the first spelling.
+// Accepts an array or a comma-separated string.
+export const normalizeTags = (value: unknown): string[] => {
+  const rawTags = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  rawTags.forEach(rawTag => {
+    if (typeof rawTag !== 'string') return;
+    const tag = rawTag.replace(/\s+/g, ' ').trim();
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return;
+    seen.add(key);
+    tags.push(tag);
+  });
+  return tags;
+};
+
+// Only the keys with a valid value, so spreading the result never clears existing metadata.
+export const parseQuestionMetadata = (tags: unknown, difficulty: unknown, bloomLevel: unknown): Pick<QuestionData, 'tags' | 'difficulty' | 'bloomLevel'> => {
+  const metadata: Pick<QuestionData, 'tags' | 'difficulty' | 'bloomLevel'> = {};
+  const parsedTags = normalizeTags(tags);
+  if (parsedTags.length > 0) metadata.tags = parsedTags;
+  const parsedDifficulty = parseDifficulty(difficulty);
+  if (parsedDifficulty) metadata.difficulty = parsedDifficulty;
+  const parsedBloomLevel = parseBloomLevel(bloomLevel);
+  if (parsedBloomLevel) metadata.bloomLevel = parsedBloomLevel;
+  return metadata;
+};
+
+export const collectTags = (questions: QuestionData[]): string[] =>
+  normalizeTags(questions.flatMap(q => q.tags || [])).sort((a, b) => a.localeCompare(b, 'es'));
+
+export const hasTag = (question: QuestionData, tag: string): boolean =>
+  (question.tags || []).some(t => t.toLowerCase() === tag.toLowerCase());
+
+// Bulk edit: undefined leaves a field as it is, null clears it.
+export interface QuestionMetadataChanges {
+  addTags?: string[];
+  removeTags?: string[];
+  tags?: string[]; // Replaces the whole list; applied before addTags/removeTags
+  difficulty?: QuestionDifficulty | null;
+  bloomLevel?: BloomLevel | null;
+}
+
+export const applyMetadataChanges = (question: QuestionData, changes: QuestionMetadataChanges): QuestionData => {
+  const { tags: _tags, difficulty: _difficulty, bloomLevel: _bloomLevel, ...rest } = question;
+  const removed = new Set((changes.removeTags || []).map(tag => tag.toLowerCase()));
+  const tags = normalizeTags([...(changes.tags ?? question.tags ?? []), ...(changes.addTags || [])]).filter(tag => !removed.has(tag.toLowerCase()));
+  const difficulty = changes.difficulty === undefined ? question.difficulty : changes.difficulty ?? undefined;
+  const bloomLevel = changes.bloomLevel === undefined ? question.bloomLevel : changes.bloomLevel ?? undefined;
+  return {
+    ...rest,
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(difficulty ? { difficulty } : {}),
+    ...(bloomLevel ? { bloomLevel } : {}),
+  };
+};
+
+// Table filter. An empty string matches everything; 'none' matches questions without a difficulty or Bloom level.
+export interface QuestionMetadataFilter {
+  tag: string;
+  difficulty: QuestionDifficulty | 'none' | '';
+  bloomLevel: BloomLevel | 'none' | '';
+}
+
+export const EMPTY_METADATA_FILTER: QuestionMetadataFilter = { tag: '', difficulty: '', bloomLevel: '' };
+
+export const isMetadataFilterActive = (filter: QuestionMetadataFilter): boolean =>
+  filter.tag !== '' || filter.difficulty !== '' || filter.bloomLevel !== '';
+
+export const matchesMetadataFilter = (question: QuestionData, filter: QuestionMetadataFilter): boolean => {
+  if (filter.tag !== '' && !hasTag(question, filter.tag)) return false;
+  if (filter.difficulty !== '' && (question.difficulty ?? 'none') !== filter.difficulty) return false;
+  if (filter.bloomLevel !== '' && (question.bloomLevel ?? 'none') !== filter.bloomLevel) return false;
+  return true;
+};
@@ -0,0 +1,47 @@
+import { QuestionData, QuestionTextField, StagedQuestion, CSV_HEADERS, CSV_HEADER_TO_QUESTION_DATA_KEY_MAP } from '../types';
+
+// Content fields in display order (Pregunta, each Opción, Explicación).
+export const REVIEWABLE_FIELDS: (QuestionTextField)[] = CSV_HEADERS.map(header => CSV_HEADER_TO_QUESTION_DATA_KEY_MAP[header]);
+
+const normalizeFieldValue = (value?: string): string => (value ?? '').trim();
+
+export function getChangedFields(original: QuestionData, proposed: QuestionData): (QuestionTextField)[] {
+  return REVIEWABLE_FIELDS.filter(field => normalizeFieldValue(original[field]) !== normalizeFieldValue(proposed[field]));
+}
+
+export function createStagedQuestions(proposedQuestions: QuestionData[], requestId: string, requestPrompt: string): StagedQuestion[] {
+  return proposedQuestions.map(question => ({
+    id: `staged-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    requestId,
+    requestPrompt,
+    question,
+    rejectedFields: [],
+  }));
+}
+
+// Builds the question that enters the bank: the current version with every proposed change
+// the reviewer did not reject. Without a current version (new question, or the original was
+// deleted meanwhile) the proposal is taken as-is. Accepting any change drops the fact-check
+// verdict, which was given for the old content, and takes the rewrite's citation (already
+// checked against the context), source chunk and request in place of the old ones.
+export function resolveStagedQuestion(staged: StagedQuestion, current?: QuestionData): QuestionData {
+  if (!current) return staged.question;
+  const acceptedChanges = getChangedFields(current, staged.question).filter(field => !staged.rejectedFields.includes(field));
+  let resolved: QuestionData = { ...current };
+  if (acceptedChanges.length > 0) {
+    const { verification, citation, source, sourceRequest, ...rest } = current;
+    const proposed = staged.question;
+    resolved = {
+      ...rest,
+      ...(proposed.citation ? { citation: proposed.citation } : {}),
+      ...(proposed.source ? { source: proposed.source } : {}),
+      ...(proposed.sourceRequest ? { sourceRequest: proposed.sourceRequest } : {}),
+    };
+  }
+  REVIEWABLE_FIELDS.forEach(field => {
+    if (!staged.rejectedFields.includes(field)) {
+      (resolved as Record<QuestionTextField, string | undefined>)[field] = staged.question[field];
+    }
+  });
+  return resolved;
+}
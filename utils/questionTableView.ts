@@ -0,0 +1,90 @@
+import { QuestionData, QuestionDisplayType, QuestionVerificationStatus, CSV_HEADERS, CSV_HEADER_TO_QUESTION_DATA_KEY_MAP } from '../types';
+import { getQuestionDisplayType, isFieldEmpty, normalizeText } from './questionType';
+import { QuestionMetadataFilter, EMPTY_METADATA_FILTER, isMetadataFilterActive, matchesMetadataFilter } from './questionMetadata';
+
+// Search, filters and sort of the questions table. The result is the list of rows on screen, which
+// is also what selection (select all, shift ranges) works on.
+
+export type QuestionStatusFilter = QuestionVerificationStatus | 'unchecked' | 'flagged' | '';
+export type QuestionSortOrder = 'created' | 'type' | 'length-asc' | 'length-desc';
+
+export const MANUAL_REQUEST_FILTER = '__manual__'; // Questions added by hand or imported
+
+export interface QuestionTableView {
+  search: string;
+  type: QuestionDisplayType | '';
+  requestId: string; // '' for any request, or MANUAL_REQUEST_FILTER
+  explanation: 'with' | 'without' | '';
+  status: QuestionStatusFilter;
+  metadata: QuestionMetadataFilter;
+  sort: QuestionSortOrder;
+}
+
+export const DEFAULT_QUESTION_TABLE_VIEW: QuestionTableView = {
+  search: '',
+  type: '',
+  requestId: '',
+  explanation: '',
+  status: '',
+  metadata: EMPTY_METADATA_FILTER,
+  sort: 'created',
+};
+
+// Order of the types when sorting by type: the same one the type filter lists them in.
+export const SORTABLE_QUESTION_TYPES: QuestionDisplayType[] = [
+  QuestionDisplayType.SingleCorrect,
+  QuestionDisplayType.MultipleCorrect,
+  QuestionDisplayType.TrueFalse,
+  QuestionDisplayType.OpenAnswer,
+  QuestionDisplayType.Flashcard,
+  QuestionDisplayType.Unknown,
+  QuestionDisplayType.Empty,
+];
+
+const getSearchableText = (question: QuestionData): string =>
+  normalizeText([
+    ...CSV_HEADERS.map(header => question[CSV_HEADER_TO_QUESTION_DATA_KEY_MAP[header]] || ''),
+    ...(question.tags || []),
+  ].join(' '));
+
+const getTextLength = (question: QuestionData): number =>
+  CSV_HEADERS.reduce((length, header) => length + (question[CSV_HEADER_TO_QUESTION_DATA_KEY_MAP[header]] || '').trim().length, 0);
+
+export const isQuestionTableViewFiltered = (view: QuestionTableView): boolean =>
+  normalizeText(view.search) !== '' || view.type !== '' || view.requestId !== '' || view.explanation !== '' || view.status !== '' || isMetadataFilterActive(view.metadata);
+
+const matchesStatus = (question: QuestionData, status: QuestionStatusFilter): boolean => {
+  if (status === '') return true;
+  if (status === 'flagged') return !!question.reviewFlag;
+  return status === 'unchecked' ? !question.verification : question.verification?.status === status;
+};
+
+// Every search word must appear somewhere in the question (any field, tags included).
+export const applyQuestionTableView = (questions: QuestionData[], view: QuestionTableView): QuestionData[] => {
+  if (!isQuestionTableViewFiltered(view) && view.sort === 'created') return questions;
+  const searchTerms = normalizeText(view.search).split(' ').filter(Boolean);
+  const filtered = questions.filter(question => {
+    if (view.type !== '' && getQuestionDisplayType(question) !== view.type) return false;
+    if (view.requestId !== '' && (view.requestId === MANUAL_REQUEST_FILTER ? !!question.sourceRequest : question.sourceRequest?.id !== view.requestId)) return false;
+    if (view.explanation !== '' && isFieldEmpty(question.Explicación) === (view.explanation === 'with')) return false;
+    if (!matchesStatus(question, view.status) || !matchesMetadataFilter(question, view.metadata)) return false;
+    if (searchTerms.length > 0) {
+      const text = getSearchableText(question);
+      if (!searchTerms.every(term => text.includes(term))) return false;
+    }
+    return true;
+  });
+  switch (view.sort) {
+    case 'type': {
+      const typeOrder = (question: QuestionData) => SORTABLE_QUESTION_TYPES.indexOf(getQuestionDisplayType(question));
+      return filtered.map(question => ({ question, order: typeOrder(question) })).sort((a, b) => a.order - b.order).map(({ question }) => question);
+    }
+    case 'length-asc':
+    case 'length-desc': {
+      const direction = view.sort === 'length-asc' ? 1 : -1;
+      return filtered.map(question => ({ question, length: getTextLength(question) })).sort((a, b) => (a.length - b.length) * direction).map(({ question }) => question);
+    }
+    default:
+      return filtered;
+  }
+};
@@ -0,0 +1,60 @@
+import { QuestionData, QuestionDisplayType, QuestionTargets } from '../types';
+import { getQuestionDisplayType } from './questionType';
+
+// Types a request can ask for, in the order the request form lists them. The prompt names match
+// the type definitions in constructInitialPrompt.
+export const TARGETABLE_QUESTION_TYPES: { type: QuestionDisplayType; label: string; promptName: string }[] = [
+  { type: QuestionDisplayType.SingleCorrect, label: 'Única', promptName: 'Selección Única' },
+  { type: QuestionDisplayType.MultipleCorrect, label: 'Múltiple', promptName: 'Selección Múltiple' },
+  { type: QuestionDisplayType.TrueFalse, label: 'V/F', promptName: 'Verdadero/Falso' },
+  { type: QuestionDisplayType.OpenAnswer, label: 'Abierta', promptName: 'Respuesta Escrita' },
+  { type: QuestionDisplayType.Flashcard, label: 'Flashcard', promptName: 'Flashcard' },
+];
+
+export const getTypeMixTotal = (targets: QuestionTargets): number =>
+  Object.values(targets.typeMix || {}).reduce((sum, count) => sum + (count || 0), 0);
+
+// Total questions a request asks for: its count, raised to the type mix if the mix adds up to more.
+export const getTargetTotal = (targets: QuestionTargets): number => Math.max(targets.count || 0, getTypeMixTotal(targets));
+
+// Drops zero/invalid entries; returns undefined when nothing is left to aim for.
+export const normalizeQuestionTargets = (targets: QuestionTargets): QuestionTargets | undefined => {
+  const clean = (value: number | undefined) => (value !== undefined && Number.isFinite(value) && value >= 1 ? Math.floor(value) : undefined);
+  const typeMix: QuestionTargets['typeMix'] = {};
+  for (const { type } of TARGETABLE_QUESTION_TYPES) {
+    const count = clean(targets.typeMix?.[type]);
+    if (count) typeMix[type] = count;
+  }
+  const count = clean(targets.count);
+  const hasTypeMix = Object.keys(typeMix).length > 0;
+  if (!count && !hasTypeMix) return undefined;
+  return { ...(count ? { count } : {}), ...(hasTypeMix ? { typeMix } : {}) };
+};
+
+// What is still missing after a generation, as targets for a follow-up call. Extra questions of one
+// type don't make up for another type's shortfall. Returns undefined once every target is met.
+export const getTargetShortfall = (questions: QuestionData[], targets: QuestionTargets): QuestionTargets | undefined => {
+  const generatedByType = new Map<QuestionDisplayType, number>();
+  for (const question of questions) {
+    const type = getQuestionDisplayType(question);
+    generatedByType.set(type, (generatedByType.get(type) || 0) + 1);
+  }
+
+  const typeMix: QuestionTargets['typeMix'] = {};
+  for (const [type, wanted] of Object.entries(targets.typeMix || {}) as [QuestionDisplayType, number][]) {
+    const missing = wanted - (generatedByType.get(type) || 0);
+    if (missing > 0) typeMix[type] = missing;
+  }
+  const missingTotal = Math.max(getTargetTotal(targets) - questions.length, getTypeMixTotal({ typeMix }));
+  if (missingTotal <= 0) return undefined;
+  return { count: missingTotal, ...(Object.keys(typeMix).length > 0 ? { typeMix } : {}) };
+};
+
+// Short label for the queue, e.g. "10 preguntas: 5 Única, 3 V/F".
+export const describeQuestionTargets = (targets: QuestionTargets): string => {
+  const total = getTargetTotal(targets);
+  const mix = TARGETABLE_QUESTION_TYPES
+    .filter(({ type }) => targets.typeMix?.[type])
+    .map(({ type, label }) => `${targets.typeMix![type]} ${label}`);
+  return `${total} pregunta(s)${mix.length > 0 ? `: ${mix.join(', ')}` : ''}`;
+};
@@ -0,0 +1,78 @@
+import { QuestionData, QuestionDisplayType } from '../types';
+
+// Helper function to check if a field is empty or undefined
+export const isFieldEmpty = (value?: string): boolean => value === undefined || value === null || value.trim() === '';
+
+// Lowercase without accents ("Opción" -> "opcion").
+export const foldAccents = (text: string): string => text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Comparable form of a text, shared by search, matching and grading: lowercase, no accents, and
+// every run of punctuation or whitespace turned into one space. Letters and digits of any script
+// are kept, so answers like "π" don't normalize to nothing.
+export const normalizeText = (text: string): string => foldAccents(text).replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Questions are never mutated (every edit creates a new object), so the type can be cached per
+// object: the table, the save checks and the linter ask for it on every render.
+const displayTypeCache = new WeakMap<QuestionData, QuestionDisplayType>();
+
+// Classifies a question by which option fields are filled. getQuestionTypeInfo (App.tsx) adds the
+// visual info on top of this; exporters use it directly so both always agree on the type.
+export function getQuestionDisplayType(question: QuestionData): QuestionDisplayType {
+  let type = displayTypeCache.get(question);
+  if (type === undefined) {
+    type = classifyQuestion(question);
+    displayTypeCache.set(question, type);
+  }
+  return type;
+}
+
+function classifyQuestion(question: QuestionData): QuestionDisplayType {
+  const c1 = question['Opción correcta 1'];
+  const c2 = question['Opción Correcta 2'];
+  const c3 = question['Opción Correcta 3'];
+  const i1 = question['Opción Incorrecta 1'];
+  const i2 = question['Opción Incorrecta 2'];
+  const i3 = question['Opción Incorrecta 3'];
+
+  const hasC1 = !isFieldEmpty(c1);
+  const hasC2 = !isFieldEmpty(c2);
+  const hasC3 = !isFieldEmpty(c3);
+  const hasI1 = !isFieldEmpty(i1);
+  const hasI2 = !isFieldEmpty(i2);
+  const hasI3 = !isFieldEmpty(i3);
+
+  const incorrectOptionsFilled = [hasI1, hasI2, hasI3].filter(Boolean).length;
+
+  // 0. Empty Question (Highest priority)
+  if (isFieldEmpty(question.Pregunta)) return QuestionDisplayType.Empty;
+
+  // 1. Open Answer
+  if (hasC1 && !hasC2 && !hasC3 && !hasI1 && !hasI2 && !hasI3) return QuestionDisplayType.OpenAnswer;
+
+  // 2. Flashcard
+  if (hasC2 && !hasC1 && !hasC3 && !hasI1 && !hasI2 && !hasI3) return QuestionDisplayType.Flashcard;
+
+  // 3. True/False
+  if (hasC1 && hasI1 && !hasC2 && !hasC3 && !hasI2 && !hasI3) return QuestionDisplayType.TrueFalse;
+
+  // 4. Multiple Correct
+  if (hasC1 && (hasC2 || hasC3) && incorrectOptionsFilled >= 1) return QuestionDisplayType.MultipleCorrect;
+
+  // 5. Single Correct
+  if (hasC1 && !hasC2 && !hasC3 && incorrectOptionsFilled >= 2) return QuestionDisplayType.SingleCorrect;
+
+  return QuestionDisplayType.Unknown;
+}
+
+// Filled correct/incorrect options, trimmed, in column order.
+export function getCorrectOptions(question: QuestionData): string[] {
+  return [question['Opción correcta 1'], question['Opción Correcta 2'], question['Opción Correcta 3']]
+    .filter((value): value is string => !isFieldEmpty(value))
+    .map(value => value.trim());
+}
+
+export function getIncorrectOptions(question: QuestionData): string[] {
+  return [question['Opción Incorrecta 1'], question['Opción Incorrecta 2'], question['Opción Incorrecta 3']]
+    .filter((value): value is string => !isFieldEmpty(value))
+    .map(value => value.trim());
+}
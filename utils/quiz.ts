@@ -0,0 +1,74 @@
+import { QuestionData, QuestionDisplayType } from '../types';
+import { getQuestionDisplayType, getCorrectOptions, getIncorrectOptions, normalizeText } from './questionType';
+import { levenshteinDistance } from './csvColumnMapping';
+
+// Practice mode: turns the bank into quiz items (options shuffled) and grades answers the way a
+// student would experience them. Flashcards are self-graded.
+
+export interface QuizOption {
+  text: string;
+  isCorrect: boolean;
+}
+
+export interface QuizItem {
+  question: QuestionData;
+  type: QuestionDisplayType;
+  options: QuizOption[]; // Shuffled; empty for OpenAnswer and Flashcard
+}
+
+export type QuizAnswer =
+  | { kind: 'choice'; selected: number[] } // Indexes into QuizItem.options
+  | { kind: 'text'; text: string }
+  | { kind: 'self'; knewIt: boolean };
+
+export const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Empty and unknown-type questions can't be played and are skipped.
+export const buildQuizItems = (questions: QuestionData[], shuffleOrder: boolean): QuizItem[] => {
+  const items = questions
+    .map(question => ({ question, type: getQuestionDisplayType(question) }))
+    .filter(({ type }) => type !== QuestionDisplayType.Empty && type !== QuestionDisplayType.Unknown)
+    .map(({ question, type }) => {
+      const hasOptions = type !== QuestionDisplayType.OpenAnswer && type !== QuestionDisplayType.Flashcard;
+      const options = hasOptions
+        ? shuffle([
+            ...getCorrectOptions(question).map(text => ({ text, isCorrect: true })),
+            ...getIncorrectOptions(question).map(text => ({ text, isCorrect: false })),
+          ])
+        : [];
+      return { question, type, options };
+    });
+  return shuffleOrder ? shuffle(items) : items;
+};
+
+const normalizeAnswer = (text: string): string =>
+  normalizeText(text).replace(/^(el|la|los|las|un|una|unos|unas|the|a|an) /, '');
+
+// Ignores case, accents, punctuation and a leading article, and forgives about one typo per five letters.
+export const isOpenAnswerCorrect = (given: string, expected: string): boolean => {
+  const a = normalizeAnswer(given);
+  const b = normalizeAnswer(expected);
+  if (!a || !b) return false;
+  if (a === b) return true;
+  return levenshteinDistance(a, b) <= Math.floor(b.length / 5);
+};
+
+export const isQuizAnswerCorrect = (item: QuizItem, answer: QuizAnswer): boolean => {
+  switch (answer.kind) {
+    case 'choice': {
+      const selected = new Set(answer.selected);
+      return item.options.every((option, index) => option.isCorrect === selected.has(index));
+    }
+    case 'text':
+      return isOpenAnswerCorrect(answer.text, item.question['Opción correcta 1'] || '');
+    case 'self':
+      return answer.knewIt;
+  }
+};
@@ -0,0 +1,160 @@
+import { LOCAL_STORAGE_QUEUE_SCHEDULER_SETTINGS, RATE_LIMIT_BACKOFF_BASE_MS, RATE_LIMIT_BACKOFF_MAX_MS } from '../constants';
+
+// Building blocks for processQueue: a worker pool, per-model rate limiting, backoff for
+// rate-limit/overload errors and in-order delivery of results that finish out of order.
+
+export interface QueueSchedulerSettings {
+  concurrency: number; // Requests generated in parallel
+  requestsPerMinute: number; // Budget per model
+  tokensPerMinute: number; // Budget per model (estimated input + expected output)
+}
+
+export const DEFAULT_QUEUE_SCHEDULER_SETTINGS: QueueSchedulerSettings = {
+  concurrency: 2,
+  requestsPerMinute: 10,
+  tokensPerMinute: 250000,
+};
+
+export type RequestWorkerPhase = 'waiting-rate-limit' | 'generating' | 'backoff';
+
+// Live state of a request while a worker holds it (not persisted).
+export interface RequestWorkerState {
+  worker: number; // 1-based worker number
+  phase: RequestWorkerPhase;
+  streamedChars: number;
+  retryCount: number; // Rate-limit retries so far
+  resumeAt?: number; // Backoff end (epoch ms)
+}
+
+const ONE_MINUTE_MS = 60000;
+
+export const loadQueueSchedulerSettings = (): QueueSchedulerSettings => {
+  try {
+    const stored = localStorage.getItem(LOCAL_STORAGE_QUEUE_SCHEDULER_SETTINGS);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return normalizeQueueSchedulerSettings({ ...DEFAULT_QUEUE_SCHEDULER_SETTINGS, ...(typeof parsed === 'object' && parsed !== null ? parsed : {}) });
+  } catch {
+    return { ...DEFAULT_QUEUE_SCHEDULER_SETTINGS };
+  }
+};
+
+export const saveQueueSchedulerSettings = (settings: QueueSchedulerSettings): void => {
+  localStorage.setItem(LOCAL_STORAGE_QUEUE_SCHEDULER_SETTINGS, JSON.stringify(settings));
+};
+
+// Positive integers only; invalid values fall back to the defaults.
+export const normalizeQueueSchedulerSettings = (settings: QueueSchedulerSettings): QueueSchedulerSettings => {
+  const clean = (value: number, fallback: number) => (Number.isFinite(value) && value >= 1 ? Math.floor(value) : fallback);
+  return {
+    concurrency: clean(settings.concurrency, DEFAULT_QUEUE_SCHEDULER_SETTINGS.concurrency),
+    requestsPerMinute: clean(settings.requestsPerMinute, DEFAULT_QUEUE_SCHEDULER_SETTINGS.requestsPerMinute),
+    tokensPerMinute: clean(settings.tokensPerMinute, DEFAULT_QUEUE_SCHEDULER_SETTINGS.tokensPerMinute),
+  };
+};
+
+// Resolves after `ms`, or early (without throwing) when the signal aborts.
+export const waitFor = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Rough token count: ~4 characters per token for text; binary files (PDF, images) are billed
+// per page/image, approximated as one 258-token unit per 50 KB.
+export const estimateTokens = (texts: string[], files: File[]): number => {
+  const textTokens = texts.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0);
+  const fileTokens = files.reduce((sum, file) => {
+    const isText = file.type.startsWith('text/') || /\.(txt|md|csv|json)$/i.test(file.name);
+    return sum + (isText ? Math.ceil(file.size / 4) : 258 * Math.max(1, Math.ceil(file.size / 51200)));
+  }, 0);
+  return textTokens + fileTokens;
+};
+
+export interface RateLimiter {
+  // Waits until `model` has room for one more request of `tokens`; returns the time waited (ms).
+  // Throws the signal's AbortError if aborted while waiting.
+  acquire: (model: string, tokens: number, signal?: AbortSignal) => Promise<number>;
+}
+
+// Sliding one-minute window per model. A single request larger than the whole token budget is
+// still let through once the window is empty, so it can't block the queue forever.
+export const createRateLimiter = ({ requestsPerMinute, tokensPerMinute }: QueueSchedulerSettings): RateLimiter => {
+  const windows = new Map<string, { at: number; tokens: number }[]>();
+
+  return {
+    async acquire(model, tokens, signal) {
+      const startedAt = Date.now();
+      while (true) {
+        signal?.throwIfAborted();
+        const now = Date.now();
+        const window = (windows.get(model) || []).filter(entry => now - entry.at < ONE_MINUTE_MS);
+        windows.set(model, window);
+        const usedTokens = window.reduce((sum, entry) => sum + entry.tokens, 0);
+        if (window.length === 0 || (window.length < requestsPerMinute && usedTokens + tokens <= tokensPerMinute)) {
+          window.push({ at: now, tokens });
+          return now - startedAt;
+        }
+        // The oldest entry is the first to free up room.
+        await waitFor(window[0].at + ONE_MINUTE_MS - now + 50, signal);
+      }
+    },
+  };
+};
+
+// 429 (quota/rate limit) and 503 (overloaded) are worth retrying; other errors are not.
+export const isRateLimitError = (error: any): boolean => {
+  const status = error?.status ?? error?.code;
+  if (status === 429 || status === 503) return true;
+  return /\b(429|503)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|rate limit/i.test(String(error?.message || ''));
+};
+
+// Exponential backoff with jitter: a random delay in [cap/2, cap], cap doubling per attempt.
+export const getBackoffDelay = (attempt: number): number => {
+  const cap = Math.min(RATE_LIMIT_BACKOFF_MAX_MS, RATE_LIMIT_BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.round(cap / 2 + Math.random() * (cap / 2));
+};
+
+// Runs `worker` over `items` with at most `concurrency` in flight, taking items in order.
+// Stops handing out items once `shouldStop` returns true; returns how many were started.
+export const runWorkerPool = async <T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number, workerNumber: number) => Promise<void>,
+  shouldStop: () => boolean
+): Promise<number> => {
+  let nextIndex = 0;
+  const runWorker = async (workerNumber: number) => {
+    while (nextIndex < items.length && !shouldStop()) {
+      const index = nextIndex++;
+      await worker(items[index], index, workerNumber);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, (_, i) => runWorker(i + 1)));
+  return nextIndex;
+};
+
+// Collects results by queue index and hands them to `onCommit` strictly in index order, as soon
+// as every earlier index has completed. Use `null` for items that produced nothing.
+export const createOrderedCommitter = <R>(onCommit: (index: number, result: R) => void) => {
+  const completed = new Map<number, R | null>();
+  let nextToCommit = 0;
+  return {
+    complete(index: number, result: R | null) {
+      completed.set(index, result);
+      while (completed.has(nextToCommit)) {
+        const next = completed.get(nextToCommit);
+        completed.delete(nextToCommit);
+        if (next !== null && next !== undefined) onCommit(nextToCommit, next);
+        nextToCommit++;
+      }
+    },
+  };
+};
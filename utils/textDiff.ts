@@ -0,0 +1,56 @@
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+const MAX_DIFF_CELLS = 250000; // Above this (tokens x tokens), skip the LCS and show a plain replacement
+
+// Word-level diff (whitespace is kept as its own token so the text can be rebuilt exactly).
+export function diffWords(before: string, after: string): DiffSegment[] {
+  if (before === after) return before ? [{ type: 'equal', text: before }] : [];
+
+  const a = before.split(/(\s+)/).filter(t => t !== '');
+  const b = after.split(/(\s+)/).filter(t => t !== '');
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    const segments: DiffSegment[] = [];
+    if (before) segments.push({ type: 'removed', text: before });
+    if (after) segments.push({ type: 'added', text: after });
+    return segments;
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return segments;
+}
@@ -0,0 +1,130 @@
+import { useState, useEffect, useLayoutEffect, useRef, useMemo, useCallback, RefObject } from 'react';
+
+// Windowing for long lists whose rows have different heights (the questions table). Only the rows
+// around the viewport are rendered; the rest are replaced by two spacers sized from the heights
+// measured while each row was on screen, or an estimate for rows never rendered yet. The rendered
+// range only changes once the viewport leaves it, so scrolling doesn't re-render the parent on
+// every scroll event.
+
+export interface VirtualRows<T> {
+  items: T[]; // Rows to render, in order
+  paddingTop: number; // Height of the rows above them
+  paddingBottom: number; // Height of the rows below them
+  observeRow: (key: string, element: HTMLElement | null) => void; // Ref callback for each rendered row
+}
+
+const findRowAt = (offsets: number[], position: number): number => {
+  // Last row whose top is at or above the position
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) low = middle;
+    else high = middle - 1;
+  }
+  return Math.max(0, low);
+};
+
+export const useVirtualRows = <T,>(
+  allItems: T[],
+  getKey: (item: T) => string, // Must be stable between renders
+  scrollContainerRef: RefObject<HTMLElement | null>, // The element that scrolls: needs a bounded height, or every row counts as visible
+  estimatedRowHeight: number,
+  overscan = 10 // Rows rendered beyond each edge of the viewport
+): VirtualRows<T> => {
+  const [range, setRange] = useState({ start: 0, end: 0 });
+  const [rowHeights, setRowHeights] = useState<Map<string, number>>(() => new Map());
+  const rowElementsRef = useRef(new Map<string, HTMLElement>());
+  const rowKeysRef = useRef(new Map<Element, string>());
+  const rowObserverRef = useRef<ResizeObserver | null>(null);
+
+  // Heights are kept after a row leaves the screen, so scrolling back doesn't shift the content.
+  useEffect(() => {
+    const observer = new ResizeObserver(entries => {
+      setRowHeights(prev => {
+        let next: Map<string, number> | null = null;
+        entries.forEach(entry => {
+          const key = rowKeysRef.current.get(entry.target);
+          if (key === undefined) return;
+          const height = (entry.target as HTMLElement).offsetHeight;
+          if (prev.get(key) === height) return;
+          next = next || new Map(prev);
+          next.set(key, height);
+        });
+        return next || prev;
+      });
+    });
+    rowObserverRef.current = observer;
+    rowElementsRef.current.forEach(element => observer.observe(element)); // Rows mounted before this effect ran
+    return () => {
+      observer.disconnect();
+      rowObserverRef.current = null;
+    };
+  }, []);
+
+  const observeRow = useCallback((key: string, element: HTMLElement | null) => {
+    const previous = rowElementsRef.current.get(key);
+    if (previous === element) return;
+    if (previous) {
+      rowObserverRef.current?.unobserve(previous);
+      rowKeysRef.current.delete(previous);
+      rowElementsRef.current.delete(key);
+    }
+    if (element) {
+      rowElementsRef.current.set(key, element);
+      rowKeysRef.current.set(element, key);
+      rowObserverRef.current?.observe(element);
+    }
+  }, []);
+
+  // offsets[i] is the top of row i; the last entry is the total height.
+  const offsets = useMemo(() => {
+    const result = [0];
+    allItems.forEach((item, index) => result.push(result[index] + (rowHeights.get(getKey(item)) ?? estimatedRowHeight)));
+    return result;
+  }, [allItems, rowHeights, getKey, estimatedRowHeight]);
+  const offsetsRef = useRef(offsets);
+  offsetsRef.current = offsets;
+
+  const updateRange = useCallback(() => {
+    const container = scrollContainerRef.current;
+    const currentOffsets = offsetsRef.current;
+    const rowCount = currentOffsets.length - 1;
+    const scrollTop = container?.scrollTop ?? 0;
+    const viewportHeight = container?.clientHeight || window.innerHeight;
+    const firstVisible = findRowAt(currentOffsets, scrollTop);
+    const lastVisible = Math.min(rowCount, findRowAt(currentOffsets, scrollTop + viewportHeight) + 1);
+    setRange(prev => {
+      if (firstVisible >= prev.start && lastVisible <= Math.min(prev.end, rowCount)) return prev;
+      const next = { start: Math.max(0, firstVisible - overscan), end: Math.min(rowCount, lastVisible + overscan) };
+      return next.start === prev.start && next.end === prev.end ? prev : next;
+    });
+  }, [scrollContainerRef, overscan]);
+
+  // Before paint, so rows added, removed or resized never leave a blank gap on screen.
+  useLayoutEffect(updateRange, [offsets, updateRange]);
+
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    container.addEventListener('scroll', updateRange, { passive: true });
+    const resizeObserver = new ResizeObserver(updateRange);
+    resizeObserver.observe(container);
+    return () => {
+      container.removeEventListener('scroll', updateRange);
+      resizeObserver.disconnect();
+    };
+  }, [scrollContainerRef, updateRange]);
+
+  const start = Math.min(range.start, allItems.length);
+  const end = Math.min(range.end, allItems.length);
+  const items = useMemo(() => allItems.slice(start, end), [allItems, start, end]);
+  const totalHeight = offsets[offsets.length - 1];
+
+  return {
+    items,
+    paddingTop: offsets[start] ?? 0,
+    paddingBottom: Math.max(0, totalHeight - (offsets[end] ?? totalHeight)),
+    observeRow,
+  };
+};